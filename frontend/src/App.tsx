@@ -6,6 +6,14 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import QAManagement from "./pages/QAManagement";
 import Settings from "./pages/Settings";
+import Users from "./pages/Users";
+import Account from "./pages/Account";
+import Audit from "./pages/Audit";
+import Trash from "./pages/Trash";
+import Duplicates from "./pages/Duplicates";
+import Analytics from "./pages/Analytics";
+import Gaps from "./pages/Gaps";
+import Evaluation from "./pages/Evaluation";
 import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 import ProtectedRoute from "@/components/ProtectedRoute";
@@ -24,6 +32,14 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/qa-management" element={<QAManagement />} />
             <Route path="/settings" element={<Settings />} />
+            <Route path="/users" element={<Users />} />
+            <Route path="/account" element={<Account />} />
+            <Route path="/audit" element={<Audit />} />
+            <Route path="/trash" element={<Trash />} />
+            <Route path="/duplicates" element={<Duplicates />} />
+            <Route path="/analytics" element={<Analytics />} />
+            <Route path="/gaps" element={<Gaps />} />
+            <Route path="/evaluation" element={<Evaluation />} />
           </Route>
           <Route path="*" element={<NotFound />} />
         </Routes>
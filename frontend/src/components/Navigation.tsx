@@ -1,23 +1,48 @@
 import { useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Home, FileText, Settings, Menu } from "lucide-react";
+import { Home, FileText, Settings, Menu, Users, LogOut, UserCircle, History, Trash2, Copy, BarChart3, Inbox, FlaskConical } from "lucide-react";
 import { Logo } from "@/components/Logo";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { cn } from "@/lib/utils";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/useAuth";
+import { ROLE_LABELS } from "@/lib/roles";
 
 export const Navigation = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { user, can, logout, logoutStatus } = useAuth();
 
   const navItems = [
     { path: "/", label: "Search", icon: Home },
     { path: "/qa-management", label: "Q&A Management", icon: FileText },
+    ...(can("editor")
+      ? [
+          { path: "/analytics", label: "Analytics", icon: BarChart3 },
+          { path: "/gaps", label: "Gaps", icon: Inbox },
+          { path: "/evaluation", label: "Evaluation", icon: FlaskConical },
+          { path: "/duplicates", label: "Duplicates", icon: Copy },
+          { path: "/trash", label: "Trash", icon: Trash2 },
+        ]
+      : []),
     { path: "/settings", label: "Settings", icon: Settings },
+    ...(can("admin")
+      ? [
+          { path: "/users", label: "Users", icon: Users },
+          { path: "/audit", label: "Audit", icon: History },
+        ]
+      : []),
   ];
 
+  const handleLogout = async () => {
+    setMobileMenuOpen(false);
+    await logout();
+    navigate("/login", { replace: true });
+  };
+
   const handleNavClick = (path: string) => {
     navigate(path);
     setMobileMenuOpen(false);
@@ -68,6 +93,32 @@ export const Navigation = () => {
               <ThemeToggle />
             </div>
 
+            {user && (
+              <div className="hidden md:flex items-center gap-2 pl-2 border-l">
+                <Button
+                  variant={location.pathname === "/account" ? "secondary" : "ghost"}
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => handleNavClick("/account")}
+                  title="Account and sessions"
+                >
+                  <UserCircle className="h-4 w-4" />
+                  <span className="text-sm font-medium">{user.username}</span>
+                </Button>
+                <Badge variant="outline">{ROLE_LABELS[user.role]}</Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => void handleLogout()}
+                  disabled={logoutStatus === "pending"}
+                  title="Sign out"
+                >
+                  <LogOut className="h-4 w-4" />
+                  <span className="sr-only">Sign out</span>
+                </Button>
+              </div>
+            )}
+
             {/* Mobile Menu */}
             <Sheet open={mobileMenuOpen} onOpenChange={setMobileMenuOpen}>
               <SheetTrigger asChild className="md:hidden">
@@ -105,11 +156,36 @@ export const Navigation = () => {
                     })}
                   </nav>
 
-                  <div className="pt-4 border-t">
+                  <div className="pt-4 border-t space-y-4">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Theme</span>
                       <ThemeToggle />
                     </div>
+                    {user && (
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <button
+                            type="button"
+                            className="flex items-center gap-2 min-w-0 text-sm font-medium hover:underline"
+                            onClick={() => handleNavClick("/account")}
+                          >
+                            <UserCircle className="h-4 w-4 shrink-0" />
+                            <span className="truncate">{user.username}</span>
+                          </button>
+                          <Badge variant="outline">{ROLE_LABELS[user.role]}</Badge>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => void handleLogout()}
+                          disabled={logoutStatus === "pending"}
+                        >
+                          <LogOut className="h-4 w-4" />
+                          Sign out
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </SheetContent>
@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch, ApiError } from "@/lib/api";
+import { diffWords, type DiffSegment } from "@/lib/diff";
+import { Loader2, RotateCcw } from "lucide-react";
+
+type RevisionChangeType = "create" | "update" | "replace" | "restore" | "merge";
+
+interface QaRevision {
+  id: number;
+  qa_id: string;
+  revision: number;
+  question: string;
+  answer: string;
+  language: string;
+  change_type: RevisionChangeType;
+  restored_from: number | null;
+  /** The pair this revision came from when that pair was merged into this one. */
+  merged_from: string | null;
+  actor_username: string;
+  created_at: string;
+}
+
+const CHANGE_LABELS: Record<RevisionChangeType, string> = {
+  create: "Created",
+  update: "Edited",
+  replace: "Replaced on create/import",
+  restore: "Restored",
+  merge: "Merged with another pair",
+};
+
+interface QaRevisionsDialogProps {
+  qaId: string | null;
+  canRestore: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+/** Renders one side of a side-by-side diff: removals on the left, additions on the right. */
+const DiffSide = ({ segments, side }: { segments: DiffSegment[]; side: "before" | "after" }) => (
+  <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+    {segments.map((segment, index) => {
+      if (segment.type === "equal") return <span key={index}>{segment.text}</span>;
+      if (side === "before" && segment.type === "removed") {
+        return (
+          <span key={index} className="rounded-sm bg-destructive/20 line-through decoration-destructive/60">
+            {segment.text}
+          </span>
+        );
+      }
+      if (side === "after" && segment.type === "added") {
+        return (
+          <span key={index} className="rounded-sm bg-emerald-500/20">
+            {segment.text}
+          </span>
+        );
+      }
+      return null;
+    })}
+  </p>
+);
+
+const describeRevision = (revision: QaRevision) =>
+  `#${revision.revision} · ${CHANGE_LABELS[revision.change_type]} · ${new Date(revision.created_at).toLocaleString()}`;
+
+export const QaRevisionsDialog = ({ qaId, canRestore, onOpenChange, onRestored }: QaRevisionsDialogProps) => {
+  const { toast } = useToast();
+  const [leftRevision, setLeftRevision] = useState<number | null>(null);
+  const [rightRevision, setRightRevision] = useState<number | null>(null);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["qa", "revisions", qaId],
+    queryFn: () => apiFetch<{ items: QaRevision[] }>(`/qa/${qaId}/revisions`),
+    enabled: qaId !== null,
+  });
+
+  const revisions = useMemo(() => data?.items ?? [], [data]);
+
+  // Default to comparing the previous revision with the current one.
+  useEffect(() => {
+    if (revisions.length === 0) return;
+    setRightRevision(revisions[0].revision);
+    setLeftRevision((revisions[1] ?? revisions[0]).revision);
+  }, [revisions]);
+
+  const left = revisions.find((revision) => revision.revision === leftRevision);
+  const right = revisions.find((revision) => revision.revision === rightRevision);
+
+  const questionDiff = useMemo(() => (left && right ? diffWords(left.question, right.question) : []), [left, right]);
+  const answerDiff = useMemo(() => (left && right ? diffWords(left.answer, right.answer) : []), [left, right]);
+
+  const restoreMutation = useMutation({
+    mutationFn: (revision: number) =>
+      apiFetch<{ item: { pending_edit: unknown | null }; restoredFrom: number }>(
+        `/qa/${qaId}/revisions/${revision}/restore`,
+        { method: "POST" },
+      ),
+    onSuccess: ({ item, restoredFrom }) => {
+      toast({
+        title: item.pending_edit ? "Restore sent for review" : "Revision restored",
+        description: item.pending_edit
+          ? `Revision #${restoredFrom} goes live once an admin approves it; the published version stays in search until then.`
+          : `Revision #${restoredFrom} is live again and queued for re-embedding.`,
+      });
+      void refetch();
+      onRestored();
+    },
+    onError: (err) => {
+      toast({
+        title: "Restore failed",
+        description: err instanceof ApiError ? err.message : "Unable to restore the revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderPicker = (id: string, label: string, value: number | null, onChange: (value: number) => void) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value !== null ? String(value) : undefined} onValueChange={(next) => onChange(Number(next))}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select revision" />
+        </SelectTrigger>
+        <SelectContent>
+          {revisions.map((revision) => (
+            <SelectItem key={revision.revision} value={String(revision.revision)}>
+              {describeRevision(revision)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={qaId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Revision History</DialogTitle>
+          <DialogDescription>
+            Compare any two revisions of this pair. Restoring creates a new revision and re-embeds the pair.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              {renderPicker("revision-left", "Older", leftRevision, setLeftRevision)}
+              {renderPicker("revision-right", "Newer", rightRevision, setRightRevision)}
+            </div>
+
+            {left && right ? (
+              <div className="grid gap-4 md:grid-cols-2">
+                {([left, right] as const).map((revision, index) => {
+                  const side = index === 0 ? "before" : "after";
+                  return (
+                    <div key={side} className="space-y-3 rounded-md border p-4">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">
+                          Revision #{revision.revision} by {revision.actor_username}
+                        </span>
+                        <Badge variant="outline" className="uppercase">
+                          {revision.language}
+                        </Badge>
+                      </div>
+                      <div className="space-y-1">
+                        <p className="text-xs font-semibold uppercase text-muted-foreground">Question</p>
+                        <DiffSide segments={questionDiff} side={side} />
+                      </div>
+                      <div className="space-y-1">
+                        <p className="text-xs font-semibold uppercase text-muted-foreground">Answer</p>
+                        <DiffSide segments={answerDiff} side={side} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : null}
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">All revisions</p>
+              <ul className="divide-y rounded-md border">
+                {revisions.map((revision, index) => (
+                  <li key={revision.revision} className="flex items-center justify-between gap-3 px-4 py-2">
+                    <div className="min-w-0 text-sm">
+                      <span className="font-medium">#{revision.revision}</span>{" "}
+                      <span className="text-muted-foreground">
+                        {CHANGE_LABELS[revision.change_type]}
+                        {revision.restored_from !== null ? ` from #${revision.restored_from}` : ""}
+                        {revision.merged_from !== null && revision.change_type !== "merge" ? " (merged pair)" : ""} by{" "}
+                        {revision.actor_username} · {new Date(revision.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {index === 0 ? <Badge variant="secondary">Current</Badge> : null}
+                      {canRestore && index > 0 ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => restoreMutation.mutate(revision.revision)}
+                          disabled={restoreMutation.isPending}
+                        >
+                          {restoreMutation.isPending && restoreMutation.variables === revision.revision ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4" />
+                          )}
+                          Restore
+                        </Button>
+                      ) : null}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,18 +1,29 @@
 import { useQuery, useMutation, type MutationStatus } from "@tanstack/react-query";
 import { apiFetch, ApiError } from "@/lib/api";
 import { useCallback } from "react";
+import { hasRole, type UserRole } from "@/lib/roles";
 
 const AUTH_KEY = ["auth", "session"] as const;
 
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  sessionExpiresAt?: string;
+}
+
 interface LoginResponse {
   ok: true;
   expiresAt: string;
+  user: AuthUser;
 }
 
 interface MetricsResponse {
   ok: boolean;
+  user?: AuthUser;
   totalQa?: number;
   pineconeVectors?: number;
+  vectorStore?: "pinecone" | "sqlite";
   rerankUsage?: {
     date: string;
     unitsUsed: number;
@@ -24,7 +35,7 @@ interface MetricsResponse {
 interface UseAuthResult {
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (input: { password: string }) => Promise<LoginResponse>;
+  login: (input: { username: string; password: string }) => Promise<LoginResponse>;
   loginStatus: MutationStatus;
   loginError: ApiError | null;
   logout: () => Promise<void>;
@@ -33,6 +44,8 @@ interface UseAuthResult {
   refresh: () => Promise<MetricsResponse | undefined>;
   error: ApiError | null;
   metrics: MetricsResponse | undefined;
+  user: AuthUser | null;
+  can: (role: UserRole) => boolean;
 }
 
 const fetchSession = async (): Promise<MetricsResponse> => {
@@ -52,20 +65,11 @@ export const useAuth = (): UseAuthResult => {
   });
 
   const loginMutation = useMutation({
-    mutationFn: async ({ password }: { password: string }) => {
-      console.log("=== DEBUG FRONT LOGIN ===");
-      console.log("API base:", import.meta.env.VITE_API_BASE ?? "/api");
-      console.log("Password length:", password.length);
-
-      const result = await apiFetch<LoginResponse>("/auth/login", {
+    mutationFn: ({ username, password }: { username: string; password: string }) =>
+      apiFetch<LoginResponse>("/auth/login", {
         method: "POST",
-        body: JSON.stringify({ password }),
-      });
-
-      console.log("Response:", result);
-      console.log("============================");
-      return result;
-    },
+        body: JSON.stringify({ username, password }),
+      }),
     onSuccess: () => {
       void refetch();
     },
@@ -102,6 +106,8 @@ export const useAuth = (): UseAuthResult => {
     refresh,
     error: (error ?? loginMutation.error ?? logoutMutation.error) as ApiError | null,
     metrics: data,
+    user: data?.user ?? null,
+    can: (role) => hasRole(data?.user?.role, role),
   };
 };
 
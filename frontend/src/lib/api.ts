@@ -12,7 +12,7 @@ export class ApiError extends Error {
 
 const API_BASE = (import.meta.env.VITE_API_BASE as string | undefined) ?? "/api";
 
-const buildUrl = (path: string) => {
+export const buildUrl = (path: string) => {
   if (/^https?:\/\//i.test(path)) {
     return path;
   }
@@ -0,0 +1,74 @@
+export type DiffSegmentType = "equal" | "added" | "removed";
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Above this many LCS cells the texts are shown as a plain replacement instead of a word diff.
+const MAX_DIFF_CELLS = 2_000_000;
+
+// Whitespace runs are kept as their own tokens so the diff reproduces the original text exactly.
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter((token) => token.length > 0);
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/** Word-level diff of two texts based on the longest common subsequence of their tokens. */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  if (before === after) {
+    return before ? [{ type: "equal", text: before }] : [];
+  }
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: "removed" as const, text: before }] : []),
+      ...(after ? [{ type: "added" as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..], stored row-major in one typed array.
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushSegment(segments, "removed", a[i]);
+      i += 1;
+    } else {
+      pushSegment(segments, "added", b[j]);
+      j += 1;
+    }
+  }
+  while (i < a.length) {
+    pushSegment(segments, "removed", a[i]);
+    i += 1;
+  }
+  while (j < b.length) {
+    pushSegment(segments, "added", b[j]);
+    j += 1;
+  }
+  return segments;
+};
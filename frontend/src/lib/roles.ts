@@ -0,0 +1,21 @@
+export const USER_ROLES = ["viewer", "operator", "editor", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  operator: "Operator",
+  editor: "Editor",
+  admin: "Admin",
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: "Browse the knowledge base and settings",
+  operator: "Viewer access plus search",
+  editor: "Operator access plus creating, editing, deleting and importing Q&A pairs",
+  admin: "Full access, including delete all, resync, settings and user management",
+};
+
+/** Mirrors the server: each role includes every role listed before it. */
+export const hasRole = (role: UserRole | undefined, required: UserRole): boolean =>
+  role !== undefined && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
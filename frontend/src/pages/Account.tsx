@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Navigation } from "@/components/Navigation";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiFetch, ApiError } from "@/lib/api";
+import { ROLE_LABELS } from "@/lib/roles";
+import { KeyRound, Loader2, LogOut, XCircle } from "lucide-react";
+
+interface SessionRecord {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+interface SessionsResponse {
+  items: SessionRecord[];
+}
+
+const SESSIONS_KEY = ["auth", "sessions"] as const;
+
+const describeClient = (userAgent: string | null): string => {
+  if (!userAgent) return "Unknown client";
+  const browser = /(Edg|Firefox|Chrome|Safari|curl)\/[\d.]+/.exec(userAgent)?.[0];
+  const platform = /\(([^;)]+)/.exec(userAgent)?.[1];
+  return [browser?.replace("Edg/", "Edge/"), platform].filter(Boolean).join(" · ") || userAgent;
+};
+
+const AccountPage = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user, refresh } = useAuth();
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: SESSIONS_KEY,
+    queryFn: () => apiFetch<SessionsResponse>("/auth/sessions"),
+  });
+
+  const handleMutationError = (err: unknown, fallback: string) => {
+    toast({
+      title: "Request failed",
+      description: err instanceof ApiError ? err.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateSessions = () => queryClient.invalidateQueries({ queryKey: SESSIONS_KEY });
+
+  const signedOut = async () => {
+    await refresh();
+    navigate("/login", { replace: true });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (session: SessionRecord) =>
+      apiFetch<{ revoked: boolean }>(`/auth/sessions/${session.id}`, { method: "DELETE" }),
+    onSuccess: (_result, session) => {
+      if (session.current) {
+        void signedOut();
+        return;
+      }
+      void invalidateSessions();
+      toast({ title: "Session revoked" });
+    },
+    onError: (err) => handleMutationError(err, "Unable to revoke the session"),
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: (keepCurrent: boolean) =>
+      apiFetch<{ revoked: number }>("/auth/sessions/revoke-all", {
+        method: "POST",
+        body: JSON.stringify({ keepCurrent }),
+      }),
+    onSuccess: ({ revoked }, keepCurrent) => {
+      if (!keepCurrent) {
+        void signedOut();
+        return;
+      }
+      void invalidateSessions();
+      toast({ title: "Other sessions signed out", description: `${revoked} session(s) revoked.` });
+    },
+    onError: (err) => handleMutationError(err, "Unable to revoke sessions"),
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: (input: { currentPassword: string; newPassword: string }) =>
+      apiFetch<{ ok: true; revokedSessions: number }>("/auth/password", {
+        method: "POST",
+        body: JSON.stringify(input),
+      }),
+    onSuccess: ({ revokedSessions }) => {
+      setCurrentPassword("");
+      setNewPassword("");
+      void invalidateSessions();
+      toast({
+        title: "Password changed",
+        description:
+          revokedSessions > 0 ? `${revokedSessions} other session(s) were signed out.` : "Your password was updated.",
+      });
+    },
+    onError: (err) => handleMutationError(err, "Unable to change the password"),
+  });
+
+  const handleChangePassword = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!currentPassword || newPassword.length < 8) {
+      toast({
+        title: "Missing details",
+        description: "Enter your current password and a new one of at least 8 characters.",
+        variant: "destructive",
+      });
+      return;
+    }
+    passwordMutation.mutate({ currentPassword, newPassword });
+  };
+
+  const handleRevokeAll = () => {
+    if (!window.confirm("Sign out of every session, including this one?")) return;
+    revokeAllMutation.mutate(false);
+  };
+
+  const sessions = data?.items ?? [];
+  const otherSessions = sessions.filter((session) => !session.current).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="max-w-5xl mx-auto p-4 sm:p-8 space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-3xl sm:text-4xl font-bold text-primary leading-tight">Account</h1>
+          <p className="text-muted-foreground text-sm sm:text-base leading-relaxed">
+            {user ? (
+              <>
+                Signed in as <span className="font-medium text-foreground">{user.username}</span> (
+                {ROLE_LABELS[user.role]}).
+              </>
+            ) : (
+              "Manage your password and active sessions."
+            )}
+          </p>
+        </div>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-primary">Active Sessions ({sessions.length})</CardTitle>
+              <CardDescription>
+                Sessions stay signed in while in use and expire after a period of inactivity.
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => revokeAllMutation.mutate(true)}
+                disabled={otherSessions === 0 || revokeAllMutation.isPending}
+              >
+                <XCircle className="w-4 h-4" />
+                Sign out other sessions
+              </Button>
+              <Button
+                variant="destructive"
+                className="gap-2"
+                onClick={handleRevokeAll}
+                disabled={revokeAllMutation.isPending}
+              >
+                {revokeAllMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+                Log out everywhere
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-10 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">{(error as Error).message}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead className="w-[140px]">IP address</TableHead>
+                    <TableHead className="w-[180px]">Signed in</TableHead>
+                    <TableHead className="w-[180px]">Last active</TableHead>
+                    <TableHead className="w-[80px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell className="font-medium">
+                        <span title={session.user_agent ?? undefined}>{describeClient(session.user_agent)}</span>
+                        {session.current ? (
+                          <Badge variant="secondary" className="ml-2">
+                            This device
+                          </Badge>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{session.ip ?? "—"}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(session.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(session.last_seen_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={session.current ? "Sign out of this session" : "Revoke session"}
+                          onClick={() => revokeMutation.mutate(session)}
+                          disabled={revokeMutation.isPending}
+                        >
+                          <XCircle className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-primary">Change Password</CardTitle>
+            <CardDescription>Changing your password signs out all of your other sessions.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4 sm:grid-cols-3 items-end" onSubmit={handleChangePassword}>
+              <div className="space-y-2">
+                <Label htmlFor="current-password">Current password</Label>
+                <Input
+                  id="current-password"
+                  type="password"
+                  value={currentPassword}
+                  onChange={(event) => setCurrentPassword(event.target.value)}
+                  autoComplete="current-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-new-password">New password</Label>
+                <Input
+                  id="account-new-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(event) => setNewPassword(event.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              <Button type="submit" className="gap-2" disabled={passwordMutation.isPending}>
+                {passwordMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+                Change password
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AccountPage;
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Navigation } from "@/components/Navigation";
+import { apiFetch } from "@/lib/api";
+import { Loader2 } from "lucide-react";
+
+interface AnalyticsSummary {
+  searches: number;
+  uniqueQueries: number;
+  zeroResults: number;
+  rerankerRejected: number;
+  avgLatencyMs: number | null;
+}
+
+interface QueryStat {
+  query: string;
+  normalizedQuery: string;
+  count: number;
+  zeroResults: number;
+  avgTopScore: number | null;
+  lastSearchedAt: string;
+}
+
+interface TrendPoint {
+  date: string;
+  searches: number;
+  zeroResults: number;
+  rerankerRejected: number;
+  avgLatencyMs: number | null;
+}
+
+interface AnalyticsData {
+  summary: AnalyticsSummary;
+  topQueries: QueryStat[];
+  zeroResults: QueryStat[];
+  trends: TrendPoint[];
+}
+
+const PERIOD_OPTIONS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TABLE_LIMIT = 20;
+
+const trendChartConfig = {
+  searches: { label: "Searches", color: "hsl(var(--primary))" },
+  zeroResults: { label: "No results", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const fetchAnalytics = async (days: number): Promise<AnalyticsData> => {
+  const params = new URLSearchParams({
+    from: new Date(Date.now() - days * DAY_MS).toISOString(),
+    limit: String(TABLE_LIMIT),
+  }).toString();
+  const [summary, topQueries, zeroResults, trends] = await Promise.all([
+    apiFetch<AnalyticsSummary>(`/analytics/summary?${params}`),
+    apiFetch<{ items: QueryStat[] }>(`/analytics/top-queries?${params}`),
+    apiFetch<{ items: QueryStat[] }>(`/analytics/zero-results?${params}`),
+    apiFetch<{ items: TrendPoint[] }>(`/analytics/trends?${params}`),
+  ]);
+  return { summary, topQueries: topQueries.items, zeroResults: zeroResults.items, trends: trends.items };
+};
+
+const formatPercent = (part: number, total: number) => (total > 0 ? `${((part / total) * 100).toFixed(1)}%` : "—");
+
+const SummaryTile = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <Card className="border-primary/20">
+    <CardHeader className="pb-2">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-2xl">{value}</CardTitle>
+    </CardHeader>
+    {hint ? <CardContent className="pt-0 text-xs text-muted-foreground">{hint}</CardContent> : null}
+  </Card>
+);
+
+const QueryTable = ({ items, empty, showScore }: { items: QueryStat[]; empty: string; showScore: boolean }) =>
+  items.length === 0 ? (
+    <p className="text-sm text-muted-foreground">{empty}</p>
+  ) : (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Query</TableHead>
+          <TableHead className="w-[90px] text-right">Searches</TableHead>
+          {showScore ? <TableHead className="w-[110px] text-right">Top score</TableHead> : null}
+          <TableHead className="w-[170px]">Last searched</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item) => (
+          <TableRow key={item.normalizedQuery}>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{item.query}</span>
+                {showScore && item.zeroResults > 0 ? (
+                  <Badge variant="outline" className="text-destructive border-destructive/40">
+                    {item.zeroResults} without results
+                  </Badge>
+                ) : null}
+              </div>
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{item.count}</TableCell>
+            {showScore ? (
+              <TableCell className="text-right tabular-nums">
+                {item.avgTopScore !== null ? item.avgTopScore.toFixed(3) : "—"}
+              </TableCell>
+            ) : null}
+            <TableCell className="text-sm text-muted-foreground">{new Date(item.lastSearchedAt).toLocaleString()}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+const AnalyticsPage = () => {
+  const [period, setPeriod] = useState<string>("30");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["analytics", period],
+    queryFn: () => fetchAnalytics(Number(period)),
+    placeholderData: keepPreviousData,
+  });
+
+  const summary = data?.summary;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto p-4 sm:p-8 space-y-8">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl sm:text-4xl font-bold text-primary leading-tight">Search Analytics</h1>
+            <p className="text-muted-foreground text-sm sm:text-base leading-relaxed">
+              What people search for, and which questions the knowledge base cannot answer yet.
+            </p>
+          </div>
+          <div className="space-y-2 sm:w-48">
+            <Label htmlFor="analytics-period">Period</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger id="analytics-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIOD_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : summary && data ? (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <SummaryTile label="Searches" value={String(summary.searches)} hint={`${summary.uniqueQueries} distinct queries`} />
+              <SummaryTile
+                label="No results"
+                value={formatPercent(summary.zeroResults, summary.searches)}
+                hint={`${summary.zeroResults} searches`}
+              />
+              <SummaryTile
+                label="Rejected by reranker"
+                value={formatPercent(summary.rerankerRejected, summary.searches)}
+                hint={`${summary.rerankerRejected} searches`}
+              />
+              <SummaryTile
+                label="Average latency"
+                value={summary.avgLatencyMs !== null ? `${summary.avgLatencyMs} ms` : "—"}
+              />
+            </div>
+
+            <Card className="border-primary/20 shadow-lg">
+              <CardHeader>
+                <CardTitle className="text-primary">Searches per day</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={trendChartConfig} className="h-[260px] w-full">
+                  <AreaChart data={data.trends} margin={{ left: 0, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Area
+                      dataKey="searches"
+                      type="monotone"
+                      stroke="var(--color-searches)"
+                      fill="var(--color-searches)"
+                      fillOpacity={0.2}
+                    />
+                    <Area
+                      dataKey="zeroResults"
+                      type="monotone"
+                      stroke="var(--color-zeroResults)"
+                      fill="var(--color-zeroResults)"
+                      fillOpacity={0.2}
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-8 lg:grid-cols-2">
+              <Card className="border-primary/20 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-primary">Top queries</CardTitle>
+                  <CardDescription>Grouped ignoring case, spacing and trailing punctuation.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <QueryTable items={data.topQueries} empty="No searches in this period." showScore />
+                </CardContent>
+              </Card>
+              <Card className="border-primary/20 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-primary">Queries without results</CardTitle>
+                  <CardDescription>Candidates for new Q&A pairs.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <QueryTable items={data.zeroResults} empty="Every search found something." showScore={false} />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
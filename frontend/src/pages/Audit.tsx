@@ -0,0 +1,305 @@
+import { Fragment, useMemo, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Navigation } from "@/components/Navigation";
+import { apiFetch } from "@/lib/api";
+import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+
+type AuditAction =
+  | "qa.create"
+  | "qa.replace"
+  | "qa.update"
+  | "qa.restore"
+  | "qa.submit"
+  | "qa.approve"
+  | "qa.reject"
+  | "qa.archive"
+  | "qa.delete"
+  | "qa.trash_restore"
+  | "qa.merge"
+  | "qa.purge"
+  | "qa.delete_all"
+  | "qa.resync"
+  | "qa.reconcile"
+  | "settings.update";
+
+interface AuditEntry {
+  id: number;
+  created_at: string;
+  actor_id: string | null;
+  actor_username: string;
+  action: AuditAction;
+  entity_type: "qa_pair" | "settings";
+  entity_id: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditResponse {
+  total: number;
+  page: number;
+  pageSize: number;
+  items: AuditEntry[];
+  actors: string[];
+}
+
+const PAGE_SIZE = 50;
+const ALL = "all";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  "qa.create": "Created pair",
+  "qa.replace": "Replaced pair",
+  "qa.update": "Edited pair",
+  "qa.restore": "Restored revision",
+  "qa.submit": "Submitted for review",
+  "qa.approve": "Approved pair",
+  "qa.reject": "Rejected pair",
+  "qa.archive": "Archived pair",
+  "qa.delete": "Moved pair to trash",
+  "qa.trash_restore": "Restored from trash",
+  "qa.merge": "Merged pairs",
+  "qa.purge": "Purged pair",
+  "qa.delete_all": "Moved all pairs to trash",
+  "qa.resync": "Full resync",
+  "qa.reconcile": "Reconciled vectors",
+  "settings.update": "Changed settings",
+};
+
+const DESTRUCTIVE_ACTIONS = new Set<AuditAction>(["qa.delete", "qa.purge", "qa.delete_all"]);
+
+const formatJson = (value: unknown): string => (value === null || value === undefined ? "—" : JSON.stringify(value, null, 2));
+
+// Date inputs are local calendar days; the API expects instants.
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`).toISOString();
+const endOfDay = (value: string) => new Date(`${value}T23:59:59.999`).toISOString();
+
+const AuditPage = () => {
+  const [page, setPage] = useState(1);
+  const [actor, setActor] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [entityId, setEntityId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const queryString = useMemo(() => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+    if (actor !== ALL) params.set("actor", actor);
+    if (action !== ALL) params.set("action", action);
+    if (entityId.trim()) params.set("entityId", entityId.trim());
+    if (from) params.set("from", startOfDay(from));
+    if (to) params.set("to", endOfDay(to));
+    return params.toString();
+  }, [page, actor, action, entityId, from, to]);
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ["audit", queryString],
+    queryFn: () => apiFetch<AuditResponse>(`/audit?${queryString}`),
+    placeholderData: keepPreviousData,
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  // Any filter change starts again from the first page.
+  const withReset =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value);
+      setPage(1);
+    };
+
+  const resetFilters = () => {
+    setActor(ALL);
+    setAction(ALL);
+    setEntityId("");
+    setFrom("");
+    setTo("");
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto p-4 sm:p-8 space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-3xl sm:text-4xl font-bold text-primary leading-tight">Audit Log</h1>
+          <p className="text-muted-foreground text-sm sm:text-base leading-relaxed">
+            Every change to the knowledge base and settings, with who made it and what it looked like before and after.
+          </p>
+        </div>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-primary">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="audit-actor">Actor</Label>
+                <Select value={actor} onValueChange={withReset(setActor)}>
+                  <SelectTrigger id="audit-actor">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Everyone</SelectItem>
+                    {(data?.actors ?? []).map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-action">Action</Label>
+                <Select value={action} onValueChange={withReset(setAction)}>
+                  <SelectTrigger id="audit-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All actions</SelectItem>
+                    {(Object.keys(ACTION_LABELS) as AuditAction[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ACTION_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 lg:col-span-2">
+                <Label htmlFor="audit-entity">Entity ID</Label>
+                <Input
+                  id="audit-entity"
+                  placeholder="Q&A pair ID"
+                  value={entityId}
+                  onChange={(event) => withReset(setEntityId)(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={from} onChange={(event) => withReset(setFrom)(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={to} onChange={(event) => withReset(setTo)(event.target.value)} />
+              </div>
+            </div>
+            <div className="mt-4 flex justify-end">
+              <Button variant="ghost" size="sm" onClick={resetFilters}>
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-primary">Entries ({data?.total ?? 0})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center py-10 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">{(error as Error).message}</p>
+            ) : (data?.items.length ?? 0) === 0 ? (
+              <p className="text-sm text-muted-foreground">No audit entries match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]" />
+                    <TableHead className="w-[190px]">Time</TableHead>
+                    <TableHead className="w-[140px]">Actor</TableHead>
+                    <TableHead className="w-[180px]">Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(data?.items ?? []).map((entry) => {
+                    const isOpen = expanded === entry.id;
+                    return (
+                      <Fragment key={entry.id}>
+                        <TableRow className="cursor-pointer" onClick={() => setExpanded(isOpen ? null : entry.id)}>
+                          <TableCell>
+                            {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {new Date(entry.created_at).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="font-medium">{entry.actor_username}</TableCell>
+                          <TableCell>
+                            <Badge variant={DESTRUCTIVE_ACTIONS.has(entry.action) ? "destructive" : "secondary"}>
+                              {ACTION_LABELS[entry.action] ?? entry.action}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs text-muted-foreground break-all">
+                            {entry.entity_id ?? (entry.entity_type === "settings" ? "settings" : "—")}
+                          </TableCell>
+                        </TableRow>
+                        {isOpen ? (
+                          <TableRow className="hover:bg-transparent">
+                            <TableCell colSpan={5}>
+                              <div className="grid gap-4 md:grid-cols-2">
+                                <div className="space-y-2">
+                                  <p className="text-xs font-semibold uppercase text-muted-foreground">Before</p>
+                                  <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap break-words">
+                                    {formatJson(entry.before)}
+                                  </pre>
+                                </div>
+                                <div className="space-y-2">
+                                  <p className="text-xs font-semibold uppercase text-muted-foreground">After</p>
+                                  <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap break-words">
+                                    {formatJson(entry.after)}
+                                  </pre>
+                                </div>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ) : null}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                Page {data?.page ?? page} of {totalPages} · Total {data?.total ?? 0}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                  disabled={page <= 1 || isFetching}
+                >
+                  Prev
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+                  disabled={page >= totalPages || isFetching}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AuditPage;
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Navigation } from "@/components/Navigation";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiFetch, ApiError } from "@/lib/api";
+import { Check, Combine, Loader2, RefreshCw } from "lucide-react";
+
+interface DuplicatePair {
+  id: string;
+  question: string;
+  answer: string;
+  language: string;
+  category: string | null;
+  tags: string[];
+  updated_at: string;
+}
+
+interface DuplicateCluster {
+  pairs: DuplicatePair[];
+  edges: { a: string; b: string; score: number }[];
+  maxScore: number;
+}
+
+interface DuplicatesResponse {
+  threshold: number;
+  scanned: number;
+  clusters: DuplicateCluster[];
+}
+
+const formatScore = (score: number) => `${(score * 100).toFixed(1)}%`;
+
+/** The pair the others in a cluster are merged into unless another one is picked: the most recently edited. */
+const defaultTarget = (cluster: DuplicateCluster) =>
+  [...cluster.pairs].sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0]?.id ?? "";
+
+const clusterKey = (cluster: DuplicateCluster) =>
+  cluster.pairs
+    .map((pair) => pair.id)
+    .sort()
+    .join(",");
+
+const DuplicatesPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  // Every pair listed here is published, and only admins merge published pairs.
+  const canMerge = can("admin");
+  const [thresholdInput, setThresholdInput] = useState("");
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ["qa", "duplicates", threshold],
+    queryFn: () =>
+      apiFetch<DuplicatesResponse>(threshold !== null ? `/qa/duplicates?threshold=${threshold}` : "/qa/duplicates"),
+    placeholderData: keepPreviousData,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ targetId, sourceId }: { targetId: string; sourceId: string }) =>
+      apiFetch<{ item: DuplicatePair; mergedFrom: string }>(`/qa/${targetId}/merge`, {
+        method: "POST",
+        body: JSON.stringify({ sourceId }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["qa"] });
+      toast({
+        title: "Pairs merged",
+        description: "The other question became a variant and its history moved to the kept pair.",
+      });
+    },
+    onError: (err) =>
+      toast({
+        title: "Merge failed",
+        description: err instanceof ApiError ? err.message : "Unable to merge the pairs",
+        variant: "destructive",
+      }),
+  });
+
+  const handleThresholdSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const value = Number(thresholdInput);
+    setThreshold(thresholdInput.trim() && Number.isFinite(value) ? Math.min(1, Math.max(0.5, value)) : null);
+  };
+
+  const handleMerge = (targetId: string, source: DuplicatePair) => {
+    if (!window.confirm(`Merge "${source.question}" into the kept pair? The merged pair is removed.`)) return;
+    mergeMutation.mutate({ targetId, sourceId: source.id });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto p-4 sm:p-8 space-y-8">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl sm:text-4xl font-bold text-primary leading-tight">Duplicates</h1>
+            <p className="text-muted-foreground text-sm sm:text-base leading-relaxed">
+              Published pairs whose embeddings are at least {data ? formatScore(data.threshold) : "…"} similar. Merging
+              keeps one pair, turns the other question into a variant and carries over its history.
+              {canMerge ? null : " Ask an admin to merge them."}
+            </p>
+          </div>
+          <form className="flex gap-2" onSubmit={handleThresholdSubmit}>
+            <Input
+              type="number"
+              min={0.5}
+              max={1}
+              step={0.01}
+              className="w-32"
+              placeholder={data ? String(data.threshold) : "Threshold"}
+              value={thresholdInput}
+              onChange={(event) => setThresholdInput(event.target.value)}
+            />
+            <Button type="submit" variant="outline" className="gap-2" disabled={isFetching}>
+              {isFetching ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              Scan
+            </Button>
+          </form>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : (data?.clusters.length ?? 0) === 0 ? (
+          <Card className="border-primary/20">
+            <CardContent className="py-10 text-center space-y-3">
+              <p className="text-sm text-muted-foreground">
+                No near-duplicates among {data?.scanned ?? 0} scanned pairs.
+              </p>
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                Scan again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {data?.clusters.length} groups among {data?.scanned} scanned pairs.
+            </p>
+            {(data?.clusters ?? []).map((cluster) => {
+              const key = clusterKey(cluster);
+              const targetId = targets[key] ?? defaultTarget(cluster);
+              return (
+                <Card key={key} className="border-primary/20 shadow-lg">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      {cluster.pairs.length} similar pairs
+                      <Badge variant="secondary">up to {formatScore(cluster.maxScore)}</Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {cluster.pairs.map((pair) => {
+                      const isTarget = pair.id === targetId;
+                      const closest = cluster.edges.find(
+                        (edge) =>
+                          (edge.a === pair.id && edge.b === targetId) || (edge.b === pair.id && edge.a === targetId),
+                      );
+                      return (
+                        <div
+                          key={pair.id}
+                          className={`rounded-lg border p-3 space-y-2 ${isTarget ? "border-primary bg-primary/5" : ""}`}
+                        >
+                          <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                            <div className="space-y-1 min-w-0">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-medium">{pair.question}</span>
+                                <Badge variant="outline" className="uppercase">
+                                  {pair.language}
+                                </Badge>
+                                {pair.category ? <Badge variant="secondary">{pair.category}</Badge> : null}
+                                {closest ? (
+                                  <span className="text-xs text-muted-foreground">{formatScore(closest.score)} match</span>
+                                ) : null}
+                              </div>
+                              <p className="text-sm text-muted-foreground line-clamp-3">{pair.answer}</p>
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                              {isTarget ? (
+                                <Badge className="gap-1">
+                                  <Check className="h-3 w-3" />
+                                  Kept
+                                </Badge>
+                              ) : canMerge ? (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setTargets((prev) => ({ ...prev, [key]: pair.id }))}
+                                    disabled={mergeMutation.isPending}
+                                  >
+                                    Keep this
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="gap-2"
+                                    onClick={() => handleMerge(targetId, pair)}
+                                    disabled={mergeMutation.isPending}
+                                  >
+                                    {mergeMutation.isPending && mergeMutation.variables?.sourceId === pair.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <Combine className="h-4 w-4" />
+                                    )}
+                                    Merge into kept
+                                  </Button>
+                                </>
+                              ) : null}
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesPage;
@@ -0,0 +1,385 @@
+import { useState } from "react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Navigation } from "@/components/Navigation";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch, ApiError } from "@/lib/api";
+import { FlaskConical, Loader2, Plus, Trash2 } from "lucide-react";
+
+interface GoldenQuery {
+  id: number;
+  query: string;
+  expectedIds: string[];
+  language: string | null;
+  category: string | null;
+  tags: string[];
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+interface EvalMetrics {
+  recallAtK: number;
+  mrr: number;
+  ndcgAtK: number;
+  emptyRate: number;
+}
+
+type EvalMode = "withRerank" | "withoutRerank";
+
+interface EvalRun {
+  id: number;
+  createdAt: string;
+  triggeredBy: string;
+  note: string | null;
+  k: number;
+  queryCount: number;
+  config: { vectorBackend: string; embeddingModel: string; rerankModels: string[] };
+  metrics: Record<EvalMode, EvalMetrics | null>;
+  durationMs: number;
+}
+
+interface EvalRunListResponse {
+  total: number;
+  page: number;
+  pageSize: number;
+  items: EvalRun[];
+}
+
+const RUNS_PAGE_SIZE = 20;
+
+const MODES: { value: EvalMode; label: string }[] = [
+  { value: "withoutRerank", label: "Without rerank" },
+  { value: "withRerank", label: "With rerank" },
+];
+
+const METRICS: { key: keyof EvalMetrics; label: string }[] = [
+  { key: "recallAtK", label: "Recall@k" },
+  { key: "mrr", label: "MRR" },
+  { key: "ndcgAtK", label: "nDCG@k" },
+];
+
+const splitIds = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+/** A metric with its change since the previous (older) run. */
+const MetricValue = ({ value, previous }: { value: number; previous: number | undefined }) => {
+  const delta = previous === undefined ? 0 : value - previous;
+  return (
+    <span className="tabular-nums">
+      {value.toFixed(3)}
+      {previous !== undefined && Math.abs(delta) >= 0.0005 ? (
+        <span className={`ml-1 text-xs ${delta > 0 ? "text-emerald-600" : "text-destructive"}`}>
+          {delta > 0 ? "+" : "−"}
+          {Math.abs(delta).toFixed(3)}
+        </span>
+      ) : null}
+    </span>
+  );
+};
+
+const EvaluationPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newQuery, setNewQuery] = useState("");
+  const [newExpectedIds, setNewExpectedIds] = useState("");
+  const [newLanguage, setNewLanguage] = useState("");
+  const [k, setK] = useState("");
+  const [note, setNote] = useState("");
+
+  const goldenQuery = useQuery({
+    queryKey: ["eval", "golden"],
+    queryFn: () => apiFetch<{ items: GoldenQuery[] }>("/eval/golden"),
+  });
+
+  const runsQuery = useQuery({
+    queryKey: ["eval", "runs"],
+    queryFn: () => apiFetch<EvalRunListResponse>(`/eval/runs?pageSize=${RUNS_PAGE_SIZE}`),
+    placeholderData: keepPreviousData,
+  });
+
+  const handleError = (err: unknown, fallback: string) => {
+    toast({
+      title: "Request failed",
+      description: err instanceof ApiError ? err.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiFetch<{ item: GoldenQuery }>("/eval/golden", {
+        method: "POST",
+        body: JSON.stringify({
+          query: newQuery.trim(),
+          expectedIds: splitIds(newExpectedIds),
+          ...(newLanguage.trim() ? { language: newLanguage.trim() } : {}),
+        }),
+      }),
+    onSuccess: () => {
+      setNewQuery("");
+      setNewExpectedIds("");
+      setNewLanguage("");
+      queryClient.invalidateQueries({ queryKey: ["eval", "golden"] });
+    },
+    onError: (err) => handleError(err, "Unable to add the query"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiFetch<{ deleted: boolean }>(`/eval/golden/${id}`, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["eval", "golden"] }),
+    onError: (err) => handleError(err, "Unable to delete the query"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () =>
+      apiFetch<{ run: EvalRun }>("/eval/run", {
+        method: "POST",
+        body: JSON.stringify({
+          ...(k.trim() ? { k: Number(k) } : {}),
+          ...(note.trim() ? { note: note.trim() } : {}),
+        }),
+      }),
+    onSuccess: ({ run }) => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["eval", "runs"] });
+      const metrics = run.metrics.withRerank ?? run.metrics.withoutRerank;
+      toast({
+        title: `Run #${run.id} finished`,
+        description: metrics
+          ? `Recall@${run.k} ${metrics.recallAtK.toFixed(3)} · MRR ${metrics.mrr.toFixed(3)} · nDCG ${metrics.ndcgAtK.toFixed(3)}`
+          : undefined,
+      });
+    },
+    onError: (err) => handleError(err, "The evaluation failed"),
+  });
+
+  const golden = goldenQuery.data?.items ?? [];
+  const runs = runsQuery.data?.items ?? [];
+  const canAdd = newQuery.trim().length > 0 && splitIds(newExpectedIds).length > 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto p-4 sm:p-8 space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-3xl sm:text-4xl font-bold text-primary leading-tight">Retrieval Evaluation</h1>
+          <p className="text-muted-foreground text-sm sm:text-base leading-relaxed">
+            Score the search pipeline against queries with known answers, before and after changing models or thresholds.
+          </p>
+        </div>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-primary">Run history</CardTitle>
+            <CardDescription>
+              Each run searches every golden query with and without rerank. Changes are against the run below it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex flex-col sm:flex-row sm:items-end gap-3"
+              onSubmit={(event) => {
+                event.preventDefault();
+                runMutation.mutate();
+              }}
+            >
+              <div className="space-y-2 sm:w-24">
+                <Label htmlFor="eval-k">k</Label>
+                <Input
+                  id="eval-k"
+                  type="number"
+                  min={1}
+                  max={50}
+                  placeholder="Default"
+                  value={k}
+                  onChange={(e) => setK(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="eval-note">Note</Label>
+                <Input
+                  id="eval-note"
+                  placeholder="What changed, e.g. new embedding model"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+              <Button type="submit" className="gap-2" disabled={runMutation.isPending || golden.length === 0}>
+                {runMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <FlaskConical className="h-4 w-4" />}
+                Run evaluation
+              </Button>
+            </form>
+
+            {runsQuery.isLoading ? (
+              <div className="flex justify-center py-6 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No runs yet.</p>
+            ) : (
+              <div className="relative overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[200px]">Run</TableHead>
+                      <TableHead>Mode</TableHead>
+                      {METRICS.map((metric) => (
+                        <TableHead key={metric.key} className="text-right">
+                          {metric.label}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map((run, index) => {
+                      const previous = runs[index + 1];
+                      return MODES.map((mode, modeIndex) => {
+                        const metrics = run.metrics[mode.value];
+                        return (
+                          <TableRow key={`${run.id}-${mode.value}`}>
+                            {modeIndex === 0 ? (
+                              <TableCell rowSpan={MODES.length} className="align-top space-y-1">
+                                <p className="font-medium">
+                                  #{run.id} · k={run.k} · {run.queryCount} queries
+                                </p>
+                                {run.note ? <p className="text-sm">{run.note}</p> : null}
+                                <p className="text-xs text-muted-foreground">
+                                  {new Date(run.createdAt).toLocaleString()} by {run.triggeredBy} ·{" "}
+                                  {run.config.embeddingModel} on {run.config.vectorBackend}
+                                </p>
+                              </TableCell>
+                            ) : null}
+                            <TableCell className="text-sm">{mode.label}</TableCell>
+                            {metrics ? (
+                              METRICS.map((metric) => (
+                                <TableCell key={metric.key} className="text-right">
+                                  <MetricValue
+                                    value={metrics[metric.key]}
+                                    previous={previous?.metrics[mode.value]?.[metric.key]}
+                                  />
+                                </TableCell>
+                              ))
+                            ) : (
+                              <TableCell colSpan={METRICS.length} className="text-right text-sm text-muted-foreground">
+                                Skipped: no rerank model configured
+                              </TableCell>
+                            )}
+                          </TableRow>
+                        );
+                      });
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-primary">Golden set ({golden.length})</CardTitle>
+            <CardDescription>Queries with the ids of the Q&A pairs a good search should return for them.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="grid gap-3 sm:grid-cols-[2fr_2fr_100px_auto] sm:items-end"
+              onSubmit={(event) => {
+                event.preventDefault();
+                if (canAdd) createMutation.mutate();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="golden-query">Query</Label>
+                <Input id="golden-query" value={newQuery} onChange={(e) => setNewQuery(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="golden-expected">Expected QA ids</Label>
+                <Input
+                  id="golden-expected"
+                  placeholder="Comma-separated"
+                  value={newExpectedIds}
+                  onChange={(e) => setNewExpectedIds(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="golden-language">Language</Label>
+                <Input
+                  id="golden-language"
+                  placeholder="Auto"
+                  value={newLanguage}
+                  onChange={(e) => setNewLanguage(e.target.value)}
+                />
+              </div>
+              <Button type="submit" className="gap-2" disabled={!canAdd || createMutation.isPending}>
+                {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                Add
+              </Button>
+            </form>
+
+            {goldenQuery.isLoading ? (
+              <div className="flex justify-center py-6 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : goldenQuery.error ? (
+              <p className="text-sm text-destructive">{(goldenQuery.error as Error).message}</p>
+            ) : golden.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add queries to start evaluating.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Query</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead className="w-[80px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {golden.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{entry.query}</span>
+                          {entry.language ? (
+                            <Badge variant="outline" className="uppercase">
+                              {entry.language}
+                            </Badge>
+                          ) : null}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {entry.expectedIds.join(", ")}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(entry.id)}
+                          disabled={deleteMutation.isPending}
+                          aria-label="Delete golden query"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default EvaluationPage;
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Navigation } from "@/components/Navigation";
+import { useToast } from "@/hooks/use-toast";
+import { apiFetch, ApiError } from "@/lib/api";
+import { EyeOff, FilePlus2, Loader2, RotateCcw } from "lucide-react";
+
+type GapStatus = "open" | "drafted" | "dismissed";
+
+interface GapQuery {
+  query: string;
+  count: number;
+  lastSeenAt: string;
+}
+
+interface Gap {
+  id: number;
+  status: GapStatus;
+  language: string | null;
+  queryCount: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  draftQaId: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  queries: GapQuery[];
+}
+
+interface GapListResponse {
+  total: number;
+  page: number;
+  pageSize: number;
+  items: Gap[];
+  statusCounts: Record<GapStatus, number>;
+}
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: { value: GapStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "drafted", label: "Drafted" },
+  { value: "dismissed", label: "Dismissed" },
+];
+
+const GapsPage = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<GapStatus>("open");
+  const [page, setPage] = useState(1);
+  // The gap whose draft answer is being written; a draft is only created once it has one.
+  const [draftingId, setDraftingId] = useState<number | null>(null);
+  const [draftAnswer, setDraftAnswer] = useState("");
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ["gaps", status, page],
+    queryFn: () =>
+      apiFetch<GapListResponse>(`/gaps?status=${status}&page=${page}&pageSize=${PAGE_SIZE}`),
+    placeholderData: keepPreviousData,
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const handleError = (err: unknown, fallback: string) => {
+    toast({
+      title: "Request failed",
+      description: err instanceof ApiError ? err.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const draftMutation = useMutation({
+    mutationFn: ({ id, answer }: { id: number; answer: string }) =>
+      apiFetch<{ gap: Gap }>(`/gaps/${id}/draft`, { method: "POST", body: JSON.stringify({ answer }) }),
+    onSuccess: () => {
+      setDraftingId(null);
+      setDraftAnswer("");
+      queryClient.invalidateQueries({ queryKey: ["gaps"] });
+      queryClient.invalidateQueries({ queryKey: ["qa"] });
+      toast({
+        title: "Draft created",
+        description: "The queries became the question and its variants. Submit it for review under Drafts in Q&A Management.",
+      });
+    },
+    onError: (err) => handleError(err, "Unable to create a draft"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: "dismiss" | "reopen" }) =>
+      apiFetch<{ gap: Gap }>(`/gaps/${id}/${action}`, { method: "POST" }),
+    onSuccess: (_result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["gaps"] });
+      toast({ title: action === "dismiss" ? "Gap dismissed" : "Gap reopened" });
+    },
+    onError: (err) => handleError(err, "Unable to update the gap"),
+  });
+
+  const isBusy = draftMutation.isPending || statusMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto p-4 sm:p-8 space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-3xl sm:text-4xl font-bold text-primary leading-tight">Knowledge Gaps</h1>
+          <p className="text-muted-foreground text-sm sm:text-base leading-relaxed">
+            Searches that found nothing, grouped by meaning. The most asked-for missing answers come first.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {STATUS_TABS.map((tab) => (
+            <Button
+              key={tab.value}
+              variant={status === tab.value ? "default" : "outline"}
+              size="sm"
+              className="gap-2"
+              onClick={() => {
+                setStatus(tab.value);
+                setPage(1);
+              }}
+            >
+              {tab.label}
+              <Badge variant="secondary">{data?.statusCounts[tab.value] ?? 0}</Badge>
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : (data?.items.length ?? 0) === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {status === "open" ? "No unanswered searches waiting." : "Nothing here yet."}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {(data?.items ?? []).map((gap) => (
+              <Card key={gap.id} className="border-primary/20 shadow-lg">
+                <CardHeader className="pb-3">
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                    <CardTitle className="text-base flex flex-wrap items-center gap-2">
+                      {gap.queries[0]?.query ?? "—"}
+                      <Badge variant="secondary">{gap.queryCount} searches</Badge>
+                      {gap.language ? (
+                        <Badge variant="outline" className="uppercase">
+                          {gap.language}
+                        </Badge>
+                      ) : null}
+                    </CardTitle>
+                    <div className="flex gap-2 shrink-0">
+                      {gap.status === "open" ? (
+                        <>
+                          <Button
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => {
+                              setDraftingId(gap.id);
+                              setDraftAnswer("");
+                            }}
+                            disabled={isBusy || draftingId === gap.id}
+                          >
+                            <FilePlus2 className="h-4 w-4" />
+                            Create draft
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => statusMutation.mutate({ id: gap.id, action: "dismiss" })}
+                            disabled={isBusy}
+                          >
+                            <EyeOff className="h-4 w-4" />
+                            Dismiss
+                          </Button>
+                        </>
+                      ) : gap.status === "dismissed" ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => statusMutation.mutate({ id: gap.id, action: "reopen" })}
+                          disabled={isBusy}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          Reopen
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => navigate("/qa-management")}>
+                          Open Q&A Management
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="space-y-1">
+                    {gap.queries.map((entry) => (
+                      <li key={entry.query} className="flex items-center justify-between gap-3 text-sm">
+                        <span>{entry.query}</span>
+                        <span className="text-muted-foreground tabular-nums">×{entry.count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {draftingId === gap.id ? (
+                    <form
+                      className="space-y-2"
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        draftMutation.mutate({ id: gap.id, answer: draftAnswer.trim() });
+                      }}
+                    >
+                      <Textarea
+                        placeholder="Answer for the draft"
+                        value={draftAnswer}
+                        onChange={(event) => setDraftAnswer(event.target.value)}
+                        rows={4}
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDraftingId(null)}
+                          disabled={draftMutation.isPending}
+                        >
+                          Cancel
+                        </Button>
+                        <Button type="submit" size="sm" className="gap-2" disabled={isBusy || !draftAnswer.trim()}>
+                          {draftMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                          Save draft
+                        </Button>
+                      </div>
+                    </form>
+                  ) : null}
+                  <p className="text-xs text-muted-foreground">
+                    First seen {new Date(gap.firstSeenAt).toLocaleString()} · last seen{" "}
+                    {new Date(gap.lastSeenAt).toLocaleString()}
+                    {gap.resolvedBy && gap.resolvedAt
+                      ? ` · ${gap.status === "drafted" ? "drafted" : "dismissed"} by ${gap.resolvedBy} on ${new Date(gap.resolvedAt).toLocaleString()}`
+                      : ""}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            Page {data?.page ?? page} of {totalPages} · Total {data?.total ?? 0}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+              disabled={page <= 1 || isFetching}
+            >
+              Prev
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+              disabled={page >= totalPages || isFetching}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GapsPage;
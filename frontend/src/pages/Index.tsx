@@ -5,29 +5,74 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Search, Loader2, ChevronDown, ChevronUp, Lightbulb, Database, Sparkles, Info, Brain, ShieldCheck, Zap, MessageSquare, Network, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, Loader2, ChevronDown, ChevronUp, Lightbulb, Database, Sparkles, Info, Brain, ShieldCheck, Zap, MessageSquare, Network, X, Filter, Languages, ThumbsUp, ThumbsDown, CheckCircle2, TrendingUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Navigation } from "@/components/Navigation";
 import { useMutation } from "@tanstack/react-query";
-import { apiFetch } from "@/lib/api";
+import { apiFetch, ApiError } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
 
+type MatchSource = "vector" | "lexical" | "hybrid";
+
+const SOURCE_LABELS: Record<MatchSource, string> = {
+  vector: "Semantic",
+  lexical: "Keyword",
+  hybrid: "Semantic + keyword",
+};
+
 interface SearchMatch {
   id: string;
   score: number;
-  vectorScore: number;
+  vectorScore: number | null;
+  lexicalScore?: number | null;
   rerankScore?: number | null;
+  source?: MatchSource;
   question: string;
+  matchedVariant?: string | null;
   answer: string;
   language: string;
 }
 
+type FeedbackKind = "helpful" | "unhelpful" | "used";
+
+/** The operator's own feedback on one result of the current search. */
+interface ResultFeedbackState {
+  vote: "helpful" | "unhelpful" | null;
+  used: boolean;
+}
+
+// "auto" leaves detection to the server; "any" searches every language.
+const LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: "auto", label: "Auto-detect" },
+  { value: "any", label: "All languages" },
+  { value: "ru", label: "Russian" },
+  { value: "en", label: "English" },
+  { value: "uk", label: "Ukrainian" },
+];
+
+interface ScoreFilterMeta {
+  threshold: number;
+  considered: number;
+  kept: number;
+  dropped: { id: string; score: number }[];
+}
+
 interface SearchPipelineMeta {
   vector: {
+    backend?: "pinecone" | "sqlite";
     index: string | null;
     namespace: string;
     topK: number;
   };
+  lexical?: {
+    engine: string;
+    hits: number;
+  };
+  fusion?: {
+    method: string;
+    k: number;
+  };
   rerank: {
     model: string | null;
     applied: boolean;
@@ -41,6 +86,35 @@ interface SearchPipelineMeta {
       date: string;
     };
   };
+  filters?: {
+    vector: ScoreFilterMeta;
+    rerank: ScoreFilterMeta;
+  };
+  language?: {
+    requested: string | null;
+    detected: string | null;
+    attempted: string | null;
+    applied: string | null;
+    fallback: boolean;
+  };
+  feedback?: {
+    enabled: boolean;
+    applied: boolean;
+    helpfulnessWeight: number;
+    popularityWeight: number;
+  };
+  scores?: ScoreBreakdown[];
+}
+
+/** The parts of a result's final score, as reported by the server. */
+interface ScoreBreakdown {
+  id: string;
+  vector: number | null;
+  lexical: number | null;
+  rerank: number | null;
+  base: number;
+  feedback: number;
+  final: number;
 }
 
 const scoreToColor = (score: number): string => {
@@ -54,8 +128,76 @@ const LOW_SCORE_THRESHOLD = 0.2;
 
 const isLowScore = (score: number): boolean => score < LOW_SCORE_THRESHOLD;
 
+const MatchedVariant = ({ variant }: { variant?: string | null }) =>
+  variant ? <p className="text-xs text-muted-foreground mb-2">Matched phrasing: “{variant}”</p> : null;
+
+const SourceBadge = ({ source }: { source?: MatchSource }) =>
+  source ? (
+    <Badge variant="outline" className="text-xs px-2 py-0.5 font-normal">
+      {SOURCE_LABELS[source]}
+    </Badge>
+  ) : null;
+
+const ScoreBreakdownLine = ({ breakdown }: { breakdown?: ScoreBreakdown }) => {
+  if (!breakdown) return null;
+  const parts = [
+    breakdown.vector !== null ? `Vector ${breakdown.vector.toFixed(3)}` : null,
+    breakdown.rerank !== null ? `Rerank ${breakdown.rerank.toFixed(3)}` : null,
+    `Feedback ${breakdown.feedback >= 0 ? "+" : "−"}${Math.abs(breakdown.feedback).toFixed(3)}`,
+  ].filter(Boolean);
+  return <p className="text-xs text-muted-foreground tabular-nums">{parts.join(" · ")}</p>;
+};
+
+const ResultFeedback = ({
+  state,
+  pendingKind,
+  onSubmit,
+}: {
+  state?: ResultFeedbackState;
+  pendingKind: FeedbackKind | null;
+  onSubmit: (kind: FeedbackKind) => void;
+}) => {
+  const icon = (kind: FeedbackKind, Icon: typeof ThumbsUp) =>
+    pendingKind === kind ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Icon className="w-3.5 h-3.5" />;
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-1">
+      <Button
+        variant={state?.vote === "helpful" ? "default" : "outline"}
+        size="sm"
+        className="h-8 gap-1.5"
+        disabled={pendingKind !== null}
+        onClick={() => onSubmit("helpful")}
+      >
+        {icon("helpful", ThumbsUp)}
+        Helpful
+      </Button>
+      <Button
+        variant={state?.vote === "unhelpful" ? "destructive" : "outline"}
+        size="sm"
+        className="h-8 gap-1.5"
+        disabled={pendingKind !== null}
+        onClick={() => onSubmit("unhelpful")}
+      >
+        {icon("unhelpful", ThumbsDown)}
+        Not helpful
+      </Button>
+      <Button
+        variant={state?.used ? "secondary" : "outline"}
+        size="sm"
+        className="h-8 gap-1.5"
+        disabled={pendingKind !== null || state?.used}
+        onClick={() => onSubmit("used")}
+      >
+        {icon("used", CheckCircle2)}
+        {state?.used ? "Used" : "Used this answer"}
+      </Button>
+    </div>
+  );
+};
+
 const Index = () => {
   const [query, setQuery] = useState("");
+  const [language, setLanguage] = useState("auto");
   const [results, setResults] = useState<SearchMatch[]>([]);
   const [vectorResults, setVectorResults] = useState<SearchMatch[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -66,14 +208,21 @@ const Index = () => {
   const [topRerankScore, setTopRerankScore] = useState<number | undefined>(undefined);
   const [hasSearched, setHasSearched] = useState(false);
   const [expandedLowScoreIds, setExpandedLowScoreIds] = useState<Set<string>>(new Set());
-  const { metrics } = useAuth();
+  const [searchId, setSearchId] = useState<number | null>(null);
+  const [feedbackById, setFeedbackById] = useState<Record<string, ResultFeedbackState>>({});
+  const { metrics, can } = useAuth();
+  const canSearch = can("operator");
   const { toast } = useToast();
   const navigate = useNavigate();
 
   const searchMutation = useMutation({
-    mutationFn: async (payload: { query: string }) => {
+    mutationFn: async (payload: { query: string; language: string }) => {
       const params = new URLSearchParams({ query: payload.query });
+      if (payload.language !== "auto") {
+        params.set("language", payload.language);
+      }
       const response = await apiFetch<{
+        searchId?: number | null;
         matches: SearchMatch[];
         vectorMatches?: SearchMatch[];
         rerankerRejected?: boolean;
@@ -99,10 +248,16 @@ const Index = () => {
               }
               : undefined,
           },
+          filters: meta.filters,
+          language: meta.language,
+          feedback: meta.feedback,
+          scores: meta.scores,
         });
       } else {
         setPipelineMeta(null);
       }
+      setSearchId(response.searchId ?? null);
+      setFeedbackById({});
       setRerankerRejected(response.rerankerRejected ?? false);
       setTopRerankScore(response.topRerankScore);
       if (response.vectorMatches) {
@@ -114,6 +269,38 @@ const Index = () => {
     },
   });
 
+  const feedbackMutation = useMutation({
+    mutationFn: ({ resultId, kind }: { resultId: string; kind: FeedbackKind }) =>
+      apiFetch<ResultFeedbackState & { resultId: string }>(`/search/${searchId}/feedback`, {
+        method: "POST",
+        body: JSON.stringify({ resultId, kind }),
+      }),
+    onSuccess: ({ resultId, vote, used }) => {
+      setFeedbackById((prev) => ({ ...prev, [resultId]: { vote, used } }));
+    },
+    onError: (error) => {
+      toast({
+        title: "Feedback not saved",
+        description: error instanceof ApiError ? error.message : "Unable to record feedback",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Feedback is tied to the logged search, so it is only offered when the server logged one.
+  const renderFeedback = (resultId: string) =>
+    searchId !== null ? (
+      <ResultFeedback
+        state={feedbackById[resultId]}
+        pendingKind={
+          feedbackMutation.isPending && feedbackMutation.variables?.resultId === resultId
+            ? feedbackMutation.variables.kind
+            : null
+        }
+        onSubmit={(kind) => feedbackMutation.mutate({ resultId, kind })}
+      />
+    ) : null;
+
   const handleSearch = async () => {
     if (!query.trim()) {
       toast({
@@ -128,7 +315,7 @@ const Index = () => {
     setIsSearching(true);
     setShowVectorResults(false);
     try {
-      const searchResults = await searchMutation.mutateAsync({ query });
+      const searchResults = await searchMutation.mutateAsync({ query, language });
       setResults(searchResults);
       setShowAllResults(false);
       setExpandedLowScoreIds(new Set());
@@ -154,6 +341,10 @@ const Index = () => {
   const sortedResults = [...results].sort((a, b) => b.score - a.score);
   const topResult = sortedResults[0];
   const otherResults = sortedResults.slice(1);
+  // Breakdowns are only worth showing when feedback actually changed the scores.
+  const breakdownById = new Map(
+    pipelineMeta?.feedback?.applied ? (pipelineMeta.scores ?? []).map((entry) => [entry.id, entry]) : [],
+  );
   const topResultLowScore = Boolean(topResult && isLowScore(topResult.score));
   const noResults = hasSearched && !isSearching && sortedResults.length === 0 && !rerankerRejected;
 
@@ -192,7 +383,9 @@ const Index = () => {
                   <Network className="h-5 w-5 text-accent" />
                 </div>
                 <div className="flex-1">
-                  <p className="text-xs uppercase text-muted-foreground font-medium leading-tight">Vectors in Pinecone</p>
+                  <p className="text-xs uppercase text-muted-foreground font-medium leading-tight">
+                    Vectors in {metrics?.vectorStore === "sqlite" ? "SQLite" : "Pinecone"}
+                  </p>
                   <p className="text-2xl font-semibold mt-1 leading-tight">{metrics?.pineconeVectors ?? "—"}</p>
                 </div>
               </div>
@@ -250,7 +443,7 @@ const Index = () => {
                   value={query}
                   onChange={(e) => setQuery(e.target.value)}
                   onKeyDown={(e) => e.key === "Enter" && handleSearch()}
-                  disabled={isSearching}
+                  disabled={isSearching || !canSearch}
                   className="h-12 text-base focus-visible:ring-accent/20 pr-10"
                 />
                 {query && (
@@ -268,9 +461,21 @@ const Index = () => {
                   </button>
                 )}
               </div>
+              <Select value={language} onValueChange={setLanguage} disabled={isSearching || !canSearch}>
+                <SelectTrigger className="h-12 w-full sm:w-[160px]" aria-label="Answer language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 onClick={handleSearch}
-                disabled={isSearching || !query.trim()}
+                disabled={isSearching || !query.trim() || !canSearch}
                 className="h-12 px-6 w-full sm:w-auto"
               >
                 {isSearching ? (
@@ -287,6 +492,11 @@ const Index = () => {
               <Lightbulb className="w-4 h-4 mt-0.5 flex-shrink-0 text-accent drop-shadow-sm" />
               <p>Describe the customer intent in plain English — the semantic stack tracks meaning, not just matching words.</p>
             </div>
+            {!canSearch && (
+              <p className="mt-3 text-sm text-amber-700 dark:text-amber-400">
+                Your viewer account can browse the knowledge base but not run searches. Ask an admin for operator access.
+              </p>
+            )}
             {rerankerRejected && (
               <div className="mt-4 space-y-3 rounded-md border border-amber-400/60 bg-amber-500/10 p-4 text-sm text-left">
                 <div className="flex items-center gap-2 text-amber-700 dark:text-amber-400">
@@ -296,7 +506,10 @@ const Index = () => {
                 <p className="text-muted-foreground">
                   The semantic reranker analyzed your query and determined that none of the found documents are relevant enough to answer your question.
                   {topRerankScore !== undefined && (
-                    <span className="block mt-1">Top rerank score: {(topRerankScore * 100).toFixed(2)}% (threshold: 1%)</span>
+                    <span className="block mt-1">
+                      Top rerank score: {(topRerankScore * 100).toFixed(2)}%
+                      {pipelineMeta?.filters ? ` (threshold: ${(pipelineMeta.filters.rerank.threshold * 100).toFixed(2)}%)` : ""}
+                    </span>
                   )}
                 </p>
                 {vectorResults.length > 0 && (
@@ -347,9 +560,25 @@ const Index = () => {
             <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
               <Badge variant="secondary" className="gap-2 whitespace-nowrap">
                 <Database className="w-3.5 h-3.5" />
-                {pipelineMeta.vector.index ?? "Pinecone Index"} · ns:{" "}
+                {pipelineMeta.vector.backend === "sqlite" ? "SQLite vectors" : pipelineMeta.vector.index ?? "Pinecone Index"} · ns:{" "}
                 {pipelineMeta.vector.namespace}
               </Badge>
+              {pipelineMeta.language?.attempted && (
+                <Badge variant={pipelineMeta.language.fallback ? "outline" : "secondary"} className="gap-2 whitespace-nowrap">
+                  <Languages className="w-3.5 h-3.5" />
+                  {pipelineMeta.language.fallback
+                    ? `No ${pipelineMeta.language.attempted.toUpperCase()} matches · all languages`
+                    : `Language: ${pipelineMeta.language.attempted.toUpperCase()}`}
+                  {pipelineMeta.language.requested ? null : " (detected)"}
+                </Badge>
+              )}
+              {pipelineMeta.lexical && (
+                <Badge variant="secondary" className="gap-2 whitespace-nowrap">
+                  <Search className="w-3.5 h-3.5" />
+                  Keyword hits: {pipelineMeta.lexical.hits}
+                  {pipelineMeta.fusion ? ` · ${pipelineMeta.fusion.method.toUpperCase()} k=${pipelineMeta.fusion.k}` : null}
+                </Badge>
+              )}
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Badge
@@ -359,7 +588,7 @@ const Index = () => {
                     <Sparkles className="w-3.5 h-3.5" />
                     {pipelineMeta.rerank.applied
                       ? `Reranked via ${pipelineMeta.rerank.model ?? "Pinecone Rerank"}`
-                      : "Vector order (fallback)"}
+                      : "Fused order (fallback)"}
                   </Badge>
                 </TooltipTrigger>
                 <TooltipContent>
@@ -370,11 +599,52 @@ const Index = () => {
                         : "n/a"}
                     </p>
                     {pipelineMeta.rerank.applied ? null : (
-                      <p className="text-muted-foreground">Rerank fell back to vector order.</p>
+                      <p className="text-muted-foreground">Rerank fell back to fused vector + keyword order.</p>
                     )}
                   </div>
                 </TooltipContent>
               </Tooltip>
+              {pipelineMeta.filters && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Badge variant="outline" className="gap-2 whitespace-nowrap cursor-help">
+                      <Filter className="w-3.5 h-3.5" />
+                      Filtered {pipelineMeta.filters.vector.dropped.length + pipelineMeta.filters.rerank.dropped.length}
+                    </Badge>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <div className="space-y-1 text-sm max-w-xs">
+                      <p>
+                        Vector similarity ≥ {pipelineMeta.filters.vector.threshold}: kept {pipelineMeta.filters.vector.kept} of{" "}
+                        {pipelineMeta.filters.vector.considered}
+                      </p>
+                      <p>
+                        Rerank score ≥ {pipelineMeta.filters.rerank.threshold}: kept {pipelineMeta.filters.rerank.kept} of{" "}
+                        {pipelineMeta.filters.rerank.considered}
+                      </p>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+              )}
+              {pipelineMeta.feedback?.applied && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Badge variant="outline" className="gap-2 cursor-help">
+                      <TrendingUp className="w-3.5 h-3.5" />
+                      Feedback boost
+                    </Badge>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <div className="space-y-1 text-sm max-w-xs">
+                      <p>Scores were adjusted by operator feedback after reranking.</p>
+                      <p className="text-muted-foreground">
+                        Helpfulness weight {pipelineMeta.feedback.helpfulnessWeight} · popularity weight{" "}
+                        {pipelineMeta.feedback.popularityWeight}
+                      </p>
+                    </div>
+                  </TooltipContent>
+                </Tooltip>
+              )}
               {pipelineMeta.rerank.fallbackReason && (
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -425,6 +695,7 @@ const Index = () => {
               <div className="p-4 rounded-lg bg-muted/50">
                 <p className="font-semibold text-sm text-muted-foreground mb-2">Question:</p>
                 <p className="text-lg">{topResult.question}</p>
+                <MatchedVariant variant={topResult.matchedVariant} />
               </div>
               <div className="p-4 rounded-lg bg-primary/5 border-l-4 border-accent">
                 <p className="font-semibold text-sm text-primary mb-2">Answer:</p>
@@ -439,6 +710,8 @@ const Index = () => {
                   </p>
                 </div>
               )}
+              <ScoreBreakdownLine breakdown={breakdownById.get(topResult.id)} />
+              {renderFeedback(topResult.id)}
             </CardContent>
           </Card>
         )}
@@ -472,7 +745,10 @@ const Index = () => {
                 {otherResults.map((result, idx) => (
                   <div key={result.id} className="p-4 border rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors">
                     <div className="flex justify-between items-start mb-2">
-                      <span className="font-semibold text-primary">#{idx + 2}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-primary">#{idx + 2}</span>
+                        <SourceBadge source={result.source} />
+                      </div>
                       <span
                         className={`text-sm px-2 py-0.5 rounded-full text-primary-foreground ${scoreToColor(
                           result.score,
@@ -482,6 +758,7 @@ const Index = () => {
                       </span>
                     </div>
                     <p className="font-medium mb-2">{result.question}</p>
+                    <MatchedVariant variant={result.matchedVariant} />
                     {isLowScore(result.score) ? (
                       expandedLowScoreIds.has(result.id) ? (
                         <div className="space-y-2">
@@ -521,6 +798,8 @@ const Index = () => {
                     ) : (
                       <p className="text-sm text-muted-foreground leading-relaxed">{result.answer}</p>
                     )}
+                    <ScoreBreakdownLine breakdown={breakdownById.get(result.id)} />
+                    {renderFeedback(result.id)}
                   </div>
                 ))}
               </CardContent>
@@ -533,31 +812,35 @@ const Index = () => {
             <CardHeader className="pb-3">
               <div className="flex items-center gap-2">
                 <Database className="w-5 h-5 text-amber-600" />
-                <span className="text-lg font-semibold">Vector Search Results ({vectorResults.length})</span>
+                <span className="text-lg font-semibold">Retrieved Results ({vectorResults.length})</span>
                 <Badge variant="outline" className="gap-1">
                   <Database className="w-3 h-3" />
-                  Vector order
+                  Retrieval order
                 </Badge>
               </div>
               <p className="text-sm text-muted-foreground mt-2">
-                These results were found by vector similarity search but were rejected by the reranker as not relevant enough.
+                These results were found by vector and keyword search but were rejected by the reranker as not relevant enough.
               </p>
             </CardHeader>
             <CardContent className="space-y-3">
               {vectorResults.map((result, idx) => (
                 <div key={result.id} className="p-4 border rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors">
                   <div className="flex justify-between items-start mb-2">
-                    <span className="font-semibold text-primary">#{idx + 1}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-primary">#{idx + 1}</span>
+                      <SourceBadge source={result.source} />
+                    </div>
                     <span
                       className={`text-sm px-2 py-0.5 rounded-full text-primary-foreground ${scoreToColor(
-                        result.vectorScore,
+                        result.score,
                       )}`}
                     >
-                      {(result.vectorScore * 100).toFixed(1)}% vector match
+                      {(result.score * 100).toFixed(1)}% {result.vectorScore === null ? "keyword" : "vector"} match
                     </span>
                   </div>
                   <p className="font-medium mb-2">{result.question}</p>
-                  {isLowScore(result.vectorScore) ? (
+                  <MatchedVariant variant={result.matchedVariant} />
+                  {isLowScore(result.score) ? (
                     expandedLowScoreIds.has(result.id) ? (
                       <div className="space-y-2">
                         <p className="text-sm text-muted-foreground leading-relaxed">{result.answer}</p>
@@ -580,7 +863,7 @@ const Index = () => {
                     ) : (
                       <div className="space-y-2">
                         <p className="text-xs text-amber-700/90">
-                          Vector match confidence {(result.vectorScore * 100).toFixed(1)}%. Answer hidden due to low confidence.
+                          Retrieval confidence {(result.score * 100).toFixed(1)}%. Answer hidden due to low confidence.
                         </p>
                         <button
                           type="button"
@@ -17,6 +17,7 @@ export const Login = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
 
@@ -24,7 +25,7 @@ export const Login = () => {
     if (loginError) {
       toast({
         title: "Login failed",
-        description: loginError.message ?? "The password didn't match.",
+        description: loginError.message ?? "The username or password didn't match.",
         variant: "destructive",
       });
     }
@@ -40,21 +41,21 @@ export const Login = () => {
 
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!password.trim()) {
+    if (!username.trim() || !password.trim()) {
       toast({
-        title: "Password required",
-        description: "Enter the access password provided by the admin.",
+        title: "Credentials required",
+        description: "Enter the username and password provided by the admin.",
         variant: "destructive",
       });
       return;
     }
 
     try {
-      await login({ password });
+      await login({ username: username.trim(), password });
     } catch (err) {
-      const message = err instanceof Error ? err.message : "Password mismatch.";
+      const message = err instanceof Error ? err.message : "Username or password mismatch.";
       toast({
-        title: "Incorrect password",
+        title: "Sign-in failed",
         description: message,
         variant: "destructive",
       });
@@ -70,14 +71,27 @@ export const Login = () => {
           </div>
           <CardTitle className="text-2xl">Sign in</CardTitle>
           <p className="text-sm text-muted-foreground">
-            Internal portal. Use the latest access password.
+            Internal portal. Sign in with your personal account.
           </p>
         </CardHeader>
         <CardContent>
           <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label htmlFor="username" className="text-sm font-medium text-foreground">
+                Username
+              </label>
+              <Input
+                id="username"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+                autoComplete="username"
+                disabled={loginStatus === "pending"}
+                autoFocus
+              />
+            </div>
             <div className="space-y-2">
               <label htmlFor="password" className="text-sm font-medium text-foreground">
-                Access password
+                Password
               </label>
               <div className="relative">
                 <Input
@@ -86,8 +100,8 @@ export const Login = () => {
                   value={password}
                   onChange={(event) => setPassword(event.target.value)}
                   placeholder="••••••••"
+                  autoComplete="current-password"
                   disabled={loginStatus === "pending"}
-                  autoFocus
                 />
                 <button
                   type="button"
@@ -111,7 +125,7 @@ export const Login = () => {
             </Button>
 
             <p className="text-xs text-muted-foreground text-center">
-              Reach out to the portal admin if the password has changed.
+              Reach out to the portal admin if you need an account or a password reset.
             </p>
           </form>
         </CardContent>
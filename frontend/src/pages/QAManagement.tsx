@@ -1,6 +1,7 @@
-import { useMemo, useState, useEffect } from "react";
-import { read, utils, writeFileXLSX } from "xlsx";
+import { useMemo, useState, useEffect, useRef } from "react";
+import { utils, writeFileXLSX } from "xlsx";
 import {
+  keepPreviousData,
   useQuery,
   useMutation,
   useQueryClient,
@@ -18,6 +19,16 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Table,
   TableBody,
@@ -39,17 +50,58 @@ import {
   Clock,
   AlertTriangle,
   CheckCircle2,
+  History,
+  EyeOff,
+  Send,
+  Check,
+  X,
+  Archive,
+  Tag,
+  ThumbsUp,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Navigation } from "@/components/Navigation";
-import { apiFetch, ApiError } from "@/lib/api";
+import { apiFetch, ApiError, buildUrl } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
+import { QaRevisionsDialog } from "@/components/QaRevisionsDialog";
+
+type QaStatus = "draft" | "in_review" | "published" | "archived";
+
+/** Operator feedback from search; `score` is the smoothed share of helpful votes and uses. */
+interface QaFeedback {
+  helpful: number;
+  unhelpful: number;
+  used: number;
+  score: number;
+}
+
+/** An edit to a published pair waiting for review; the published text stays in search meanwhile. */
+interface QaPendingEdit {
+  question: string;
+  answer: string;
+  language: string;
+  category: string | null;
+  tags: string[];
+  variants: string[];
+  submitted_by: string;
+  submitted_at: string;
+}
 
 interface QaItem {
   id: string;
   question: string;
   answer: string;
   language: string;
+  category: string | null;
+  tags: string[];
+  variants: string[];
+  chunk_count: number;
+  feedback: QaFeedback;
+  status: QaStatus;
+  review_comment: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  pending_edit: QaPendingEdit | null;
   pinecone_id: string | null;
   embedding_status: string;
   created_at: string;
@@ -61,123 +113,142 @@ interface QaListResponse {
   page: number;
   pageSize: number;
   items: QaItem[];
+  statusCounts?: Record<QaStatus, number>;
 }
 
-interface DeleteQaResponse {
-  deleted: boolean;
-  vectorRemoved: boolean;
-  vectorSkipped: boolean;
-  vectorError: string | null;
+interface TagCount {
+  name: string;
+  count: number;
 }
 
-const PAGE_SIZE = 10;
+interface TagCountsResponse {
+  tags: TagCount[];
+  categories: TagCount[];
+}
 
-interface ImportProgressState {
-  total: number;
-  processed: number;
-  success: number;
-  failed: number;
+interface QaFilters {
+  category: string;
+  tags: string[];
 }
 
-interface ImportRow {
-  rowNumber: number;
-  question?: string;
-  answer?: string;
+interface CreateQaPayload {
+  question: string;
+  answer: string;
   language?: string;
-  parseError?: string;
+  category?: string | null;
+  tags?: string[];
+  variants?: string[];
+  status?: QaStatus;
+  force?: boolean;
 }
 
-type RawCellValue = string | number | boolean | Date | null | undefined;
+interface SimilarMatch {
+  item: QaItem;
+  score: number;
+  exact: boolean;
+}
 
-const toCellString = (value: RawCellValue): string | undefined => {
-  if (value === undefined || value === null) return undefined;
-  if (value instanceof Date) return value.toISOString();
-  if (typeof value === "number") {
-    if (!Number.isFinite(value)) return undefined;
-    return value.toString();
-  }
-  if (typeof value === "boolean") {
-    return value ? "true" : "false";
-  }
-  const text = String(value).trim();
-  return text.length > 0 ? text : undefined;
+/** A create the server held back because close matches exist; it can be resent with `force`. */
+interface HeldCreate {
+  payload: CreateQaPayload;
+  message: string;
+  matches: SimilarMatch[];
+}
+
+const similarMatchesOf = (err: unknown): SimilarMatch[] | null => {
+  if (!(err instanceof ApiError) || err.status !== 409) return null;
+  const matches = (err.body as { matches?: SimilarMatch[] } | undefined)?.matches;
+  return Array.isArray(matches) && matches.length > 0 ? matches : null;
 };
 
-const parseXlsxFile = async (file: File): Promise<{ sheetName: string; rows: ImportRow[] }> => {
-  const buffer = await file.arrayBuffer();
+interface DeleteQaResponse {
+  deleted: boolean;
+  trashed: boolean;
+  retentionDays: number;
+}
 
-  let workbook;
-  try {
-    workbook = read(buffer, { type: "array", cellDates: true });
-  } catch (error) {
-    throw new Error("Failed to read XLSX file. Please check the file.");
-  }
+const PAGE_SIZE = 10;
 
-  const [sheetName] = workbook.SheetNames;
-  if (!sheetName) {
-    throw new Error("XLSX file contains no sheets.");
-  }
+const STATUS_LABELS: Record<QaStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  published: "Published",
+  archived: "Archived",
+};
 
-  const worksheet = workbook.Sheets[sheetName];
-  const sheetRows = utils.sheet_to_json<RawCellValue[]>(worksheet, {
-    header: 1,
-    blankrows: true,
-    defval: null,
-    raw: false,
-  });
+const STATUS_VARIANTS: Record<QaStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  in_review: "secondary",
+  published: "default",
+  archived: "outline",
+};
 
-  if (sheetRows.length === 0) {
-    throw new Error("XLSX file is empty.");
-  }
+type QaView = "all" | QaStatus;
 
-  const headerRow = sheetRows[0];
-  if (!Array.isArray(headerRow)) {
-    throw new Error("Failed to determine sheet header.");
-  }
+type QaSort = "updated" | "most_helpful" | "least_helpful";
 
-  const headers = headerRow.map((value) => toCellString(value)?.toLowerCase() ?? "");
-  const dataRows = sheetRows.slice(1);
+const SORT_OPTIONS: { value: QaSort; label: string }[] = [
+  { value: "updated", label: "Recently updated" },
+  { value: "most_helpful", label: "Most helpful" },
+  { value: "least_helpful", label: "Least helpful" },
+];
 
-  const rows: ImportRow[] = dataRows.map((rowValues, index) => {
-    const rowNumber = index + 2;
-    if (!Array.isArray(rowValues)) {
-      return { rowNumber, parseError: "Invalid XLSX row structure" };
-    }
+// Tabs above the list; "all" shows every status.
+const VIEW_TABS: { value: QaView; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "in_review", label: "Review queue" },
+  { value: "draft", label: "Drafts" },
+  { value: "archived", label: "Archived" },
+];
 
-    const record: Record<string, string | null | undefined> = {};
-    headers.forEach((header, colIndex) => {
-      if (!header) return;
-      const cell = toCellString(rowValues[colIndex]);
-      if (cell) {
-        record[header] = cell;
-      }
-    });
+type ImportJobStatus = "queued" | "running" | "completed" | "failed";
 
-    if (Object.keys(record).length === 0) {
-      return { rowNumber };
-    }
+interface ImportJob {
+  id: string;
+  file_name: string;
+  format: "csv" | "xlsx";
+  status: ImportJobStatus;
+  batch_size: number;
+  total_rows: number;
+  processed_rows: number;
+  created_rows: number;
+  replaced_rows: number;
+  failed_rows: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
 
-    const question = pickField(record, ["question", "qestion"]);
-    const answer = pickField(record, ["answer", "ans"]);
-    const language = pickField(record, ["language", "lang"]);
+interface ImportJobFailure {
+  row_number: number;
+  question: string | null;
+  error: string | null;
+}
 
-    return { rowNumber, question, answer, language };
-  });
+interface ImportJobResponse {
+  job: ImportJob;
+  failures: ImportJobFailure[];
+}
 
-  return { sheetName, rows };
-};
+const IMPORT_POLL_INTERVAL_MS = 1500;
+const PENDING_POLL_INTERVAL_MS = 3000;
 
-const pickField = (row: Record<string, string | null | undefined>, candidates: string[]): string | undefined => {
-  for (const key of candidates) {
-    const value = row[key];
-    if (typeof value === "string" && value.trim().length > 0) {
-      return value.trim();
-    }
-  }
-  return undefined;
+const isImportActive = (job: ImportJob | null | undefined) =>
+  job?.status === "queued" || job?.status === "running";
+
+const isSupportedImportFile = (file: File) => {
+  const fileName = file.name.toLowerCase();
+  return (
+    fileName.endsWith(".csv") ||
+    fileName.endsWith(".xlsx") ||
+    fileName.endsWith(".xlsm") ||
+    file.type === "text/csv" ||
+    file.type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  );
 };
 
-const buildQueryString = (page: number, search: string) => {
+const buildQueryString = (page: number, search: string, view: QaView, filters: QaFilters, sort: QaSort) => {
   const params = new URLSearchParams({
     page: page.toString(),
     pageSize: PAGE_SIZE.toString(),
@@ -185,15 +256,51 @@ const buildQueryString = (page: number, search: string) => {
   if (search.trim()) {
     params.set("search", search.trim());
   }
+  if (view !== "all") {
+    params.set("status", view);
+  }
+  if (filters.category) {
+    params.set("category", filters.category);
+  }
+  if (filters.tags.length > 0) {
+    params.set("tags", filters.tags.join(","));
+  }
+  if (sort !== "updated") {
+    params.set("sort", sort);
+  }
   return params.toString();
 };
 
-const fetchQaList = async (page: number, search: string): Promise<QaListResponse> => {
-  const query = buildQueryString(page, search);
+const fetchQaList = async (
+  page: number,
+  search: string,
+  view: QaView,
+  filters: QaFilters,
+  sort: QaSort,
+): Promise<QaListResponse> => {
+  const query = buildQueryString(page, search, view, filters, sort);
   return apiFetch<QaListResponse>(`/qa?${query}`);
 };
 
-const normaliseLanguage = (value: string) => value.trim() || "ru";
+// Left blank, the server detects the language from the question and answer.
+const normaliseLanguage = (value: string) => value.trim() || undefined;
+
+// Tags are typed as a comma-separated list; the server lowercases and de-duplicates them.
+const parseTagInput = (value: string) =>
+  value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+// Question variants are edited one per line.
+const parseVariantInput = (value: string) =>
+  value
+    .split("\n")
+    .map((variant) => variant.trim())
+    .filter(Boolean);
+
+// Radix Select cannot use an empty string as an item value.
+const ANY_CATEGORY = "__any__";
 
 const getVectorStatus = (status: string | null | undefined) => {
   switch (status) {
@@ -207,17 +314,24 @@ const getVectorStatus = (status: string | null | undefined) => {
     case "pending":
       return {
         label: "Sync in progress",
-        description: "Embedding queued for Pinecone",
+        description: "Embedding queued; the background worker will sync it shortly",
         variant: "secondary" as const,
         Icon: Clock,
       };
     case "failed":
       return {
         label: "Sync failed",
-        description: "Inspect logs and retry the embedding job",
+        description: "The background worker retries with backoff; edit or resync the pair to retry now",
         variant: "destructive" as const,
         Icon: AlertTriangle,
       };
+    case "unpublished":
+      return {
+        label: "Not published",
+        description: "Only published pairs are embedded and searchable",
+        variant: "outline" as const,
+        Icon: EyeOff,
+      };
     case "skipped":
       return {
         label: "Skipped",
@@ -239,20 +353,38 @@ const QAManagement = () => {
   const [page, setPage] = useState(1);
   const [searchInput, setSearchInput] = useState("");
   const [search, setSearch] = useState("");
+  const [view, setView] = useState<QaView>("all");
+  const [newStatus, setNewStatus] = useState<QaStatus | "">("");
+  const [rejectTarget, setRejectTarget] = useState<QaItem | null>(null);
+  const [heldCreate, setHeldCreate] = useState<HeldCreate | null>(null);
+  const [rejectComment, setRejectComment] = useState("");
   const [newQuestion, setNewQuestion] = useState("");
   const [newAnswer, setNewAnswer] = useState("");
-  const [newLanguage, setNewLanguage] = useState("ru");
+  const [newLanguage, setNewLanguage] = useState("");
+  const [newCategory, setNewCategory] = useState("");
+  const [newTags, setNewTags] = useState("");
+  const [newVariants, setNewVariants] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("");
+  const [tagFilters, setTagFilters] = useState<string[]>([]);
+  const [sort, setSort] = useState<QaSort>("updated");
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingStatus, setEditingStatus] = useState<QaStatus | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const [editQuestion, setEditQuestion] = useState("");
   const [editAnswer, setEditAnswer] = useState("");
-  const [editLanguage, setEditLanguage] = useState("ru");
-  const [isImporting, setIsImporting] = useState(false);
+  const [editLanguage, setEditLanguage] = useState("");
+  const [editCategory, setEditCategory] = useState("");
+  const [editTags, setEditTags] = useState("");
+  const [editVariants, setEditVariants] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
-  const [importProgress, setImportProgress] = useState<ImportProgressState | null>(null);
-  const [importSheetName, setImportSheetName] = useState<string | null>(null);
+  const [importJobId, setImportJobId] = useState<string | null>(null);
+  const notifiedImportJobRef = useRef<string | null>(null);
 
   const { toast } = useToast();
-  const { refresh } = useAuth();
+  const { refresh, can } = useAuth();
+  const canEdit = can("editor");
+  const isAdmin = can("admin");
   const queryClient = useQueryClient();
 
   const {
@@ -261,9 +393,13 @@ const QAManagement = () => {
     isFetching,
     error: listError,
   } = useQuery({
-    queryKey: ["qa", page, search],
-    queryFn: () => fetchQaList(page, search),
-    keepPreviousData: true,
+    queryKey: ["qa", page, search, view, categoryFilter, tagFilters, sort],
+    queryFn: () => fetchQaList(page, search, view, { category: categoryFilter, tags: tagFilters }, sort),
+    placeholderData: keepPreviousData,
+    refetchInterval: (query) => {
+      const items = (query.state.data as QaListResponse | undefined)?.items ?? [];
+      return items.some((item) => item.embedding_status === "pending") ? PENDING_POLL_INTERVAL_MS : false;
+    },
   });
 
   useEffect(() => {
@@ -277,6 +413,54 @@ const QAManagement = () => {
     }
   }, [data, page]);
 
+  const { data: tagCounts } = useQuery({
+    queryKey: ["qa", "tags"],
+    queryFn: () => apiFetch<TagCountsResponse>("/qa/tags"),
+  });
+
+  const { data: importData } = useQuery({
+    queryKey: ["qa-import", importJobId],
+    queryFn: () => apiFetch<ImportJobResponse>(`/qa/import/${importJobId}`),
+    enabled: Boolean(importJobId),
+    refetchInterval: (query) =>
+      isImportActive((query.state.data as ImportJobResponse | undefined)?.job) ? IMPORT_POLL_INTERVAL_MS : false,
+  });
+
+  const importJob = importData?.job ?? null;
+  const isImporting = isUploading || isImportActive(importJob);
+
+  useEffect(() => {
+    if (!importData || isImportActive(importData.job)) return;
+    if (notifiedImportJobRef.current === importData.job.id) return;
+    notifiedImportJobRef.current = importData.job.id;
+    const { job, failures } = importData;
+    queryClient.invalidateQueries({ queryKey: ["qa"] });
+    void refresh().catch(() => undefined);
+
+    if (job.status === "failed") {
+      toast({
+        title: "Import failed",
+        description: job.error ?? "The server stopped processing this file.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const summary = `Added: ${job.created_rows}. Replaced: ${job.replaced_rows}. Errors: ${job.failed_rows}`;
+    const failurePreview = failures
+      .slice(0, 3)
+      .map((failure) => `row ${failure.row_number}: ${failure.error ?? "Unknown error"}`)
+      .join(" · ");
+    toast({
+      title: "Import completed",
+      description:
+        job.failed_rows > 0
+          ? `${summary}${failurePreview ? `\n${failurePreview}${job.failed_rows > 3 ? " · …" : ""}` : ""}`
+          : summary,
+      variant: job.failed_rows > 0 ? "destructive" : "default",
+    });
+  }, [importData, queryClient, refresh, toast]);
+
   const totalPages = useMemo(() => {
     if (!data) return 1;
     return Math.max(1, Math.ceil(data.total / data.pageSize));
@@ -296,45 +480,83 @@ const QAManagement = () => {
   };
 
   const createMutation = useMutation({
-    mutationFn: (payload: { question: string; answer: string; language?: string }) =>
-      apiFetch<{ item: QaItem | null; replaced: boolean }>("/qa", {
+    mutationFn: (payload: CreateQaPayload) =>
+      apiFetch<{ item: QaItem | null; replaced: boolean; proposed?: boolean }>("/qa", {
         method: "POST",
         body: JSON.stringify(payload),
       }),
     onSuccess: async (result) => {
       setNewQuestion("");
       setNewAnswer("");
+      setNewTags("");
+      setNewVariants("");
       setPage(1);
       invalidateQa();
       await refresh().catch(() => undefined);
       const replaced = Boolean(result?.replaced);
+      const status = result?.item?.status ?? "published";
       toast({
         title: replaced ? "Q&A replaced" : "Q&A saved",
-        description: replaced
-          ? "Existing question updated; vector will be refreshed."
-          : "Stored and queued for Pinecone vector sync.",
+        description: result?.proposed
+          ? "Sent to the review queue as an edit of the existing pair; the published version stays in search until it is approved."
+          : status === "published"
+            ? replaced
+              ? "Existing question updated; vector will be refreshed."
+              : "Stored and queued for Pinecone vector sync."
+            : status === "in_review"
+              ? "Submitted for review. It becomes searchable once an admin approves it."
+              : "Saved as a draft. Submit it for review when it is ready.",
       });
     },
-    onError: (err) => handleMutationError(err, "Could not add the Q&A pair"),
+    onError: (err, payload) => {
+      const matches = similarMatchesOf(err);
+      if (matches) {
+        setHeldCreate({ payload, message: (err as ApiError).message, matches });
+        return;
+      }
+      handleMutationError(err, "Could not add the Q&A pair");
+    },
   });
 
   const updateMutation = useMutation({
-    mutationFn: (payload: { id: string; question: string; answer: string; language?: string }) =>
+    mutationFn: (payload: {
+      id: string;
+      question: string;
+      answer: string;
+      language?: string;
+      category?: string | null;
+      tags?: string[];
+      variants?: string[];
+      status?: QaStatus;
+    }) =>
       apiFetch<QaItem>(`/qa/${payload.id}`, {
         method: "PUT",
         body: JSON.stringify({
           question: payload.question,
           answer: payload.answer,
           language: payload.language,
+          category: payload.category,
+          tags: payload.tags,
+          variants: payload.variants,
+          status: payload.status,
         }),
       }),
-    onSuccess: async () => {
+    onSuccess: async (updated) => {
       setEditingId(null);
       invalidateQa();
       await refresh().catch(() => undefined);
       toast({
         title: "Q&A updated",
-        description: "Changes saved and vector sync restarted.",
+        description:
+          updated.status === "published" && updated.pending_edit && !isAdmin
+            ? "Changes sent to the review queue; the published version stays in search until they are approved."
+            : updated.status === "published"
+              ? "Changes saved and vector sync restarted."
+              : updated.status === "in_review"
+                ? "Changes saved; the pair stays in the review queue."
+                : updated.status === "archived"
+                  ? "Changes saved; the pair stays archived."
+                  : "Draft saved.",
       });
     },
     onError: (err) => handleMutationError(err, "Could not update the record"),
@@ -348,25 +570,9 @@ const QAManagement = () => {
     onSuccess: async (result) => {
       invalidateQa();
       await refresh().catch(() => undefined);
-      const { vectorRemoved, vectorSkipped, vectorError } = result;
-      let description = "Removed from SQLite and Pinecone.";
-      let variant: "default" | "destructive" = "default";
-
-      if (!vectorRemoved) {
-        if (vectorSkipped) {
-          description = "Deleted locally. Pinecone cleanup was skipped (vector missing or Pinecone disabled).";
-        } else {
-          description = `Deleted locally. Pinecone cleanup failed${
-            vectorError ? `: ${vectorError}` : "."
-          }`;
-          variant = "destructive";
-        }
-      }
-
       toast({
-        title: "Q&A deleted",
-        description,
-        variant,
+        title: "Moved to trash",
+        description: `The pair can be restored from Trash for ${result.retentionDays} days before it is purged.`,
       });
     },
     onError: (err) => handleMutationError(err, "Unable to delete the record"),
@@ -374,24 +580,44 @@ const QAManagement = () => {
 
   const deleteAllMutation = useMutation({
     mutationFn: () =>
-      apiFetch<{ deleted: number; vectorFailures: string[] }>("/qa", {
+      apiFetch<{ deleted: number; retentionDays: number }>("/qa", {
         method: "DELETE",
       }),
     onSuccess: async (result) => {
       invalidateQa();
       await refresh().catch(() => undefined);
-      const hasVectorFailures = Array.isArray(result.vectorFailures) && result.vectorFailures.length > 0;
       toast({
         title: "Knowledge base cleared",
-        description: hasVectorFailures
-          ? `Deleted ${result.deleted} pairs. Some vectors need manual cleanup in Pinecone.`
-          : `Deleted ${result.deleted} pairs from SQLite and Pinecone.`,
-        variant: hasVectorFailures ? "destructive" : "default",
+        description: `Moved ${result.deleted} pairs to Trash. They are purged after ${result.retentionDays} days.`,
       });
     },
     onError: (err) => handleMutationError(err, "Unable to delete all records"),
   });
 
+  const transitionMutation = useMutation({
+    mutationFn: (payload: { id: string; action: "submit" | "approve" | "reject" | "archive"; comment?: string }) =>
+      apiFetch<{ item: QaItem }>(`/qa/${payload.id}/${payload.action}`, {
+        method: "POST",
+        body: JSON.stringify(payload.comment !== undefined ? { comment: payload.comment } : {}),
+      }),
+    onSuccess: ({ item }, { action }) => {
+      setRejectTarget(null);
+      setRejectComment("");
+      invalidateQa();
+      const messages = {
+        submit: { title: "Submitted for review", description: "An admin can now approve or reject the pair." },
+        approve: { title: "Q&A published", description: "Approved and queued for vector sync." },
+        reject:
+          item.status === "published"
+            ? { title: "Edit rejected", description: "The published version stays as it was." }
+            : { title: "Q&A rejected", description: "Returned to drafts with your comment." },
+        archive: { title: "Q&A archived", description: "Removed from search; submit it for review to bring it back." },
+      };
+      toast(messages[action]);
+    },
+    onError: (err) => handleMutationError(err, "Could not change the review status"),
+  });
+
   const isProcessing =
     createMutation.isPending ||
     updateMutation.isPending ||
@@ -413,21 +639,34 @@ const QAManagement = () => {
       question: newQuestion.trim(),
       answer: newAnswer.trim(),
       language: normaliseLanguage(newLanguage),
+      category: newCategory.trim() || null,
+      tags: parseTagInput(newTags),
+      variants: parseVariantInput(newVariants),
+      ...(newStatus ? { status: newStatus } : {}),
     });
   };
 
   const startEditing = (item: QaItem) => {
+    // A pending edit is picked up where its author left it rather than starting over from the published text.
+    const source = item.pending_edit ?? item;
     setEditingId(item.id);
-    setEditQuestion(item.question);
-    setEditAnswer(item.answer);
-    setEditLanguage(item.language ?? "ru");
+    setEditingStatus(item.status);
+    setEditQuestion(source.question);
+    setEditAnswer(source.answer);
+    setEditLanguage(source.language ?? "");
+    setEditCategory(source.category ?? "");
+    setEditTags(source.tags.join(", "));
+    setEditVariants(source.variants.join("\n"));
   };
 
   const cancelEditing = () => {
     setEditingId(null);
     setEditQuestion("");
     setEditAnswer("");
-    setEditLanguage("ru");
+    setEditLanguage("");
+    setEditCategory("");
+    setEditTags("");
+    setEditVariants("");
   };
 
   const submitEdit = () => {
@@ -445,11 +684,16 @@ const QAManagement = () => {
       question: editQuestion.trim(),
       answer: editAnswer.trim(),
       language: normaliseLanguage(editLanguage),
+      category: editCategory.trim() || null,
+      tags: parseTagInput(editTags),
+      variants: parseVariantInput(editVariants),
+      // Drafts stay drafts until they are submitted; other edits follow the server's review rules.
+      ...(editingStatus === "draft" ? { status: "draft" as const } : {}),
     });
   };
 
   const handleDelete = (id: string) => {
-    const confirmed = window.confirm("Delete this Q&A pair from Pinecone and SQLite?");
+    const confirmed = window.confirm("Move this Q&A pair to the trash?");
     if (!confirmed) return;
     deleteMutation.mutate(id);
   };
@@ -465,7 +709,7 @@ const QAManagement = () => {
     }
 
     const confirmed = window.confirm(
-      `Delete all ${total} Q&A pairs from SQLite and Pinecone? This action cannot be undone.`,
+      `Move all ${total} Q&A pairs to the trash? They can be restored until the retention period ends.`,
     );
     if (!confirmed) return;
     deleteAllMutation.mutate();
@@ -477,6 +721,37 @@ const QAManagement = () => {
     setSearch(searchInput.trim());
   };
 
+  const handleViewChange = (value: string) => {
+    setView(value as QaView);
+    setPage(1);
+  };
+
+  const handleSortChange = (value: string) => {
+    setSort(value as QaSort);
+    setPage(1);
+  };
+
+  const handleCategoryFilterChange = (value: string) => {
+    setCategoryFilter(value === ANY_CATEGORY ? "" : value);
+    setPage(1);
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilters((prev) => (prev.includes(tag) ? prev.filter((value) => value !== tag) : [...prev, tag]));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setCategoryFilter("");
+    setTagFilters([]);
+    setPage(1);
+  };
+
+  const submitReject = () => {
+    if (!rejectTarget || !rejectComment.trim()) return;
+    transitionMutation.mutate({ id: rejectTarget.id, action: "reject", comment: rejectComment.trim() });
+  };
+
   const handleResetSearch = () => {
     setSearchInput("");
     setSearch("");
@@ -488,126 +763,37 @@ const QAManagement = () => {
     event.target.value = "";
     if (!file) return;
 
-    const fileName = file.name.toLowerCase();
-    const isXlsx =
-      file.type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
-      fileName.endsWith(".xlsx");
-    if (!isXlsx) {
+    if (!isSupportedImportFile(file)) {
       toast({
         title: "Invalid format",
-        description: "Please upload an XLSX file with columns: question, answer.",
+        description: "Please upload a CSV or XLSX file with columns: question, answer.",
         variant: "destructive",
       });
       return;
     }
 
-    setIsImporting(true);
-    setImportProgress(null);
-    setImportSheetName(null);
-
+    setIsUploading(true);
     try {
-      const { sheetName, rows: parsedRows } = await parseXlsxFile(file);
-      setImportSheetName(sheetName);
-
-      const rows = parsedRows.filter((item) => {
-        if (item.parseError) return true;
-        return Boolean(item.question) || Boolean(item.answer);
+      const formData = new FormData();
+      formData.append("file", file);
+      const { job } = await apiFetch<{ job: ImportJob }>("/qa/import", {
+        method: "POST",
+        body: formData,
       });
-
-      if (rows.length === 0) {
-        throw new Error("XLSX contains no rows that could be parsed.");
-      }
-
-      setImportProgress({ total: rows.length, processed: 0, success: 0, failed: 0 });
-
-      console.log(`[Import Excel] Starting import of ${rows.length} rows from sheet "${sheetName}"`);
-      
-      let success = 0;
-      let failed = 0;
-      const failures: { rowNumber: number | null; error: string }[] = [];
-
-      for (let index = 0; index < rows.length; index += 1) {
-        const { rowNumber, question, answer, language, parseError } = rows[index];
-
-        if (parseError) {
-          failed += 1;
-          failures.push({ rowNumber, error: `XLSX structure error: ${parseError}` });
-        } else if (!question || !answer) {
-          failed += 1;
-          failures.push({ rowNumber, error: "Empty question or answer" });
-        } else {
-          try {
-            console.log(`[Import Excel] Importing row ${rowNumber}: question="${question.substring(0, 50)}..."`);
-            const result = await apiFetch<{ item: QaItem | null; replaced: boolean }>("/qa", {
-              method: "POST",
-              body: JSON.stringify({
-                question,
-                answer,
-                language: normaliseLanguage(language ?? "ru"),
-              }),
-            });
-            
-            if (!result?.item) {
-              throw new Error("Server returned no item");
-            }
-            
-            const item = result.item;
-            if (item.embedding_status !== "ready" && item.embedding_status !== "pending") {
-              console.warn(`[Import] QA ${item.id} sync status: ${item.embedding_status} for question: "${question.substring(0, 50)}..."`);
-            }
-            
-            success += 1;
-            
-            if (index < rows.length - 1) {
-              await new Promise((resolve) => setTimeout(resolve, 100));
-            }
-          } catch (err) {
-            failed += 1;
-            const message = err instanceof ApiError ? err.message : "Server error";
-            failures.push({ rowNumber, error: message });
-            console.error(`[Import] Failed to import row ${rowNumber}:`, err);
-          }
-        }
-
-        setImportProgress({
-          total: rows.length,
-          processed: index + 1,
-          success,
-          failed,
-        });
-      }
-
-      invalidateQa();
-      await refresh().catch(() => undefined);
-
-      const summary = `Added: ${success}. Errors: ${failed}${sheetName ? `. Sheet: ${sheetName}` : ""}`;
-      const failurePreview = failures
-        .slice(0, 3)
-        .map((failure) => {
-          const prefix = failure.rowNumber ? `row ${failure.rowNumber}` : "sheet";
-          return `${prefix}: ${failure.error}`;
-        })
-        .join(" · ");
-
+      setImportJobId(job.id);
       toast({
-        title: "Import completed",
-        description:
-          failures.length > 0
-            ? `${summary}${failurePreview ? `\n${failurePreview}${failures.length > 3 ? " · …" : ""}` : ""}`
-            : summary,
-        variant: failures.length > 0 ? "destructive" : "default",
+        title: "Import started",
+        description: `${job.total_rows} rows queued. The server keeps importing even if you leave this page.`,
       });
     } catch (error) {
-      setImportProgress(null);
-      setImportSheetName(null);
-      const message = error instanceof Error ? error.message : "Failed to process XLSX";
+      const message = error instanceof ApiError ? error.message : "Failed to upload the import file";
       toast({
         title: "Import failed",
         description: message,
         variant: "destructive",
       });
     } finally {
-      setIsImporting(false);
+      setIsUploading(false);
     }
   };
 
@@ -678,102 +864,164 @@ const QAManagement = () => {
               {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
               Export XLSX
             </Button>
-            <Button asChild variant="outline" disabled={isImporting || isProcessing}>
-              <label className="cursor-pointer flex items-center gap-2">
-                {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
-                Import XLSX
-                <input
-                  type="file"
-                  accept=".xlsx,.xlsm,.xlsb,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-                  className="hidden"
-                  onChange={handleFileUpload}
-                />
-              </label>
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={handleDeleteAll}
-              className="gap-2"
-              disabled={isProcessing || (data?.total ?? 0) === 0}
-            >
-              {deleteAllMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash className="w-4 h-4" />}
-              Delete all
-            </Button>
+            {canEdit && (
+              <Button asChild variant="outline" disabled={isImporting || isProcessing}>
+                <label className="cursor-pointer flex items-center gap-2">
+                  {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  Import CSV / XLSX
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx,.xlsm,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    className="hidden"
+                    onChange={handleFileUpload}
+                  />
+                </label>
+              </Button>
+            )}
+            {isAdmin && (
+              <Button
+                variant="destructive"
+                onClick={handleDeleteAll}
+                className="gap-2"
+                disabled={isProcessing || (data?.total ?? 0) === 0}
+              >
+                {deleteAllMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash className="w-4 h-4" />}
+                Delete all
+              </Button>
+            )}
           </div>
         </div>
 
-        {importProgress && (
+        {importJob && (
           <div className="rounded-lg border border-primary/30 bg-primary/5 p-4 space-y-3">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm text-primary">
               <span>
-                Processed {importProgress.processed} of {importProgress.total} XLSX rows
+                Processed {importJob.processed_rows} of {importJob.total_rows} rows
+                {isImportActive(importJob) ? "" : importJob.status === "failed" ? " · failed" : " · done"}
+              </span>
+              <span className="text-xs uppercase tracking-wide text-muted-foreground">
+                File: {importJob.file_name}
               </span>
-              {importSheetName ? (
-                <span className="text-xs uppercase tracking-wide text-muted-foreground">
-                  Sheet: {importSheetName}
-                </span>
-              ) : null}
             </div>
             <Progress
-              value={importProgress.total === 0 ? 0 : Math.round((importProgress.processed / importProgress.total) * 100)}
+              value={importJob.total_rows === 0 ? 0 : Math.round((importJob.processed_rows / importJob.total_rows) * 100)}
             />
-            <div className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground">
-              <span>Успешно: {importProgress.success}</span>
-              <span>Ошибки: {importProgress.failed}</span>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span>Added: {importJob.created_rows}</span>
+              <span>Replaced: {importJob.replaced_rows}</span>
+              <span>Errors: {importJob.failed_rows}</span>
+              {!isImportActive(importJob) && importJob.failed_rows > 0 ? (
+                <Button asChild variant="link" size="sm" className="h-auto p-0 text-xs">
+                  <a href={buildUrl(`/qa/import/${importJob.id}/report`)} download>
+                    Download failure report
+                  </a>
+                </Button>
+              ) : null}
             </div>
           </div>
         )}
 
-        <Card className="border-primary/20 shadow-lg">
-          <CardHeader>
-            <CardTitle className="text-primary">Add New Q&A Pair</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid gap-4 sm:grid-cols-2">
-              <div className="space-y-2">
-                <Label htmlFor="new-question">Question</Label>
-                <Textarea
-                  id="new-question"
-                  placeholder="Enter the question..."
-                  value={newQuestion}
-                  onChange={(e) => setNewQuestion(e.target.value)}
-                  rows={3}
-                />
+        {canEdit && (
+          <Card className="border-primary/20 shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-primary">Add New Q&A Pair</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="new-question">Question</Label>
+                  <Textarea
+                    id="new-question"
+                    placeholder="Enter the question..."
+                    value={newQuestion}
+                    onChange={(e) => setNewQuestion(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="new-answer">Answer</Label>
+                  <Textarea
+                    id="new-answer"
+                    placeholder="Enter the answer..."
+                    value={newAnswer}
+                    onChange={(e) => setNewAnswer(e.target.value)}
+                    rows={3}
+                  />
+                </div>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="new-answer">Answer</Label>
+                <Label htmlFor="new-variants">Alternative phrasings</Label>
                 <Textarea
-                  id="new-answer"
-                  placeholder="Enter the answer..."
-                  value={newAnswer}
-                  onChange={(e) => setNewAnswer(e.target.value)}
-                  rows={3}
+                  id="new-variants"
+                  placeholder="Other ways customers ask this question, one per line"
+                  value={newVariants}
+                  onChange={(e) => setNewVariants(e.target.value)}
+                  rows={2}
                 />
               </div>
-            </div>
-            <div className="grid gap-4 sm:grid-cols-3">
-              <div className="space-y-2">
-                <Label htmlFor="new-language">Language</Label>
-                <Input
-                  id="new-language"
-                  placeholder="ru"
-                  value={newLanguage}
-                  onChange={(e) => setNewLanguage(e.target.value)}
-                />
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="new-category">Category</Label>
+                  <Input
+                    id="new-category"
+                    placeholder="billing"
+                    value={newCategory}
+                    onChange={(e) => setNewCategory(e.target.value)}
+                    list="qa-categories"
+                  />
+                  <datalist id="qa-categories">
+                    {(tagCounts?.categories ?? []).map((category) => (
+                      <option key={category.name} value={category.name} />
+                    ))}
+                  </datalist>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="new-tags">Tags</Label>
+                  <Input
+                    id="new-tags"
+                    placeholder="refunds, payments"
+                    value={newTags}
+                    onChange={(e) => setNewTags(e.target.value)}
+                  />
+                </div>
               </div>
-              <div className="sm:col-span-2 flex items-end justify-end">
-                <Button onClick={handleCreate} className="w-full sm:w-auto" disabled={createMutation.isPending}>
-                  {createMutation.isPending ? (
-                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                  ) : (
-                    <Plus className="w-4 h-4 mr-2" />
-                  )}
-                  Add Q&A Pair
-                </Button>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="new-language">Language</Label>
+                  <Input
+                    id="new-language"
+                    placeholder="Auto-detect"
+                    value={newLanguage}
+                    onChange={(e) => setNewLanguage(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="new-status">On save</Label>
+                  <Select value={newStatus || (isAdmin ? "published" : "in_review")} onValueChange={(value) => setNewStatus(value as QaStatus)}>
+                    <SelectTrigger id="new-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {isAdmin ? <SelectItem value="published">Publish now</SelectItem> : null}
+                      <SelectItem value="in_review">Submit for review</SelectItem>
+                      <SelectItem value="draft">Save as draft</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end justify-end">
+                  <Button onClick={handleCreate} className="w-full sm:w-auto" disabled={createMutation.isPending}>
+                    {createMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                    ) : (
+                      <Plus className="w-4 h-4 mr-2" />
+                    )}
+                    Add Q&A Pair
+                  </Button>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
 
         <Card className="border-primary/20 shadow-lg">
           <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -788,6 +1036,18 @@ const QAManagement = () => {
                   className="pl-9"
                 />
               </div>
+              <Select value={sort} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-[170px]" aria-label="Sort">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button type="submit" variant="default" disabled={isFetching}>
                 {isFetching ? <Loader2 className="w-4 h-4 animate-spin" /> : "Find"}
               </Button>
@@ -799,6 +1059,61 @@ const QAManagement = () => {
             </form>
           </CardHeader>
           <CardContent className="space-y-4">
+            {canEdit && (
+              <Tabs value={view} onValueChange={handleViewChange}>
+                <TabsList className="flex-wrap h-auto">
+                  {VIEW_TABS.map((tab) => {
+                    const count = tab.value === "all" ? null : data?.statusCounts?.[tab.value];
+                    return (
+                      <TabsTrigger key={tab.value} value={tab.value} className="gap-2">
+                        {tab.label}
+                        {count ? (
+                          <Badge variant={tab.value === "in_review" ? "default" : "secondary"} className="h-5 px-1.5">
+                            {count}
+                          </Badge>
+                        ) : null}
+                      </TabsTrigger>
+                    );
+                  })}
+                </TabsList>
+              </Tabs>
+            )}
+
+            {(tagCounts?.tags.length ?? 0) > 0 || (tagCounts?.categories.length ?? 0) > 0 ? (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={categoryFilter || ANY_CATEGORY} onValueChange={handleCategoryFilterChange}>
+                  <SelectTrigger className="h-8 w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_CATEGORY}>All categories</SelectItem>
+                    {(tagCounts?.categories ?? []).map((category) => (
+                      <SelectItem key={category.name} value={category.name}>
+                        {category.name} ({category.count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(tagCounts?.tags ?? []).map((tag) => {
+                  const active = tagFilters.includes(tag.name);
+                  return (
+                    <button key={tag.name} type="button" onClick={() => toggleTagFilter(tag.name)}>
+                      <Badge variant={active ? "default" : "outline"} className="gap-1 cursor-pointer">
+                        <Tag className="w-3 h-3" />
+                        {tag.name}
+                        <span className={active ? "opacity-80" : "text-muted-foreground"}>{tag.count}</span>
+                      </Badge>
+                    </button>
+                  );
+                })}
+                {categoryFilter || tagFilters.length > 0 ? (
+                  <Button type="button" variant="ghost" size="sm" className="h-8" onClick={clearFilters}>
+                    Clear filters
+                  </Button>
+                ) : null}
+              </div>
+            ) : null}
+
             {listError && (
               <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
                 {(listError as Error).message}
@@ -812,6 +1127,7 @@ const QAManagement = () => {
                     <TableHead className="min-w-[220px]">Question</TableHead>
                     <TableHead className="min-w-[220px]">Answer</TableHead>
                     <TableHead className="w-[90px]">Language</TableHead>
+                    <TableHead className="w-[130px]">Status</TableHead>
                     <TableHead className="w-[140px]">Vector Sync</TableHead>
                     <TableHead className="w-[180px]">Updated</TableHead>
                     <TableHead className="w-[140px] text-right">Actions</TableHead>
@@ -820,14 +1136,14 @@ const QAManagement = () => {
                 <TableBody>
                   {isLoading ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="py-10 text-center text-muted-foreground">
+                      <TableCell colSpan={7} className="py-10 text-center text-muted-foreground">
                         <Loader2 className="w-5 h-5 animate-spin mx-auto mb-3" />
                         Loading Q&A...
                       </TableCell>
                     </TableRow>
                   ) : appliedItems.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="py-10 text-center text-muted-foreground">
+                      <TableCell colSpan={7} className="py-10 text-center text-muted-foreground">
                         No entries yet. Create a pair or adjust the filters.
                       </TableCell>
                     </TableRow>
@@ -838,20 +1154,63 @@ const QAManagement = () => {
                         <TableRow key={item.id}>
                           <TableCell>
                             {isEditing ? (
-                              <Textarea
-                                value={editQuestion}
-                                onChange={(e) => setEditQuestion(e.target.value)}
-                                rows={3}
-                              />
+                              <div className="space-y-2">
+                                <Textarea
+                                  value={editQuestion}
+                                  onChange={(e) => setEditQuestion(e.target.value)}
+                                  rows={3}
+                                />
+                                <Textarea
+                                  placeholder="Alternative phrasings, one per line"
+                                  value={editVariants}
+                                  onChange={(e) => setEditVariants(e.target.value)}
+                                  rows={2}
+                                />
+                              </div>
                             ) : (
-                              <p className="whitespace-pre-wrap text-sm font-semibold leading-relaxed">
-                                {item.question}
-                              </p>
+                              <div className="space-y-2">
+                                <p className="whitespace-pre-wrap text-sm font-semibold leading-relaxed">
+                                  {item.question}
+                                </p>
+                                {item.variants.length > 0 ? (
+                                  <ul className="space-y-0.5 text-xs text-muted-foreground">
+                                    {item.variants.map((variant) => (
+                                      <li key={variant} className="whitespace-pre-wrap">
+                                        ≈ {variant}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                ) : null}
+                                {item.category || item.tags.length > 0 ? (
+                                  <div className="flex flex-wrap gap-1">
+                                    {item.category ? <Badge variant="secondary">{item.category}</Badge> : null}
+                                    {item.tags.map((tag) => (
+                                      <Badge key={tag} variant="outline" className="gap-1 font-normal">
+                                        <Tag className="w-3 h-3" />
+                                        {tag}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                ) : null}
+                              </div>
                             )}
                           </TableCell>
                           <TableCell>
                             {isEditing ? (
-                              <Textarea value={editAnswer} onChange={(e) => setEditAnswer(e.target.value)} rows={3} />
+                              <div className="space-y-2">
+                                <Textarea value={editAnswer} onChange={(e) => setEditAnswer(e.target.value)} rows={3} />
+                                <Input
+                                  placeholder="Category"
+                                  value={editCategory}
+                                  onChange={(e) => setEditCategory(e.target.value)}
+                                  list="qa-categories"
+                                />
+                                <Input
+                                  placeholder="Tags, comma-separated"
+                                  value={editTags}
+                                  onChange={(e) => setEditTags(e.target.value)}
+                                />
+                              </div>
                             ) : (
                               <p className="whitespace-pre-wrap text-sm leading-relaxed text-muted-foreground">
                                 {item.answer}
@@ -860,13 +1219,60 @@ const QAManagement = () => {
                           </TableCell>
                           <TableCell className="align-top">
                             {isEditing ? (
-                              <Input value={editLanguage} onChange={(e) => setEditLanguage(e.target.value)} />
+                              <Input
+                                value={editLanguage}
+                                placeholder="Auto-detect"
+                                onChange={(e) => setEditLanguage(e.target.value)}
+                              />
                             ) : (
                               <Badge variant="secondary" className="uppercase">
                                 {item.language || "ru"}
                               </Badge>
                             )}
                           </TableCell>
+                          <TableCell className="align-top space-y-1">
+                            <Badge variant={STATUS_VARIANTS[item.status]}>{STATUS_LABELS[item.status]}</Badge>
+                            {item.status === "draft" && item.review_comment ? (
+                              <p className="text-xs text-destructive">
+                                Rejected{item.reviewed_by ? ` by ${item.reviewed_by}` : ""}: {item.review_comment}
+                              </p>
+                            ) : null}
+                            {item.status === "published" && item.pending_edit ? (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Badge variant="outline" className="cursor-help">
+                                    Edit in review
+                                  </Badge>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <div className="max-w-sm space-y-1 text-sm">
+                                    <p className="text-muted-foreground">
+                                      Proposed by {item.pending_edit.submitted_by} on{" "}
+                                      {new Date(item.pending_edit.submitted_at).toLocaleString()}
+                                    </p>
+                                    <p className="font-medium">{item.pending_edit.question}</p>
+                                    <p className="whitespace-pre-wrap">{item.pending_edit.answer}</p>
+                                  </div>
+                                </TooltipContent>
+                              </Tooltip>
+                            ) : null}
+                            {item.feedback.helpful + item.feedback.unhelpful + item.feedback.used > 0 ? (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Badge variant="outline" className="gap-1 cursor-help">
+                                    <ThumbsUp className="w-3 h-3" />
+                                    {Math.round(item.feedback.score * 100)}%
+                                  </Badge>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p className="text-sm">
+                                    {item.feedback.helpful} helpful · {item.feedback.unhelpful} not helpful · used{" "}
+                                    {item.feedback.used} times
+                                  </p>
+                                </TooltipContent>
+                              </Tooltip>
+                            ) : null}
+                          </TableCell>
                           <TableCell className="align-top">
                             {(() => {
                               const status = getVectorStatus(item.embedding_status);
@@ -885,6 +1291,11 @@ const QAManagement = () => {
                                       {item.pinecone_id ? (
                                         <p className="text-muted-foreground">ID: {item.pinecone_id}</p>
                                       ) : null}
+                                      {item.chunk_count > 1 ? (
+                                        <p className="text-muted-foreground">
+                                          Long answer embedded in {item.chunk_count} overlapping chunks
+                                        </p>
+                                      ) : null}
                                     </div>
                                   </TooltipContent>
                                 </Tooltip>
@@ -914,26 +1325,84 @@ const QAManagement = () => {
                               </div>
                             ) : (
                               <div className="flex justify-end gap-2">
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  onClick={() => startEditing(item)}
-                                  disabled={isProcessing}
-                                >
-                                  <Edit className="w-4 h-4" />
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  onClick={() => handleDelete(item.id)}
-                                  disabled={deleteMutation.isPending && pendingId === item.id}
-                                >
-                                  {deleteMutation.isPending && pendingId === item.id ? (
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                  ) : (
-                                    <Trash2 className="w-4 h-4" />
-                                  )}
-                                </Button>
+                                {canEdit ? (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Revision history"
+                                    onClick={() => setHistoryId(item.id)}
+                                  >
+                                    <History className="w-4 h-4" />
+                                  </Button>
+                                ) : null}
+                                {canEdit && (item.status === "draft" || item.status === "archived") ? (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Submit for review"
+                                    onClick={() => transitionMutation.mutate({ id: item.id, action: "submit" })}
+                                    disabled={transitionMutation.isPending}
+                                  >
+                                    <Send className="w-4 h-4" />
+                                  </Button>
+                                ) : null}
+                                {isAdmin && (item.status === "in_review" || (item.status === "published" && item.pending_edit)) ? (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      title="Approve and publish"
+                                      onClick={() => transitionMutation.mutate({ id: item.id, action: "approve" })}
+                                      disabled={transitionMutation.isPending}
+                                    >
+                                      <Check className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      title="Reject with a comment"
+                                      onClick={() => setRejectTarget(item)}
+                                      disabled={transitionMutation.isPending}
+                                    >
+                                      <X className="w-4 h-4" />
+                                    </Button>
+                                  </>
+                                ) : null}
+                                {isAdmin && item.status === "published" ? (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Archive"
+                                    onClick={() => transitionMutation.mutate({ id: item.id, action: "archive" })}
+                                    disabled={transitionMutation.isPending}
+                                  >
+                                    <Archive className="w-4 h-4" />
+                                  </Button>
+                                ) : null}
+                                {canEdit ? (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => startEditing(item)}
+                                      disabled={isProcessing}
+                                    >
+                                      <Edit className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => handleDelete(item.id)}
+                                      disabled={deleteMutation.isPending && pendingId === item.id}
+                                    >
+                                      {deleteMutation.isPending && pendingId === item.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                      ) : (
+                                        <Trash2 className="w-4 h-4" />
+                                      )}
+                                    </Button>
+                                  </>
+                                ) : null}
                               </div>
                             )}
                           </TableCell>
@@ -971,6 +1440,109 @@ const QAManagement = () => {
           </CardContent>
         </Card>
       </div>
+
+      <Dialog
+        open={rejectTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectTarget(null);
+            setRejectComment("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{rejectTarget?.pending_edit ? "Reject edit" : "Reject Q&A pair"}</DialogTitle>
+            <DialogDescription>
+              {rejectTarget?.pending_edit
+                ? "The edit is discarded and the published version stays as it is. Tell the author what needs to change."
+                : "The pair goes back to drafts. Tell the author what needs to change."}
+            </DialogDescription>
+          </DialogHeader>
+          {rejectTarget ? <p className="text-sm font-semibold">{rejectTarget.question}</p> : null}
+          <div className="space-y-2">
+            <Label htmlFor="reject-comment">Comment</Label>
+            <Textarea
+              id="reject-comment"
+              value={rejectComment}
+              onChange={(e) => setRejectComment(e.target.value)}
+              rows={4}
+              maxLength={2000}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectTarget(null)} disabled={transitionMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={submitReject}
+              disabled={!rejectComment.trim() || transitionMutation.isPending}
+              className="gap-2"
+            >
+              {transitionMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={heldCreate !== null}
+        onOpenChange={(open) => {
+          if (!open) setHeldCreate(null);
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{heldCreate?.message ?? "Similar pairs already exist"}</DialogTitle>
+            <DialogDescription>
+              Nothing was saved yet. Edit one of these pairs instead, or save anyway
+              {heldCreate?.matches.some((match) => match.exact) ? " to replace the pair with the same question" : ""}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {(heldCreate?.matches ?? []).map((match) => (
+              <div key={match.item.id} className="rounded-lg border p-3 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-semibold">{match.item.question}</span>
+                  {match.exact ? (
+                    <Badge variant="destructive">Same question</Badge>
+                  ) : (
+                    <Badge variant="secondary">{(match.score * 100).toFixed(1)}% similar</Badge>
+                  )}
+                  <Badge variant="outline">{STATUS_LABELS[match.item.status]}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-3">{match.item.answer}</p>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHeldCreate(null)} disabled={createMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!heldCreate) return;
+                createMutation.mutate({ ...heldCreate.payload, force: true });
+                setHeldCreate(null);
+              }}
+              disabled={createMutation.isPending}
+            >
+              Save anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <QaRevisionsDialog
+        qaId={historyId}
+        canRestore={canEdit}
+        onOpenChange={(open) => {
+          if (!open) setHistoryId(null);
+        }}
+        onRestored={() => queryClient.invalidateQueries({ queryKey: ["qa"] })}
+      />
     </div>
   );
 };
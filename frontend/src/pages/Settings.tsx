@@ -7,16 +7,23 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { Navigation } from "@/components/Navigation";
-import { Loader2, Sparkles, Brain } from "lucide-react";
+import { Loader2, Sparkles, Brain, SlidersHorizontal, Trash2, Copy, ThumbsUp } from "lucide-react";
 import { apiFetch, ApiError } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
 
 interface BackendSettings {
   topResultsCount: number;
   similarityThreshold: number;
+  rerankThreshold: number;
   model: string;
   rerankModel: string | null;
   rerankEnabled: boolean;
   csvBatchSize: number;
+  trashRetentionDays: number;
+  duplicateThreshold: number;
+  feedbackBoostEnabled: boolean;
+  feedbackHelpfulnessWeight: number;
+  feedbackPopularityWeight: number;
 }
 
 interface SettingsResponse {
@@ -38,6 +45,8 @@ const saveSettings = async (payload: Partial<BackendSettings>): Promise<Settings
 const SettingsPage = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const isReadOnly = !can("admin");
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ["settings"],
     queryFn: fetchSettings,
@@ -81,6 +90,14 @@ const SettingsPage = () => {
     if (!form) return;
     mutation.mutate({
       rerankEnabled: form.rerankEnabled,
+      topResultsCount: form.topResultsCount,
+      similarityThreshold: form.similarityThreshold,
+      rerankThreshold: form.rerankThreshold,
+      trashRetentionDays: form.trashRetentionDays,
+      duplicateThreshold: form.duplicateThreshold,
+      feedbackBoostEnabled: form.feedbackBoostEnabled,
+      feedbackHelpfulnessWeight: form.feedbackHelpfulnessWeight,
+      feedbackPopularityWeight: form.feedbackPopularityWeight,
     });
   };
 
@@ -92,7 +109,17 @@ const SettingsPage = () => {
 
   const isDirty = useMemo(() => {
     if (!data?.settings || !form) return false;
-    return data.settings.rerankEnabled !== form.rerankEnabled;
+    return (
+      data.settings.rerankEnabled !== form.rerankEnabled ||
+      data.settings.topResultsCount !== form.topResultsCount ||
+      data.settings.similarityThreshold !== form.similarityThreshold ||
+      data.settings.rerankThreshold !== form.rerankThreshold ||
+      data.settings.trashRetentionDays !== form.trashRetentionDays ||
+      data.settings.duplicateThreshold !== form.duplicateThreshold ||
+      data.settings.feedbackBoostEnabled !== form.feedbackBoostEnabled ||
+      data.settings.feedbackHelpfulnessWeight !== form.feedbackHelpfulnessWeight ||
+      data.settings.feedbackPopularityWeight !== form.feedbackPopularityWeight
+    );
   }, [data, form]);
 
   const isBusy = mutation.isPending || isLoading;
@@ -119,6 +146,9 @@ const SettingsPage = () => {
                 {(error as Error).message}
               </div>
             )}
+            {isReadOnly && (
+              <p className="text-sm text-muted-foreground">Read-only: only admins can change settings.</p>
+            )}
           </CardHeader>
           <CardContent>
             {!form ? (
@@ -180,10 +210,170 @@ const SettingsPage = () => {
                         id="rerank-enabled"
                         checked={form.rerankEnabled}
                         onCheckedChange={(checked) => setForm((prev) => prev ? { ...prev, rerankEnabled: checked } : null)}
-                        disabled={isBusy}
+                        disabled={isBusy || isReadOnly}
                       />
                     </div>
                   </div>
+
+                  <div className="space-y-4 pt-4 border-t">
+                    <div className="flex items-center gap-3 pb-2 border-b">
+                      <SlidersHorizontal className="h-5 w-5 text-primary" />
+                      <h3 className="text-lg font-semibold">Search Filters</h3>
+                    </div>
+
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="top-results" className="text-sm font-medium">Results per search</Label>
+                        <Input
+                          id="top-results"
+                          type="number"
+                          min={1}
+                          max={50}
+                          value={form.topResultsCount}
+                          onChange={(e) => handleNumberChange("topResultsCount", e.target.value)}
+                          disabled={isBusy || isReadOnly}
+                        />
+                        <p className="text-xs text-muted-foreground">Default number of answers returned (1–50)</p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="similarity-threshold" className="text-sm font-medium">Vector similarity threshold</Label>
+                        <Input
+                          id="similarity-threshold"
+                          type="number"
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          value={form.similarityThreshold}
+                          onChange={(e) => handleNumberChange("similarityThreshold", e.target.value)}
+                          disabled={isBusy || isReadOnly}
+                        />
+                        <p className="text-xs text-muted-foreground">Drop vector matches scoring below this value (0–1)</p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="rerank-threshold" className="text-sm font-medium">Rerank score threshold</Label>
+                        <Input
+                          id="rerank-threshold"
+                          type="number"
+                          min={0}
+                          max={1}
+                          step={0.001}
+                          value={form.rerankThreshold}
+                          onChange={(e) => handleNumberChange("rerankThreshold", e.target.value)}
+                          disabled={isBusy || isReadOnly}
+                        />
+                        <p className="text-xs text-muted-foreground">Drop reranked answers below this score (0–1)</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-4 pt-4 border-t">
+                    <div className="flex items-center gap-3 pb-2 border-b">
+                      <Trash2 className="h-5 w-5 text-primary" />
+                      <h3 className="text-lg font-semibold">Trash</h3>
+                    </div>
+
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="trash-retention" className="text-sm font-medium">Retention (days)</Label>
+                        <Input
+                          id="trash-retention"
+                          type="number"
+                          min={1}
+                          max={3650}
+                          value={form.trashRetentionDays}
+                          onChange={(e) => handleNumberChange("trashRetentionDays", e.target.value)}
+                          disabled={isBusy || isReadOnly}
+                        />
+                        <p className="text-xs text-muted-foreground">Deleted pairs are purged for good after this many days (1–3650)</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-4 pt-4 border-t">
+                    <div className="flex items-center gap-3 pb-2 border-b">
+                      <Copy className="h-5 w-5 text-primary" />
+                      <h3 className="text-lg font-semibold">Duplicates</h3>
+                    </div>
+
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="duplicate-threshold" className="text-sm font-medium">Similarity threshold</Label>
+                        <Input
+                          id="duplicate-threshold"
+                          type="number"
+                          min={0.5}
+                          max={1}
+                          step={0.01}
+                          value={form.duplicateThreshold}
+                          onChange={(e) => handleNumberChange("duplicateThreshold", e.target.value)}
+                          disabled={isBusy || isReadOnly}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Pairs at least this similar are reported as near-duplicates and flagged when a new pair is added (0.5–1)
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-4 pt-4 border-t">
+                    <div className="flex items-center gap-3 pb-2 border-b">
+                      <ThumbsUp className="h-5 w-5 text-primary" />
+                      <h3 className="text-lg font-semibold">Feedback Ranking</h3>
+                    </div>
+
+                    <div className="flex items-center justify-between p-4 rounded-lg border bg-card">
+                      <div className="space-y-0.5 flex-1">
+                        <Label htmlFor="feedback-boost-enabled" className="text-base font-medium cursor-pointer">
+                          Boost by operator feedback
+                        </Label>
+                        <p className="text-sm text-muted-foreground">
+                          Nudge results up or down by their helpful votes and uses. Turn off to compare rankings without it
+                        </p>
+                      </div>
+                      <Switch
+                        id="feedback-boost-enabled"
+                        checked={form.feedbackBoostEnabled}
+                        onCheckedChange={(checked) =>
+                          setForm((prev) => (prev ? { ...prev, feedbackBoostEnabled: checked } : null))
+                        }
+                        disabled={isBusy || isReadOnly}
+                      />
+                    </div>
+
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="feedback-helpfulness-weight" className="text-sm font-medium">Helpfulness weight</Label>
+                        <Input
+                          id="feedback-helpfulness-weight"
+                          type="number"
+                          min={0}
+                          max={0.5}
+                          step={0.01}
+                          value={form.feedbackHelpfulnessWeight}
+                          onChange={(e) => handleNumberChange("feedbackHelpfulnessWeight", e.target.value)}
+                          disabled={isBusy || isReadOnly}
+                        />
+                        <p className="text-xs text-muted-foreground">Most a pair's votes can move its score, up or down (0–0.5)</p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="feedback-popularity-weight" className="text-sm font-medium">Popularity weight</Label>
+                        <Input
+                          id="feedback-popularity-weight"
+                          type="number"
+                          min={0}
+                          max={0.5}
+                          step={0.01}
+                          value={form.feedbackPopularityWeight}
+                          onChange={(e) => handleNumberChange("feedbackPopularityWeight", e.target.value)}
+                          disabled={isBusy || isReadOnly}
+                        />
+                        <p className="text-xs text-muted-foreground">Most a frequently used pair can gain (0–0.5)</p>
+                      </div>
+                    </div>
+                  </div>
                 </div>
 
                 <div className="flex flex-col sm:flex-row items-center gap-3 justify-end pt-4 border-t">
@@ -191,11 +381,11 @@ const SettingsPage = () => {
                     type="button"
                     variant="ghost"
                     onClick={handleReset}
-                    disabled={!isDirty || isBusy}
+                    disabled={!isDirty || isBusy || isReadOnly}
                   >
                     Reset
                   </Button>
-                  <Button type="submit" disabled={!isDirty || mutation.isPending} className="gap-2 min-w-[120px]">
+                  <Button type="submit" disabled={!isDirty || mutation.isPending || isReadOnly} className="gap-2 min-w-[120px]">
                     {mutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
                     Save Changes
                   </Button>
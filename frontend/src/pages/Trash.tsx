@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Navigation } from "@/components/Navigation";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiFetch, ApiError } from "@/lib/api";
+import { Loader2, RotateCcw, Search, Trash2 } from "lucide-react";
+
+interface TrashedItem {
+  id: string;
+  question: string;
+  answer: string;
+  language: string;
+  deleted_at: string;
+  deleted_by: string | null;
+}
+
+interface TrashResponse {
+  total: number;
+  page: number;
+  pageSize: number;
+  retentionDays: number;
+  items: TrashedItem[];
+}
+
+const PAGE_SIZE = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const purgeDate = (deletedAt: string, retentionDays: number) =>
+  new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+
+const TrashPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const isAdmin = can("admin");
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ["qa", "trash", page, search],
+    queryFn: () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (search) params.set("search", search);
+      return apiFetch<TrashResponse>(`/qa/trash?${params.toString()}`);
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const handleError = (err: unknown, fallback: string) => {
+    toast({
+      title: "Request failed",
+      description: err instanceof ApiError ? err.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (id: string) => apiFetch<{ item: TrashedItem }>(`/qa/trash/${id}/restore`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["qa"] });
+      toast({ title: "Q&A restored", description: "The pair is live again and queued for re-embedding." });
+    },
+    onError: (err) => handleError(err, "Unable to restore the pair"),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (id: string) => apiFetch<{ purged: number }>(`/qa/trash/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["qa", "trash"] });
+      toast({ title: "Deleted forever", description: "The pair and its vector were removed." });
+    },
+    onError: (err) => handleError(err, "Unable to delete the pair"),
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: () => apiFetch<{ purged: number }>("/qa/trash", { method: "DELETE" }),
+    onSuccess: ({ purged }) => {
+      setPage(1);
+      queryClient.invalidateQueries({ queryKey: ["qa", "trash"] });
+      toast({ title: "Trash emptied", description: `Removed ${purged} pairs and their vectors.` });
+    },
+    onError: (err) => handleError(err, "Unable to empty the trash"),
+  });
+
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending || emptyMutation.isPending;
+
+  const handlePurge = (id: string) => {
+    if (!window.confirm("Delete this Q&A pair forever? This action cannot be undone.")) return;
+    purgeMutation.mutate(id);
+  };
+
+  const handleEmpty = () => {
+    const total = data?.total ?? 0;
+    if (total === 0) return;
+    if (!window.confirm(`Delete all ${total} pairs in the trash forever? This action cannot be undone.`)) return;
+    emptyMutation.mutate();
+  };
+
+  const handleSearchSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="max-w-6xl mx-auto p-4 sm:p-8 space-y-8">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl sm:text-4xl font-bold text-primary leading-tight">Trash</h1>
+            <p className="text-muted-foreground text-sm sm:text-base leading-relaxed">
+              Deleted pairs are hidden from search and kept here for {data?.retentionDays ?? "…"} days before they are
+              purged for good.
+            </p>
+          </div>
+          {isAdmin ? (
+            <Button
+              variant="destructive"
+              className="gap-2"
+              onClick={handleEmpty}
+              disabled={isBusy || (data?.total ?? 0) === 0}
+            >
+              {emptyMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+              Empty trash
+            </Button>
+          ) : null}
+        </div>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader className="space-y-4">
+            <CardTitle className="text-primary">Deleted pairs ({data?.total ?? 0})</CardTitle>
+            <form className="flex gap-2" onSubmit={handleSearchSubmit}>
+              <Input
+                placeholder="Search deleted questions and answers"
+                value={searchInput}
+                onChange={(event) => setSearchInput(event.target.value)}
+              />
+              <Button type="submit" variant="outline" className="gap-2">
+                <Search className="w-4 h-4" />
+                Search
+              </Button>
+            </form>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center py-10 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">{(error as Error).message}</p>
+            ) : (data?.items.length ?? 0) === 0 ? (
+              <p className="text-sm text-muted-foreground">The trash is empty.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Question</TableHead>
+                    <TableHead className="w-[200px]">Deleted</TableHead>
+                    <TableHead className="w-[140px]">Purged on</TableHead>
+                    <TableHead className="w-[220px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(data?.items ?? []).map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{item.question}</span>
+                            <Badge variant="outline" className="uppercase">
+                              {item.language}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground line-clamp-2">{item.answer}</p>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(item.deleted_at).toLocaleString()}
+                        {item.deleted_by ? <div>by {item.deleted_by}</div> : null}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {data ? purgeDate(item.deleted_at, data.retentionDays).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => restoreMutation.mutate(item.id)}
+                            disabled={isBusy}
+                          >
+                            {restoreMutation.isPending && restoreMutation.variables === item.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RotateCcw className="h-4 w-4" />
+                            )}
+                            Restore
+                          </Button>
+                          {isAdmin ? (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              className="gap-2"
+                              onClick={() => handlePurge(item.id)}
+                              disabled={isBusy}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              Delete forever
+                            </Button>
+                          ) : null}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                Page {data?.page ?? page} of {totalPages} · Total {data?.total ?? 0}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                  disabled={page <= 1 || isFetching}
+                >
+                  Prev
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((prev) => Math.min(totalPages, prev + 1))}
+                  disabled={page >= totalPages || isFetching}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Navigation } from "@/components/Navigation";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiFetch, ApiError } from "@/lib/api";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, USER_ROLES, type UserRole } from "@/lib/roles";
+import { KeyRound, Loader2, Trash2, UserPlus } from "lucide-react";
+
+interface UserRecord {
+  id: string;
+  username: string;
+  role: UserRole;
+  created_at: string;
+  updated_at: string;
+}
+
+interface UsersResponse {
+  items: UserRecord[];
+}
+
+type LoginOutcome = "success" | "failure" | "blocked";
+
+interface LoginAuditEntry {
+  id: number;
+  username: string;
+  ip: string | null;
+  outcome: LoginOutcome;
+  reason: string | null;
+  created_at: string;
+}
+
+const USERS_KEY = ["users"] as const;
+const LOGIN_AUDIT_KEY = ["users", "login-audit"] as const;
+
+const OUTCOME_LABELS: Record<LoginOutcome, string> = {
+  success: "Signed in",
+  failure: "Failed",
+  blocked: "Blocked",
+};
+
+const REASON_LABELS: Record<string, string> = {
+  invalid_credentials: "Wrong username or password",
+  account_locked: "Account locked",
+  ip_locked: "Address locked",
+  throttled: "Too many attempts",
+};
+
+const UsersPage = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("operator");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: USERS_KEY,
+    queryFn: () => apiFetch<UsersResponse>("/users"),
+  });
+
+  const { data: loginAudit, isLoading: isLoginAuditLoading } = useQuery({
+    queryKey: LOGIN_AUDIT_KEY,
+    queryFn: () => apiFetch<{ items: LoginAuditEntry[] }>("/users/login-audit?limit=50"),
+  });
+
+  const handleMutationError = (err: unknown, fallback: string) => {
+    toast({
+      title: "Request failed",
+      description: err instanceof ApiError ? err.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateUsers = () => queryClient.invalidateQueries({ queryKey: USERS_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: (input: { username: string; password: string; role: UserRole }) =>
+      apiFetch<{ user: UserRecord }>("/users", {
+        method: "POST",
+        body: JSON.stringify(input),
+      }),
+    onSuccess: ({ user }) => {
+      setUsername("");
+      setPassword("");
+      void invalidateUsers();
+      toast({ title: "User created", description: `${user.username} can now sign in.` });
+    },
+    onError: (err) => handleMutationError(err, "Unable to create the user"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...input }: { id: string; role?: UserRole; password?: string }) =>
+      apiFetch<{ user: UserRecord }>(`/users/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(input),
+      }),
+    onSuccess: ({ user }, variables) => {
+      void invalidateUsers();
+      toast({
+        title: "User updated",
+        description: variables.password
+          ? `Password for ${user.username} was reset.`
+          : `${user.username} is now ${ROLE_LABELS[user.role]}.`,
+      });
+    },
+    onError: (err) => handleMutationError(err, "Unable to update the user"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiFetch<{ deleted: boolean }>(`/users/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      void invalidateUsers();
+      toast({ title: "User deleted" });
+    },
+    onError: (err) => handleMutationError(err, "Unable to delete the user"),
+  });
+
+  const handleCreate = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!username.trim() || password.length < 8) {
+      toast({
+        title: "Missing details",
+        description: "Enter a username and a password of at least 8 characters.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createMutation.mutate({ username: username.trim(), password, role });
+  };
+
+  const handleResetPassword = (record: UserRecord) => {
+    const next = window.prompt(`New password for ${record.username} (at least 8 characters):`);
+    if (next === null) return;
+    if (next.length < 8) {
+      toast({ title: "Password too short", description: "Use at least 8 characters.", variant: "destructive" });
+      return;
+    }
+    updateMutation.mutate({ id: record.id, password: next });
+  };
+
+  const handleDelete = (record: UserRecord) => {
+    if (!window.confirm(`Delete the account "${record.username}"?`)) return;
+    deleteMutation.mutate(record.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <div className="max-w-5xl mx-auto p-4 sm:p-8 space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-3xl sm:text-4xl font-bold text-primary leading-tight">Users</h1>
+          <p className="text-muted-foreground text-sm sm:text-base leading-relaxed">
+            Manage portal accounts and what each person is allowed to do.
+          </p>
+        </div>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-primary">Add User</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4 sm:grid-cols-4 items-end" onSubmit={handleCreate}>
+              <div className="space-y-2">
+                <Label htmlFor="new-username">Username</Label>
+                <Input
+                  id="new-username"
+                  value={username}
+                  onChange={(event) => setUsername(event.target.value)}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">Password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-role">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                  <SelectTrigger id="new-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ROLE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" className="gap-2" disabled={createMutation.isPending}>
+                {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                Add user
+              </Button>
+            </form>
+            <p className="mt-3 text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+          </CardContent>
+        </Card>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-primary">Accounts ({data?.items.length ?? 0})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-10 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">{(error as Error).message}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead className="w-[180px]">Role</TableHead>
+                    <TableHead className="w-[180px]">Created</TableHead>
+                    <TableHead className="w-[120px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(data?.items ?? []).map((record) => {
+                    const isSelf = record.id === currentUser?.id;
+                    return (
+                      <TableRow key={record.id}>
+                        <TableCell className="font-medium">
+                          {record.username}
+                          {isSelf ? <span className="ml-2 text-xs text-muted-foreground">(you)</span> : null}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={record.role}
+                            onValueChange={(value) => updateMutation.mutate({ id: record.id, role: value as UserRole })}
+                            disabled={updateMutation.isPending}
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {USER_ROLES.map((value) => (
+                                <SelectItem key={value} value={value}>
+                                  {ROLE_LABELS[value]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {new Date(record.created_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Reset password"
+                              onClick={() => handleResetPassword(record)}
+                            >
+                              <KeyRound className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={isSelf ? "You cannot delete your own account" : "Delete user"}
+                              onClick={() => handleDelete(record)}
+                              disabled={isSelf || deleteMutation.isPending}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-primary/20 shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-primary">Recent Sign-in Attempts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoginAuditLoading ? (
+              <div className="flex justify-center py-10 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : (loginAudit?.items.length ?? 0) === 0 ? (
+              <p className="text-sm text-muted-foreground">No sign-in attempts recorded yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[180px]">Time</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead className="w-[140px]">IP address</TableHead>
+                    <TableHead className="w-[120px]">Outcome</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(loginAudit?.items ?? []).map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="font-medium">{entry.username}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{entry.ip ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.outcome === "success" ? "secondary" : "destructive"}>
+                          {OUTCOME_LABELS[entry.outcome]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {entry.reason ? REASON_LABELS[entry.reason] ?? entry.reason : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default UsersPage;
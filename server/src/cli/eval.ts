@@ -0,0 +1,83 @@
+/**
+ * Runs the retrieval evaluation over the golden set without starting the server, using the
+ * same database and environment. Prints the metrics per mode and the change since the
+ * previous run; exits non-zero when the run fails.
+ *
+ *   npm run eval --workspace server -- [--k 5] [--note "new embed model"] [--json]
+ */
+import { parseArgs } from "node:util";
+import type { EvalMetrics, EvalMode, EvalRun } from "../services/evalService";
+
+// Keeps dotenv's startup notice off stdout, which only carries the report; the pipeline's own
+// progress lines go to stderr through the `log` option below. The services are imported in
+// `main`, so the environment is loaded after this is set.
+process.env.DOTENV_CONFIG_QUIET ??= "true";
+
+const print = (line: string) => process.stdout.write(`${line}\n`);
+
+const METRIC_LABELS: Record<keyof EvalMetrics, string> = {
+  recallAtK: "recall@k",
+  mrr: "MRR",
+  ndcgAtK: "nDCG@k",
+  emptyRate: "empty",
+};
+
+const formatDelta = (current: number, previous: number | undefined): string => {
+  if (previous === undefined) return "";
+  const delta = current - previous;
+  return delta === 0 ? " (=)" : ` (${delta > 0 ? "+" : ""}${delta.toFixed(3)})`;
+};
+
+const printRun = (run: EvalRun, previous: EvalRun | undefined, modes: readonly EvalMode[]) => {
+  print(`Run #${run.id}: ${run.queryCount} queries, k=${run.k}, ${run.durationMs} ms`);
+  print(`Vector store: ${run.config.vectorBackend}, embedding model: ${run.config.embeddingModel}`);
+  if (previous) {
+    print(`Compared with run #${previous.id} (${previous.createdAt})`);
+  }
+  for (const mode of modes) {
+    const metrics = run.metrics[mode];
+    if (!metrics) {
+      print(`  ${mode}: skipped (no rerank model configured)`);
+      continue;
+    }
+    const parts = (Object.keys(METRIC_LABELS) as (keyof EvalMetrics)[]).map(
+      (key) => `${METRIC_LABELS[key]} ${metrics[key].toFixed(3)}${formatDelta(metrics[key], previous?.metrics[mode]?.[key])}`,
+    );
+    print(`  ${mode}: ${parts.join(", ")}`);
+  }
+};
+
+const main = async () => {
+  const { evalService, EVAL_MODES } = await import("../services/evalService");
+  const { values } = parseArgs({
+    options: {
+      k: { type: "string" },
+      note: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+  const k = values.k !== undefined ? Number(values.k) : undefined;
+  if (k !== undefined && (!Number.isInteger(k) || k < 1 || k > 50)) {
+    throw new Error("--k must be an integer between 1 and 50");
+  }
+
+  const previous = evalService.listRuns({ pageSize: 1 }).items[0];
+  const run = await evalService.run(
+    {
+      ...(k !== undefined ? { k } : {}),
+      ...(values.note !== undefined ? { note: values.note } : {}),
+      log: (line) => console.error(line),
+    },
+    { id: null, username: "cli" },
+  );
+  if (values.json) {
+    print(JSON.stringify(run, null, 2));
+  } else {
+    printRun(run, previous, EVAL_MODES);
+  }
+};
+
+main().catch((error: unknown) => {
+  console.error(`[Eval] ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});
@@ -17,6 +17,20 @@ db.pragma("journal_mode = WAL");
 db.pragma("busy_timeout = 5000");
 db.pragma("foreign_keys = ON");
 
+const tableExists = (name: string): boolean =>
+  Boolean(db.prepare("SELECT 1 FROM sqlite_master WHERE name = ?").get(name));
+
+const indexExists = (name: string): boolean =>
+  Boolean(db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = ?").get(name));
+
+const columnExists = (table: string, column: string): boolean =>
+  (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).some((row) => row.name === column);
+
+// The original sessions table was never written to; replace it with the server-side session store.
+if (tableExists("sessions") && columnExists("sessions", "password_version")) {
+  db.exec("DROP TABLE sessions");
+}
+
 db.exec(`
   CREATE TABLE IF NOT EXISTS settings (
     key TEXT PRIMARY KEY,
@@ -24,16 +38,87 @@ db.exec(`
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
   );
 
-  CREATE TABLE IF NOT EXISTS sessions (
+  CREATE TABLE IF NOT EXISTS users (
     id TEXT PRIMARY KEY,
-    password_version INTEGER NOT NULL,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'operator', 'editor', 'admin')),
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    expires_at TEXT NOT NULL
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    token_hash TEXT NOT NULL UNIQUE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_agent TEXT,
+    ip TEXT,
+    created_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT
   );
 
   CREATE INDEX IF NOT EXISTS idx_sessions_expires_at
     ON sessions (expires_at);
 
+  CREATE INDEX IF NOT EXISTS idx_sessions_user_id
+    ON sessions (user_id);
+
+  CREATE TABLE IF NOT EXISTS login_throttle (
+    scope TEXT NOT NULL CHECK (scope IN ('ip', 'account')),
+    key TEXT NOT NULL,
+    failures INTEGER NOT NULL DEFAULT 0,
+    first_failure_at TEXT NOT NULL,
+    last_failure_at TEXT NOT NULL,
+    locked_until TEXT,
+    PRIMARY KEY (scope, key)
+  );
+
+  CREATE TABLE IF NOT EXISTS login_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL,
+    user_id TEXT,
+    ip TEXT,
+    user_agent TEXT,
+    outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure', 'blocked')),
+    reason TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_login_audit_created_at
+    ON login_audit (created_at);
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    actor_id TEXT,
+    actor_username TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    before_json TEXT,
+    after_json TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_audit_log_created_at
+    ON audit_log (created_at);
+
+  CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+    ON audit_log (entity_type, entity_id);
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+  BEFORE UPDATE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+  BEFORE DELETE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+
   CREATE TABLE IF NOT EXISTS qa_pairs (
     id TEXT PRIMARY KEY,
     question TEXT NOT NULL,
@@ -44,4 +129,317 @@ db.exec(`
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
   );
+
+  CREATE TABLE IF NOT EXISTS embedding_jobs (
+    qa_id TEXT PRIMARY KEY REFERENCES qa_pairs(id) ON DELETE CASCADE,
+    generation INTEGER NOT NULL DEFAULT 1,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_run_at TEXT NOT NULL,
+    locked_at TEXT,
+    last_error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_embedding_jobs_next_run_at
+    ON embedding_jobs (next_run_at);
+
+  CREATE TABLE IF NOT EXISTS import_jobs (
+    id TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    format TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    batch_size INTEGER NOT NULL,
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    processed_rows INTEGER NOT NULL DEFAULT 0,
+    created_rows INTEGER NOT NULL DEFAULT 0,
+    replaced_rows INTEGER NOT NULL DEFAULT 0,
+    failed_rows INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    finished_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS import_job_rows (
+    job_id TEXT NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+    row_number INTEGER NOT NULL,
+    outcome TEXT NOT NULL,
+    qa_id TEXT,
+    question TEXT,
+    error TEXT,
+    PRIMARY KEY (job_id, row_number)
+  );
+
+  CREATE TABLE IF NOT EXISTS vectors (
+    namespace TEXT NOT NULL,
+    id TEXT NOT NULL,
+    dimension INTEGER NOT NULL,
+    embedding BLOB NOT NULL,
+    metadata TEXT,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (namespace, id)
+  );
+`);
+
+// Soft delete: trashed pairs keep their row (and vector) until the retention purge removes them.
+if (!columnExists("qa_pairs", "deleted_at")) {
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN deleted_at TEXT");
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN deleted_by TEXT");
+}
+db.exec("CREATE INDEX IF NOT EXISTS idx_qa_pairs_deleted_at ON qa_pairs (deleted_at)");
+
+// Review workflow: pairs that existed before it was introduced were already live, so they start out published.
+if (!columnExists("qa_pairs", "status")) {
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN status TEXT NOT NULL DEFAULT 'published'");
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN review_comment TEXT");
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN reviewed_by TEXT");
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN reviewed_at TEXT");
+}
+db.exec("CREATE INDEX IF NOT EXISTS idx_qa_pairs_status ON qa_pairs (status)");
+
+// An edit to a published pair waiting for review, as JSON; the published text stays live meanwhile.
+if (!columnExists("qa_pairs", "pending_edit")) {
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN pending_edit TEXT");
+}
+
+if (!columnExists("qa_pairs", "category")) {
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN category TEXT");
+}
+db.exec(`
+  CREATE INDEX IF NOT EXISTS idx_qa_pairs_category ON qa_pairs (category);
+
+  CREATE TABLE IF NOT EXISTS tags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS qa_pair_tags (
+    qa_id TEXT NOT NULL REFERENCES qa_pairs(id) ON DELETE CASCADE,
+    tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+    PRIMARY KEY (qa_id, tag_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_qa_pair_tags_tag_id ON qa_pair_tags (tag_id);
+`);
+
+// Alternative phrasings of a pair's question; each is embedded as its own vector next to the pair's.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS qa_pair_variants (
+    qa_id TEXT NOT NULL REFERENCES qa_pairs(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    question TEXT NOT NULL,
+    PRIMARY KEY (qa_id, position)
+  );
+`);
+if (!columnExists("qa_pairs", "variant_vectors")) {
+  // How many variant vectors the store holds for the pair, so removed variants can be cleaned up.
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN variant_vectors INTEGER NOT NULL DEFAULT 0");
+}
+
+// Long answers are embedded in chunks; the count tells cleanup which `#chunk<n>` vectors exist.
+if (!columnExists("qa_pairs", "chunk_count")) {
+  db.exec("ALTER TABLE qa_pairs ADD COLUMN chunk_count INTEGER NOT NULL DEFAULT 0");
+}
+
+const ftsIndexExisted = tableExists("qa_pairs_fts");
+
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS qa_pairs_fts USING fts5(
+    question,
+    answer,
+    content = 'qa_pairs',
+    content_rowid = 'rowid',
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS qa_pairs_fts_insert AFTER INSERT ON qa_pairs BEGIN
+    INSERT INTO qa_pairs_fts (rowid, question, answer) VALUES (new.rowid, new.question, new.answer);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS qa_pairs_fts_delete AFTER DELETE ON qa_pairs BEGIN
+    INSERT INTO qa_pairs_fts (qa_pairs_fts, rowid, question, answer) VALUES ('delete', old.rowid, old.question, old.answer);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS qa_pairs_fts_update AFTER UPDATE OF question, answer ON qa_pairs BEGIN
+    INSERT INTO qa_pairs_fts (qa_pairs_fts, rowid, question, answer) VALUES ('delete', old.rowid, old.question, old.answer);
+    INSERT INTO qa_pairs_fts (rowid, question, answer) VALUES (new.rowid, new.question, new.answer);
+  END;
+`);
+
+if (!ftsIndexExisted) {
+  // Databases created before the lexical index existed need a one-off backfill.
+  db.exec("INSERT INTO qa_pairs_fts (qa_pairs_fts) VALUES ('rebuild')");
+}
+
+const revisionsTableExisted = tableExists("qa_pair_revisions");
+
+const REVISIONS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS qa_pair_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    qa_id TEXT NOT NULL REFERENCES qa_pairs(id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    language TEXT NOT NULL,
+    change_type TEXT NOT NULL CHECK (change_type IN ('create', 'update', 'replace', 'restore', 'merge')),
+    restored_from INTEGER,
+    merged_from TEXT,
+    actor_id TEXT,
+    actor_username TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (qa_id, revision)
+  );
+`;
+
+const revisionsTableSql = (
+  db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'qa_pair_revisions'").get() as
+    | { sql: string }
+    | undefined
+)?.sql;
+
+if (revisionsTableSql && !revisionsTableSql.includes("'merge'")) {
+  // SQLite cannot alter a CHECK constraint, so tables from before merging existed are rebuilt.
+  db.transaction(() => {
+    db.exec("ALTER TABLE qa_pair_revisions RENAME TO qa_pair_revisions_old");
+    db.exec(REVISIONS_TABLE_SQL);
+    db.exec(`
+      INSERT INTO qa_pair_revisions
+        (id, qa_id, revision, question, answer, language, change_type, restored_from, actor_id, actor_username, created_at)
+      SELECT id, qa_id, revision, question, answer, language, change_type, restored_from, actor_id, actor_username, created_at
+      FROM qa_pair_revisions_old
+    `);
+    db.exec("DROP TABLE qa_pair_revisions_old");
+  })();
+}
+
+db.exec(REVISIONS_TABLE_SQL);
+
+if (!revisionsTableExisted) {
+  // Existing pairs start their history with their current text as revision 1.
+  db.exec(`
+    INSERT INTO qa_pair_revisions (qa_id, revision, question, answer, language, change_type, actor_username, created_at)
+    SELECT id, 1, question, answer, COALESCE(language, 'ru'), 'create', 'system', COALESCE(updated_at, CURRENT_TIMESTAMP)
+    FROM qa_pairs
+  `);
+}
+
+// One row per /api/search call, for the analytics endpoints.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS search_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    user_id TEXT,
+    username TEXT,
+    query TEXT NOT NULL,
+    normalized_query TEXT NOT NULL,
+    language TEXT,
+    detected_language TEXT,
+    category TEXT,
+    tags TEXT,
+    top_ids TEXT NOT NULL,
+    top_scores TEXT NOT NULL,
+    result_count INTEGER NOT NULL,
+    rerank_applied INTEGER NOT NULL,
+    reranker_rejected INTEGER NOT NULL,
+    latency_ms INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_search_log_created_at ON search_log (created_at);
+  CREATE INDEX IF NOT EXISTS idx_search_log_normalized_query ON search_log (normalized_query);
+`);
+if (!columnExists("search_log", "feedback_boost")) {
+  // Whether feedback was blended into the ranking, so searches with and without it can be compared.
+  db.exec("ALTER TABLE search_log ADD COLUMN feedback_boost INTEGER NOT NULL DEFAULT 0");
+}
+
+// Searches that showed nothing, grouped by embedding similarity into an inbox of content gaps.
+// `centroid` holds the sum of the members' unit-length query embeddings; its direction is the group's centre.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS search_gaps (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'drafted', 'dismissed')),
+    language TEXT,
+    dimension INTEGER NOT NULL,
+    centroid BLOB NOT NULL,
+    query_count INTEGER NOT NULL DEFAULT 0,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    draft_qa_id TEXT REFERENCES qa_pairs(id) ON DELETE SET NULL,
+    resolved_by TEXT,
+    resolved_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_search_gaps_status ON search_gaps (status, last_seen_at);
+
+  CREATE TABLE IF NOT EXISTS search_gap_queries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    gap_id INTEGER NOT NULL REFERENCES search_gaps(id) ON DELETE CASCADE,
+    search_id INTEGER REFERENCES search_log(id) ON DELETE SET NULL,
+    query TEXT NOT NULL,
+    normalized_query TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_search_gap_queries_gap_id ON search_gap_queries (gap_id);
+`);
+
+// Operator feedback on search results. A helpful and an unhelpful vote exclude each other per
+// search, pair and user; "used" is recorded next to either.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS search_feedback (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    search_id INTEGER NOT NULL REFERENCES search_log(id) ON DELETE CASCADE,
+    qa_id TEXT NOT NULL REFERENCES qa_pairs(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('helpful', 'unhelpful', 'used')),
+    user_id TEXT,
+    username TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (search_id, qa_id, user_id, kind)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_search_feedback_qa_id ON search_feedback (qa_id);
+`);
+if (!indexExists("idx_search_feedback_unique")) {
+  // The table's UNIQUE constraint treats NULL user ids as distinct, so votes without a user
+  // piled up; drop those repeats and enforce uniqueness over the coalesced id instead.
+  db.exec(`
+    DELETE FROM search_feedback
+    WHERE user_id IS NULL
+      AND id NOT IN (SELECT MIN(id) FROM search_feedback WHERE user_id IS NULL GROUP BY search_id, qa_id, kind);
+    CREATE UNIQUE INDEX idx_search_feedback_unique
+      ON search_feedback (search_id, qa_id, COALESCE(user_id, ''), kind);
+  `);
+}
+
+// Offline retrieval evaluation: queries with the pairs that should answer them, and the scores of each run over them.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS golden_queries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    query TEXT NOT NULL,
+    expected_ids TEXT NOT NULL,
+    language TEXT,
+    category TEXT,
+    tags TEXT,
+    note TEXT,
+    created_by TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS eval_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    triggered_by TEXT NOT NULL,
+    note TEXT,
+    k INTEGER NOT NULL,
+    query_count INTEGER NOT NULL,
+    config TEXT NOT NULL,
+    metrics TEXT NOT NULL,
+    details TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_eval_runs_created_at ON eval_runs (created_at);
 `);
@@ -7,12 +7,19 @@ const envSchema = z.object({
   PORT: z.coerce.number().min(1).max(65535).default(8080),
   NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
   PORTAL_PASSWORD: z.string().min(8, "PORTAL_PASSWORD must be at least 8 characters"),
+  ADMIN_USERNAME: z.string().trim().min(1).default("admin"),
   SESSION_SECRET: z.string().min(16, "SESSION_SECRET must be at least 16 characters"),
   SQLITE_PATH: z.string().default("./data/app.db"),
   SESSION_TTL_SECONDS: z.coerce.number().int().positive().default(60 * 60 * 12),
+  SESSION_MAX_AGE_SECONDS: z.coerce.number().int().positive().default(60 * 60 * 24 * 7),
   COOKIE_NAME: z.string().default("auth_token"),
   COOKIE_DOMAIN: z.string().optional(),
   COOKIE_SECURE: z.string().optional(),
+  TRUST_PROXY: z.string().trim().optional(),
+  LOGIN_MAX_ACCOUNT_FAILURES: z.coerce.number().int().positive().default(5),
+  LOGIN_MAX_IP_FAILURES: z.coerce.number().int().positive().default(20),
+  LOGIN_FAILURE_WINDOW_SECONDS: z.coerce.number().int().positive().default(15 * 60),
+  LOGIN_LOCKOUT_SECONDS: z.coerce.number().int().positive().default(15 * 60),
   PINECONE_API_KEY: z.string().trim().min(1).optional(),
   PINECONE_INDEX: z.string().trim().min(1).optional(),
   PINECONE_HOST: z.string().trim().min(1).optional(),
@@ -22,13 +29,24 @@ const envSchema = z.object({
   PINECONE_EMBED_INPUT_TYPE: z.string().trim().min(1).optional(),
   PINECONE_RERANK_DAILY_LIMIT: z.coerce.number().int().positive().optional(),
   PINECONE_NAMESPACE: z.string().trim().min(1).default("qa"),
+  VECTOR_STORE: z.enum(["pinecone", "sqlite"]).optional(),
+  EMBEDDING_PROVIDER: z.enum(["pinecone", "local"]).optional(),
+  LOCAL_EMBEDDING_DIMENSION: z.coerce.number().int().min(64).max(4096).default(1024),
   CSV_BATCH_SIZE: z.coerce.number().int().positive().default(25),
+  EMBEDDING_QUEUE_POLL_MS: z.coerce.number().int().positive().default(2000),
+  EMBEDDING_QUEUE_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  EMBEDDING_QUEUE_BACKOFF_MS: z.coerce.number().int().positive().default(2000),
+  EMBEDDING_CHUNK_SIZE: z.coerce.number().int().min(200).default(1500),
+  EMBEDDING_CHUNK_OVERLAP: z.coerce.number().int().min(0).default(200),
   DEFAULT_LOCALE: z.string().trim().min(2).default("ru-RU"),
 });
 
 export type Env = z.infer<typeof envSchema> & {
   cookieSecure: boolean;
+  trustProxy: boolean | number | string;
   pineconeConfigured: boolean;
+  vectorStore: "pinecone" | "sqlite";
+  embeddingProvider: "pinecone" | "local";
   pineconeRerankDailyLimit: number | null;
 };
 
@@ -41,18 +59,34 @@ export const env: Env = (() => {
     base.COOKIE_DOMAIN && base.COOKIE_DOMAIN.trim().length > 0
       ? base.COOKIE_DOMAIN.trim()
       : undefined;
+  // Accepts Express's "trust proxy" forms: true/false, a hop count, or a comma-separated subnet list.
+  const trustProxyRaw = base.TRUST_PROXY ?? "";
+  const trustProxy: boolean | number | string =
+    trustProxyRaw === "" || trustProxyRaw.toLowerCase() === "false"
+      ? false
+      : trustProxyRaw.toLowerCase() === "true"
+        ? true
+        : /^\d+$/.test(trustProxyRaw)
+          ? Number.parseInt(trustProxyRaw, 10)
+          : trustProxyRaw;
   const pineconeConfigured = Boolean(
     base.PINECONE_API_KEY &&
       base.PINECONE_INDEX &&
       base.PINECONE_HOST &&
       base.PINECONE_EMBED_MODEL
   );
+  // Without Pinecone credentials the local store is the only backend that can work.
+  const vectorStore = base.VECTOR_STORE ?? (pineconeConfigured ? "pinecone" : "sqlite");
+  const embeddingProvider = base.EMBEDDING_PROVIDER ?? (pineconeConfigured ? "pinecone" : "local");
 
   return {
     ...base,
     COOKIE_DOMAIN: cookieDomain,
     cookieSecure,
+    trustProxy,
     pineconeConfigured,
+    vectorStore,
+    embeddingProvider,
     pineconeRerankDailyLimit: base.PINECONE_RERANK_DAILY_LIMIT ?? null,
   };
 })();
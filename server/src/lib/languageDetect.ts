@@ -0,0 +1,32 @@
+/**
+ * Coarse, script-based language detection for search queries. Queries are short, so
+ * statistical detectors are unreliable on them; counting letters per script is enough
+ * to tell the languages the knowledge base is written in apart.
+ */
+
+/** Letters that only occur in Ukrainian among the Cyrillic languages we store. */
+const UKRAINIAN_LETTERS = /[іїєґ]/iu;
+
+/** A script needs this share of the query's letters before the query is attributed to it. */
+const DOMINANT_SCRIPT_SHARE = 0.6;
+
+const countMatches = (text: string, pattern: RegExp): number => text.match(pattern)?.length ?? 0;
+
+/**
+ * Returns the language code of `text` (`ru`, `uk` or `en`), or `null` when it has no
+ * letters or mixes scripts too evenly to call.
+ */
+export const detectLanguage = (text: string): string | null => {
+  const cyrillic = countMatches(text, /\p{Script=Cyrillic}/gu);
+  const latin = countMatches(text, /\p{Script=Latin}/gu);
+  const letters = cyrillic + latin;
+  if (letters === 0) return null;
+
+  if (cyrillic / letters >= DOMINANT_SCRIPT_SHARE) {
+    return UKRAINIAN_LETTERS.test(text) ? "uk" : "ru";
+  }
+  if (latin / letters >= DOMINANT_SCRIPT_SHARE) {
+    return "en";
+  }
+  return null;
+};
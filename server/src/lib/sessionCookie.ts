@@ -0,0 +1,22 @@
+import type { CookieOptions, Response } from "express";
+import { env } from "./env";
+
+const baseCookieOptions = (): CookieOptions => {
+  const cookieOptions: CookieOptions = {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: env.cookieSecure,
+  };
+  if (env.COOKIE_DOMAIN) {
+    cookieOptions.domain = env.COOKIE_DOMAIN;
+  }
+  return cookieOptions;
+};
+
+export const setSessionCookie = (res: Response, token: string, expiresAt: Date): void => {
+  res.cookie(env.COOKIE_NAME, token, { ...baseCookieOptions(), expires: expiresAt });
+};
+
+export const clearSessionCookie = (res: Response): void => {
+  res.clearCookie(env.COOKIE_NAME, baseCookieOptions());
+};
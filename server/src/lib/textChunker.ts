@@ -0,0 +1,47 @@
+/**
+ * Splits long text into overlapping chunks for embedding. Chunks end at a paragraph,
+ * sentence or word boundary where one falls in the second half of the window, and each
+ * chunk repeats the last `overlap` characters of the previous one so a passage cut at a
+ * boundary is still embedded whole in one of them.
+ */
+
+const SENTENCE_END = /[.!?…](?=\s)/g;
+
+/** Index just past the best place to cut `window`, or -1 when it has no usable boundary. */
+const findBreak = (window: string): number => {
+  const paragraph = window.lastIndexOf("\n\n");
+  if (paragraph > window.length / 2) return paragraph + 2;
+
+  let sentence = -1;
+  for (const match of window.matchAll(SENTENCE_END)) {
+    sentence = (match.index ?? -1) + 1;
+  }
+  if (sentence > window.length / 2) return sentence;
+
+  const word = window.search(/\s\S*$/);
+  return word > window.length / 2 ? word + 1 : -1;
+};
+
+export const chunkText = (text: string, size: number, overlap: number): string[] => {
+  const trimmed = text.trim();
+  if (trimmed.length <= size) return [trimmed];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < trimmed.length) {
+    let end = Math.min(start + size, trimmed.length);
+    if (end < trimmed.length) {
+      const cut = findBreak(trimmed.slice(start, end));
+      if (cut > 0) end = start + cut;
+    }
+    chunks.push(trimmed.slice(start, end).trim());
+    if (end >= trimmed.length) break;
+
+    // Step back by the overlap, then forward to the next word so no chunk starts mid-word.
+    let next = Math.max(end - Math.min(overlap, Math.floor(size / 2)), start + 1);
+    const wordStart = trimmed.slice(next, end).search(/\s\S/);
+    if (wordStart !== -1) next += wordStart + 1;
+    start = next;
+  }
+  return chunks.filter(Boolean);
+};
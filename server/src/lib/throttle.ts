@@ -0,0 +1,83 @@
+/**
+ * Adaptive pacing for calls to rate-limited APIs. Each throttle serialises its calls,
+ * leaves `delayMs` between them, and on a rate-limit error backs off (honouring
+ * Retry-After when the error carries one) and retries. Successful calls decay the
+ * delay back towards `minDelayMs`, so throughput recovers once the limit clears.
+ */
+
+export interface ThrottleOptions {
+  name: string;
+  minDelayMs?: number;
+  maxDelayMs?: number;
+  maxRetries?: number;
+}
+
+export interface Throttle {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  currentDelayMs(): number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const isRateLimitError = (error: unknown): boolean => {
+  if (!error || typeof error !== "object") return false;
+  const candidate = error as { status?: unknown; httpStatus?: unknown; name?: unknown; message?: unknown };
+  const status = candidate.status ?? candidate.httpStatus;
+  if (status === 429) return true;
+  if (candidate.name === "PineconeTooManyRequestsError") return true;
+  const message = typeof candidate.message === "string" ? candidate.message : "";
+  return /\b429\b|too many requests|rate limit|RESOURCE_EXHAUSTED/i.test(message);
+};
+
+const retryAfterMs = (error: unknown): number | null => {
+  if (!error || typeof error !== "object") return null;
+  const raw = (error as { retryAfter?: unknown; headers?: Record<string, unknown> }).retryAfter
+    ?? (error as { headers?: Record<string, unknown> }).headers?.["retry-after"];
+  const seconds = typeof raw === "string" ? Number.parseFloat(raw) : typeof raw === "number" ? raw : NaN;
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+};
+
+export const createThrottle = ({
+  name,
+  minDelayMs = 0,
+  maxDelayMs = 60_000,
+  maxRetries = 5,
+}: ThrottleOptions): Throttle => {
+  let delayMs = minDelayMs;
+  let nextSlotAt = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const attempt = async <T>(task: () => Promise<T>): Promise<T> => {
+    for (let retry = 0; ; retry++) {
+      const wait = nextSlotAt - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+      }
+      try {
+        const result = await task();
+        delayMs = Math.max(minDelayMs, Math.floor(delayMs / 2));
+        nextSlotAt = Date.now() + delayMs;
+        return result;
+      } catch (error) {
+        if (!isRateLimitError(error) || retry >= maxRetries) {
+          nextSlotAt = Date.now() + delayMs;
+          throw error;
+        }
+        delayMs = Math.min(maxDelayMs, Math.max(delayMs * 2, minDelayMs, 500));
+        const backoff = Math.min(maxDelayMs, retryAfterMs(error) ?? delayMs);
+        nextSlotAt = Date.now() + backoff;
+        console.warn(`[Throttle:${name}] Rate limited, retry ${retry + 1}/${maxRetries} in ${backoff}ms`);
+      }
+    }
+  };
+
+  return {
+    run<T>(task: () => Promise<T>): Promise<T> {
+      const result = queue.then(() => attempt(task));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+
+    currentDelayMs: () => delayMs,
+  };
+};
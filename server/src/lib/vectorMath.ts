@@ -0,0 +1,30 @@
+/** Helpers for embeddings kept in SQLite as unit-length Float32 blobs. */
+
+/** Scales a vector to unit length, so cosine similarity becomes a plain dot product. */
+export const normaliseVector = (values: number[]): Float32Array => {
+  let norm = 0;
+  for (const value of values) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  const out = new Float32Array(values.length);
+  if (norm === 0) return out;
+  values.forEach((value, index) => {
+    out[index] = value / norm;
+  });
+  return out;
+};
+
+export const toBlob = (vector: Float32Array): Buffer => Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+
+// SQLite hands back Buffers that are not guaranteed to be 4-byte aligned, so copy before viewing as floats.
+export const fromBlob = (blob: Buffer): Float32Array =>
+  new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+
+export const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+};
@@ -1,13 +1,31 @@
-import { Request, Response, NextFunction } from "express";
+import type { RequestHandler } from "express";
 import { sessionService } from "../services/sessionService";
+import { userService } from "../services/userService";
 import { env } from "../lib/env";
+import { setSessionCookie } from "../lib/sessionCookie";
 
-export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+/** Params are left untyped so per-route use does not override Express's `/:id` inference. */
+export const authMiddleware: RequestHandler<any> = (req, res, next) => {
   const token = req.cookies?.[env.COOKIE_NAME];
   const session = sessionService.validateSession(token);
   if (!session) {
-    return res.status(401).json({ message: "Unauthorized" });
+    res.status(401).json({ message: "Unauthorized" });
+    return;
   }
-  (req as any).user = { sessionExpiresAt: session.expiresAt.toISOString() };
+  const user = userService.getById(session.userId);
+  if (!user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+  if (session.refreshed) {
+    setSessionCookie(res, token, session.expiresAt);
+  }
+  req.user = {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    sessionId: session.id,
+    sessionExpiresAt: session.expiresAt.toISOString(),
+  };
   next();
 };
@@ -0,0 +1,18 @@
+import type { RequestHandler } from "express";
+import { hasRole, type UserRole } from "../services/userService";
+
+/**
+ * Must run after `authMiddleware`; rejects users whose role ranks below `role`.
+ * Params are left untyped so the guard does not override Express's `/:id` inference.
+ */
+export const requireRole = (role: UserRole): RequestHandler<any> => (req, res, next) => {
+  if (!req.user) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+  if (!hasRole(req.user.role, role)) {
+    res.status(403).json({ message: `This action requires the ${role} role` });
+    return;
+  }
+  next();
+};
@@ -0,0 +1,73 @@
+import { Router } from "express";
+import type { Request } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import { searchLogService, type AnalyticsRange } from "../services/searchLogService";
+
+const router = Router();
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rangeQuerySchema = z.object({
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
+/** Reads `from`/`to` (default: the last 30 days) and normalises them to UTC ISO strings, like stored timestamps. */
+const parseRange = (req: Request): AnalyticsRange & { limit: number } => {
+  const params = rangeQuerySchema.parse(req.query);
+  const to = params.to ? new Date(params.to) : new Date();
+  const from = params.from ? new Date(params.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (from > to) {
+    throw new HttpError(400, "`from` must be before `to`");
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new HttpError(400, `The range can span at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from: from.toISOString(), to: to.toISOString(), limit: params.limit ?? 20 };
+};
+
+router.get("/summary", (req, res, next) => {
+  try {
+    const range = parseRange(req);
+    res.json({ from: range.from, to: range.to, ...searchLogService.summary(range) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/top-queries", (req, res, next) => {
+  try {
+    const range = parseRange(req);
+    res.json({ from: range.from, to: range.to, items: searchLogService.topQueries(range, range.limit) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/zero-results", (req, res, next) => {
+  try {
+    const range = parseRange(req);
+    res.json({
+      from: range.from,
+      to: range.to,
+      items: searchLogService.topQueries(range, range.limit, { zeroResultsOnly: true }),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/trends", (req, res, next) => {
+  try {
+    const range = parseRange(req);
+    res.json({ from: range.from, to: range.to, items: searchLogService.trends(range) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const analyticsRouter = router;
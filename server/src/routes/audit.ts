@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { z } from "zod";
+import { auditService, AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from "../services/auditService";
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(200).optional(),
+  actor: z.string().trim().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+});
+
+router.get("/", (req, res, next) => {
+  try {
+    const params = listQuerySchema.parse(req.query);
+    // Timestamps are stored as UTC ISO strings, so bounds are normalised the same way to compare lexically.
+    const result = auditService.list({
+      ...(params.page !== undefined ? { page: params.page } : {}),
+      ...(params.pageSize !== undefined ? { pageSize: params.pageSize } : {}),
+      ...(params.actor !== undefined ? { actor: params.actor } : {}),
+      ...(params.action !== undefined ? { action: params.action } : {}),
+      ...(params.entityType !== undefined ? { entityType: params.entityType } : {}),
+      ...(params.entityId !== undefined ? { entityId: params.entityId } : {}),
+      ...(params.from !== undefined ? { from: new Date(params.from).toISOString() } : {}),
+      ...(params.to !== undefined ? { to: new Date(params.to).toISOString() } : {}),
+    });
+    res.json({ ...result, actors: auditService.listActors() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const auditRouter = router;
@@ -1,53 +1,141 @@
 import { Router } from "express";
-import type { CookieOptions } from "express";
+import { z } from "zod";
 import { sessionService } from "../services/sessionService";
+import { userService } from "../services/userService";
+import { loginThrottleService } from "../services/loginThrottleService";
+import { authMiddleware } from "../middleware/authMiddleware";
 import { env } from "../lib/env";
+import { HttpError } from "../lib/httpError";
+import { clearSessionCookie, setSessionCookie } from "../lib/sessionCookie";
 
 const router = Router();
 
-router.post("/login", (req, res) => {
-  const { password } = req.body as { password?: string };
-  console.log('=== DEBUG /login ===');
-  console.log('Req body:', req.body);
-  console.log('Env PORTAL_PASSWORD:', env.PORTAL_PASSWORD ? '[set, length ' + env.PORTAL_PASSWORD.length + ']' : 'EMPTY!');
-  if (!password) {
-    console.log('Missing password');
-    return res.status(400).json({ message: "Password required" });
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+const revokeAllSchema = z.object({
+  keepCurrent: z.boolean().default(false),
+});
+
+router.post("/login", async (req, res, next) => {
+  try {
+    const { username, password } = req.body as { username?: unknown; password?: unknown };
+    if (typeof username !== "string" || typeof password !== "string" || !username.trim() || !password) {
+      return res.status(400).json({ message: "Username and password required" });
+    }
+
+    const ip = req.ip ?? "unknown";
+    const userAgent = req.get("user-agent") ?? null;
+    const attempt = loginThrottleService.beginAttempt(ip, username);
+    if (!attempt.allowed) {
+      loginThrottleService.audit({ username, ip, userAgent, outcome: "blocked", reason: attempt.reason });
+      res.set("Retry-After", String(attempt.retryAfterSeconds));
+      return res.status(429).json({
+        message: `Too many failed sign-in attempts. Try again in ${attempt.retryAfterSeconds} seconds.`,
+        retryAfterSeconds: attempt.retryAfterSeconds,
+      });
+    }
+
+    const user = await userService.authenticate(username, password);
+    if (!user) {
+      const { accountLocked, ipLocked } = attempt;
+      loginThrottleService.audit({
+        username,
+        ip,
+        userAgent,
+        outcome: "failure",
+        reason: accountLocked ? "account_locked" : ipLocked ? "ip_locked" : "invalid_credentials",
+      });
+      if (accountLocked || ipLocked) {
+        console.warn(
+          `[Auth] Locked sign-in for ${accountLocked ? `account "${username.trim()}"` : `address ${ip}`} after repeated failures`,
+        );
+      }
+      return res.status(401).json({ message: "Invalid username or password" });
+    }
+
+    loginThrottleService.recordSuccess(ip, username);
+    loginThrottleService.audit({ username: user.username, userId: user.id, ip, userAgent, outcome: "success" });
+    const { token, expiresAt } = sessionService.createSession(user.id, {
+      userAgent: userAgent ?? undefined,
+      ip,
+    });
+    setSessionCookie(res, token, expiresAt);
+    return res.json({ ok: true, expiresAt, user });
+  } catch (error) {
+    next(error);
   }
+});
+
+router.get("/me", authMiddleware, (req, res) => {
+  res.json({ ok: true, user: req.user });
+});
 
-  const valid = sessionService.verifyPortalPassword(password);
-  console.log('Password valid:', valid);
-  console.log('=================');
-  if (!valid) {
-    return res.status(401).json({ message: "Invalid password" });
+router.post("/password", authMiddleware, async (req, res, next) => {
+  try {
+    const body = changePasswordSchema.parse(req.body ?? {});
+    const current = req.user!;
+    if (!(await userService.authenticate(current.username, body.currentPassword))) {
+      throw new HttpError(401, "Current password is incorrect");
+    }
+    await userService.update(current.id, { password: body.newPassword });
+    // Sign out every other browser that may still hold the old credentials.
+    const revoked = sessionService.revokeAllForUser(current.id, { exceptSessionId: current.sessionId });
+    res.json({ ok: true, revokedSessions: revoked });
+  } catch (error) {
+    next(error);
   }
+});
 
-  const { token, expiresAt } = sessionService.createSession();
-  const cookieOptions: CookieOptions = {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: env.cookieSecure,
-    expires: expiresAt,
-  };
+router.get("/sessions", authMiddleware, (req, res) => {
+  const current = req.user!;
+  const items = sessionService.listForUser(current.id).map((session) => ({
+    ...session,
+    current: session.id === current.sessionId,
+  }));
+  res.json({ items });
+});
 
-  if (env.COOKIE_DOMAIN) {
-    cookieOptions.domain = env.COOKIE_DOMAIN;
+router.delete("/sessions/:id", authMiddleware, (req, res, next) => {
+  try {
+    const current = req.user!;
+    if (!sessionService.revoke(current.id, req.params.id)) {
+      throw new HttpError(404, "Session not found");
+    }
+    if (req.params.id === current.sessionId) {
+      clearSessionCookie(res);
+    }
+    res.json({ revoked: true });
+  } catch (error) {
+    next(error);
   }
+});
 
-  res.cookie(env.COOKIE_NAME, token, cookieOptions);
-  return res.json({ ok: true, expiresAt });
+router.post("/sessions/revoke-all", authMiddleware, (req, res, next) => {
+  try {
+    const body = revokeAllSchema.parse(req.body ?? {});
+    const current = req.user!;
+    const revoked = sessionService.revokeAllForUser(
+      current.id,
+      body.keepCurrent ? { exceptSessionId: current.sessionId } : {},
+    );
+    if (!body.keepCurrent) {
+      clearSessionCookie(res);
+    }
+    res.json({ revoked });
+  } catch (error) {
+    next(error);
+  }
 });
 
 router.post("/logout", (req, res) => {
-  const clearOptions: CookieOptions = {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: env.cookieSecure,
-  };
-  if (env.COOKIE_DOMAIN) {
-    clearOptions.domain = env.COOKIE_DOMAIN;
+  const session = sessionService.validateSession(req.cookies?.[env.COOKIE_NAME]);
+  if (session) {
+    sessionService.revoke(session.userId, session.id);
   }
-  res.clearCookie(env.COOKIE_NAME, clearOptions);
+  clearSessionCookie(res);
   return res.json({ ok: true });
 });
 
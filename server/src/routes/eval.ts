@@ -0,0 +1,131 @@
+import { Router } from "express";
+import type { Request } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import { parseTagList } from "../services/qaService";
+import { evalService } from "../services/evalService";
+import { actorFromUser } from "../services/auditService";
+
+const router = Router();
+
+const goldenBodySchema = z.object({
+  query: z.string().trim().min(1, "Query is required"),
+  expectedIds: z.array(z.string().trim().min(1)).min(1, "At least one expected QA id is required").max(50),
+  language: z.string().trim().min(2).max(8).nullable().optional(),
+  category: z.string().trim().min(1).max(40).nullable().optional(),
+  tags: z.union([z.string(), z.array(z.string())]).optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+const runBodySchema = z.object({
+  k: z.number().int().positive().max(50).optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+const runsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(100).optional(),
+});
+
+const parseId = (req: Request<{ id: string }>, label: string): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new HttpError(400, `${label} id must be a positive integer`);
+  }
+  return id;
+};
+
+const toGoldenInput = (body: z.infer<typeof goldenBodySchema>) => ({
+  query: body.query,
+  expectedIds: body.expectedIds,
+  ...(body.language !== undefined ? { language: body.language } : {}),
+  ...(body.category !== undefined ? { category: body.category } : {}),
+  tags: parseTagList(body.tags),
+  ...(body.note !== undefined ? { note: body.note } : {}),
+});
+
+router.get("/golden", (_req, res, next) => {
+  try {
+    res.json({ items: evalService.listGolden() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/golden", (req, res, next) => {
+  try {
+    const body = goldenBodySchema.parse(req.body ?? {});
+    const item = evalService.createGolden(toGoldenInput(body), actorFromUser(req.user));
+    res.status(201).json({ item });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/golden/:id", (req, res, next) => {
+  try {
+    const body = goldenBodySchema.parse(req.body ?? {});
+    const item = evalService.updateGolden(parseId(req, "Golden query"), toGoldenInput(body));
+    if (!item) {
+      throw new HttpError(404, "Golden query not found");
+    }
+    res.json({ item });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/golden/:id", (req, res, next) => {
+  try {
+    if (!evalService.deleteGolden(parseId(req, "Golden query"))) {
+      throw new HttpError(404, "Golden query not found");
+    }
+    res.json({ deleted: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/run", async (req, res, next) => {
+  try {
+    const body = runBodySchema.parse(req.body ?? {});
+    const run = await evalService.run(
+      {
+        ...(body.k !== undefined ? { k: body.k } : {}),
+        ...(body.note !== undefined ? { note: body.note } : {}),
+      },
+      actorFromUser(req.user),
+    );
+    res.status(201).json({ run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/runs", (req, res, next) => {
+  try {
+    const params = runsQuerySchema.parse(req.query);
+    res.json(
+      evalService.listRuns({
+        ...(params.page !== undefined ? { page: params.page } : {}),
+        ...(params.pageSize !== undefined ? { pageSize: params.pageSize } : {}),
+      }),
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/runs/:id", (req, res, next) => {
+  try {
+    const run = evalService.getRun(parseId(req, "Run"));
+    if (!run) {
+      throw new HttpError(404, "Evaluation run not found");
+    }
+    res.json({ run });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const evalRouter = router;
@@ -0,0 +1,89 @@
+import { Router } from "express";
+import type { Request } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import { gapService, GAP_STATUSES } from "../services/gapService";
+import { actorFromUser } from "../services/auditService";
+import { qaAnswerSchema } from "./qa";
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  status: z.enum(GAP_STATUSES).optional(),
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(100).optional(),
+});
+
+const draftBodySchema = z.object({
+  question: z.string().trim().min(1).optional(),
+  answer: qaAnswerSchema,
+});
+
+const parseGapId = (req: Request<{ id: string }>): number => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new HttpError(400, "Gap id must be a positive integer");
+  }
+  return id;
+};
+
+router.get("/", (req, res, next) => {
+  try {
+    const params = listQuerySchema.parse(req.query);
+    res.json(
+      gapService.list({
+        ...(params.status !== undefined ? { status: params.status } : {}),
+        ...(params.page !== undefined ? { page: params.page } : {}),
+        ...(params.pageSize !== undefined ? { pageSize: params.pageSize } : {}),
+      }),
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/draft", (req, res, next) => {
+  try {
+    const body = draftBodySchema.parse(req.body ?? {});
+    const result = gapService.createDraft(
+      parseGapId(req),
+      {
+        ...(body.question !== undefined ? { question: body.question } : {}),
+        answer: body.answer,
+      },
+      actorFromUser(req.user),
+    );
+    if (!result) {
+      throw new HttpError(404, "Gap not found");
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/dismiss", (req, res, next) => {
+  try {
+    const gap = gapService.dismiss(parseGapId(req), actorFromUser(req.user));
+    if (!gap) {
+      throw new HttpError(404, "Gap not found");
+    }
+    res.json({ gap });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/reopen", (req, res, next) => {
+  try {
+    const gap = gapService.reopen(parseGapId(req));
+    if (!gap) {
+      throw new HttpError(404, "Gap not found");
+    }
+    res.json({ gap });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const gapsRouter = router;
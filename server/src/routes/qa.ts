@@ -1,72 +1,314 @@
+import { tmpdir } from "node:os";
+import { rm } from "node:fs/promises";
 import { Router } from "express";
+import type { Request, RequestHandler } from "express";
+import multer from "multer";
 import { z } from "zod";
-import { qaService } from "../services/qaService";
+import { qaService, parseTagList, QA_STATUSES, QA_SORTS, type QaStatus, type QaTransition } from "../services/qaService";
+import { settingsService } from "../services/settingsService";
+import { actorFromUser } from "../services/auditService";
+import { importService, detectImportFormat } from "../services/importService";
+import { embeddingQueue } from "../services/embeddingQueue";
 import { HttpError } from "../lib/httpError";
+import { requireRole } from "../middleware/requireRole";
+import { hasRole } from "../services/userService";
 
 const router = Router();
 
+const IMPORT_MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+// Uploads go to a temporary file so the import can stream it instead of holding it in memory.
+const upload = multer({
+  dest: tmpdir(),
+  limits: { fileSize: IMPORT_MAX_FILE_BYTES, files: 1 },
+});
+
+const uploadImportFile: RequestHandler = (req, res, next) => {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return next(new HttpError(400, error.code === "LIMIT_FILE_SIZE" ? "Import file is too large" : error.message));
+    }
+    next(error);
+  });
+};
+
 const listQuerySchema = z.object({
   page: z.coerce.number().int().positive().optional(),
   pageSize: z.coerce.number().int().positive().max(100).optional(),
   search: z.string().trim().optional(),
+  status: z.enum(QA_STATUSES).optional(),
+  category: z.string().trim().min(1).max(40).optional(),
+  tags: z.union([z.string(), z.array(z.string())]).optional(),
+  language: z.string().trim().min(2).max(8).optional(),
+  sort: z.enum(QA_SORTS).optional(),
 });
 
+const MAX_TAGS_PER_PAIR = 20;
+const MAX_VARIANTS_PER_PAIR = 20;
+
+// Statuses an author can ask for when writing a pair; archiving goes through its own endpoint.
+const authoringStatusSchema = z.enum(["draft", "in_review", "published"]).optional();
+
+// Shared with the gap inbox, which drafts pairs and may be given their answer up front.
+export const qaAnswerSchema = z.string().trim().min(1, "Answer is required");
+
 const qaBodySchema = z.object({
   question: z.string().trim().min(1, "Question is required"),
-  answer: z.string().trim().min(1, "Answer is required"),
+  answer: qaAnswerSchema,
   language: z.string().trim().min(2).max(8).optional(),
+  category: z.string().trim().max(40).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(40)).max(MAX_TAGS_PER_PAIR).optional(),
+  // Blank variants are dropped by the service rather than rejected.
+  variants: z.array(z.string().trim()).max(MAX_VARIANTS_PER_PAIR).optional(),
+  status: authoringStatusSchema,
+});
+
+const createBodySchema = qaBodySchema.extend({
+  // Save even though close matches exist; an exact match is then replaced as before.
+  force: z.boolean().optional(),
+});
+
+const duplicatesQuerySchema = z.object({
+  threshold: z.coerce.number().min(0.5).max(1).optional(),
+});
+
+const mergeBodySchema = z.object({
+  sourceId: z.string().trim().min(1, "sourceId is required"),
+  question: z.string().trim().min(1).optional(),
+  answer: qaAnswerSchema.optional(),
+  language: z.string().trim().min(2).max(8).optional(),
+  status: authoringStatusSchema,
+});
+
+/** Close matches shown when a create is held back. */
+const CREATE_MATCH_LIMIT = 5;
+
+const REVIEW_COMMENT_MAX_LENGTH = 2000;
+
+const isReviewerRequest = (req: Request) => (req.user ? hasRole(req.user.role, "admin") : false);
+
+/**
+ * The status a create, import or revision restore lands in, or an edit that asks for one.
+ * Admins review, so their changes are published by default; everyone else's go to the review
+ * queue unless kept as a draft.
+ */
+const resolveAuthoringStatus = (req: Request, requested: z.infer<typeof authoringStatusSchema>): QaStatus => {
+  const isReviewer = isReviewerRequest(req);
+  if (requested === "published" && !isReviewer) {
+    throw new HttpError(403, "Only admins can publish without review");
+  }
+  return requested ?? (isReviewer ? "published" : "in_review");
+};
+
+const resyncSchema = z.object({
+  mode: z.enum(["reconcile", "full"]).default("reconcile"),
+  dryRun: z
+    .union([z.boolean(), z.enum(["true", "false", "1", "0"])])
+    .optional()
+    .transform((value) => value === true || value === "true" || value === "1"),
 });
 
 router.get("/", (req, res, next) => {
   try {
     const params = listQuerySchema.parse(req.query);
+    // Work in progress is only visible to the people who write and review it.
+    const canSeeUnpublished = req.user ? hasRole(req.user.role, "editor") : false;
+    const status = canSeeUnpublished ? params.status : "published";
     const result = qaService.list({
       ...(params.page !== undefined ? { page: params.page } : {}),
       ...(params.pageSize !== undefined ? { pageSize: params.pageSize } : {}),
       ...(params.search !== undefined ? { search: params.search } : {}),
+      ...(status !== undefined ? { status } : {}),
+      ...(params.category !== undefined ? { category: params.category } : {}),
+      tags: parseTagList(params.tags),
+      ...(params.language !== undefined ? { language: params.language } : {}),
+      ...(params.sort !== undefined ? { sort: params.sort } : {}),
     });
     res.json({
       page: result.page,
       pageSize: result.pageSize,
       total: result.total,
       items: result.items,
+      ...(canSeeUnpublished ? { statusCounts: qaService.statusCounts() } : {}),
     });
   } catch (error) {
     next(error);
   }
 });
 
-router.post("/", async (req, res, next) => {
+router.get("/tags", (req, res) => {
+  const canSeeUnpublished = req.user ? hasRole(req.user.role, "editor") : false;
+  res.json(qaService.listTagCounts(canSeeUnpublished ? undefined : "published"));
+});
+
+router.get("/duplicates", requireRole("editor"), async (req, res, next) => {
   try {
-    const body = qaBodySchema.parse(req.body ?? {});
+    const params = duplicatesQuerySchema.parse(req.query);
+    const threshold = params.threshold ?? settingsService.get().duplicateThreshold;
+    res.json(await qaService.findDuplicates(threshold));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/", requireRole("editor"), async (req, res, next) => {
+  try {
+    const body = createBodySchema.parse(req.body ?? {});
     console.log(`[POST /qa] Received request: question="${body.question.substring(0, 50)}...", answer length=${body.answer.length}, language=${body.language ?? "undefined"}`);
     const createInput = {
       question: body.question,
       answer: body.answer,
       ...(body.language !== undefined ? { language: body.language } : {}),
+      ...(body.category !== undefined ? { category: body.category } : {}),
+      ...(body.tags !== undefined ? { tags: body.tags } : {}),
+      ...(body.variants !== undefined ? { variants: body.variants } : {}),
+      status: resolveAuthoringStatus(req, body.status),
     };
-    const result = qaService.create(createInput);
-    console.log(`[POST /qa] Created QA ${result.record.id}, replaced: ${result.replaced}, question="${result.record.question.substring(0, 50)}..."`);
-    
-    try {
-      await qaService.syncVectorWithRetry(result.record);
-    } catch (error) {
-      console.error(`[POST /qa] Failed to sync Pinecone for QA ${result.record.id} after all retries:`, error);
-    }
-    
-    const fresh = qaService.getById(result.record.id);
-    console.log(`[POST /qa] Returning QA ${fresh?.id}, embedding_status=${fresh?.embedding_status}, pinecone_id=${fresh?.pinecone_id ?? "null"}`);
+    if (!body.force) {
+      const matches = await qaService.findSimilar(body, {
+        threshold: settingsService.get().duplicateThreshold,
+        limit: CREATE_MATCH_LIMIT,
+      });
+      if (matches.length > 0) {
+        // Nothing is saved; the client shows the matches and can resend with `force`.
+        res.status(409).json({
+          message: matches.some((match) => match.exact)
+            ? "A pair with this question already exists"
+            : "Similar pairs already exist",
+          matches: matches.map((match) => ({ item: match.qa, score: match.score, exact: match.exact })),
+        });
+        return;
+      }
+    }
+    const result = qaService.create(createInput, actorFromUser(req.user), {
+      holdPublishedEdits: !isReviewerRequest(req),
+    });
+    embeddingQueue.enqueue(result.record.id);
+    console.log(`[POST /qa] Created QA ${result.record.id}, replaced: ${result.replaced}, queued for embedding`);
     const statusCode = result.replaced ? 200 : 201;
     res.status(statusCode).json({
-      item: fresh,
+      item: result.record,
       replaced: result.replaced,
+      proposed: result.proposed,
     });
   } catch (error) {
     next(error);
   }
 });
 
-router.put("/:id", async (req, res, next) => {
+router.post("/import", requireRole("editor"), uploadImportFile, async (req, res, next) => {
+  try {
+    const file = req.file;
+    if (!file) {
+      throw new HttpError(400, "Upload a CSV or XLSX file in the \"file\" field");
+    }
+    const format = detectImportFormat(file.originalname, file.mimetype);
+    if (!format) {
+      throw new HttpError(400, "Unsupported file type. Upload a CSV or XLSX file with columns: question, answer");
+    }
+    const job = await importService.start({
+      fileName: file.originalname,
+      format,
+      filePath: file.path,
+      status: resolveAuthoringStatus(req, authoringStatusSchema.parse(req.body?.status || undefined)),
+      actor: actorFromUser(req.user),
+      holdPublishedEdits: !isReviewerRequest(req),
+    });
+    res.status(202).json({ job });
+  } catch (error) {
+    // A started job removes its upload when it finishes; anything rejected before that is removed here.
+    if (req.file) {
+      void rm(req.file.path, { force: true });
+    }
+    next(error);
+  }
+});
+
+router.get("/import/:jobId", requireRole("editor"), (req, res, next) => {
+  try {
+    const job = importService.getJob(req.params.jobId);
+    if (!job) {
+      throw new HttpError(404, "Import job not found");
+    }
+    res.json({ job, failures: importService.getFailures(job.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/import/:jobId/report", requireRole("editor"), async (req, res, next) => {
+  try {
+    const job = importService.getJob(req.params.jobId);
+    if (!job) {
+      throw new HttpError(404, "Import job not found");
+    }
+    const report = await importService.buildFailureReport(job.id);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="import-${job.id}-failures.csv"`);
+    res.send(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/trash", requireRole("editor"), (req, res, next) => {
+  try {
+    const params = listQuerySchema.parse(req.query);
+    const result = qaService.list({
+      trashed: true,
+      ...(params.page !== undefined ? { page: params.page } : {}),
+      ...(params.pageSize !== undefined ? { pageSize: params.pageSize } : {}),
+      ...(params.search !== undefined ? { search: params.search } : {}),
+    });
+    const { trashRetentionDays } = settingsService.get();
+    res.json({
+      page: result.page,
+      pageSize: result.pageSize,
+      total: result.total,
+      retentionDays: trashRetentionDays,
+      items: result.items,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/trash/:id/restore", requireRole("editor"), (req, res, next) => {
+  try {
+    const restored = qaService.restoreFromTrash(req.params.id, actorFromUser(req.user));
+    if (!restored) {
+      throw new HttpError(404, "QA pair not found in trash");
+    }
+    embeddingQueue.enqueue(restored.id);
+    res.json({ item: restored });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/trash/:id", requireRole("admin"), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    if (!qaService.getTrashedById(id)) {
+      throw new HttpError(404, "QA pair not found in trash");
+    }
+    const purged = await qaService.purge([id], actorFromUser(req.user));
+    res.json({ purged });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/trash", requireRole("admin"), async (req, res, next) => {
+  try {
+    const purged = await qaService.emptyTrash(actorFromUser(req.user));
+    res.json({ purged });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/:id", requireRole("editor"), (req, res, next) => {
   try {
     const { id } = req.params;
     const existing = qaService.getById(id);
@@ -78,55 +320,208 @@ router.put("/:id", async (req, res, next) => {
       question: body.question,
       answer: body.answer,
       ...(body.language !== undefined ? { language: body.language } : {}),
+      ...(body.category !== undefined ? { category: body.category } : {}),
+      ...(body.tags !== undefined ? { tags: body.tags } : {}),
+      ...(body.variants !== undefined ? { variants: body.variants } : {}),
     };
-    const updated = qaService.update(id, updateInput);
+    if (existing.status === "published" && !isReviewerRequest(req)) {
+      // Whatever status is asked for, the published version stays searchable until an admin approves the edit.
+      res.json(qaService.proposeEdit(id, updateInput, actorFromUser(req.user)));
+      return;
+    }
+    // Without an explicit status the pair keeps the one it has.
+    const status = body.status === undefined ? existing.status : resolveAuthoringStatus(req, body.status);
+    const updated = qaService.update(id, { ...updateInput, status }, actorFromUser(req.user));
     if (!updated) {
       throw new HttpError(404, "QA pair not found");
     }
-    try {
-      await qaService.syncVectorWithRetry(updated);
-    } catch (error) {
-      console.error("Failed to re-sync Pinecone for QA", id, error);
+    embeddingQueue.enqueue(id);
+    res.json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:id/revisions", requireRole("editor"), (req, res, next) => {
+  try {
+    const { id } = req.params;
+    if (!qaService.getById(id)) {
+      throw new HttpError(404, "QA pair not found");
     }
-    res.json(qaService.getById(id));
+    res.json({ items: qaService.listRevisions(id) });
   } catch (error) {
     next(error);
   }
 });
 
-router.delete("/:id", async (req, res, next) => {
+router.post("/:id/revisions/:rev/restore", requireRole("editor"), (req, res, next) => {
   try {
     const { id } = req.params;
+    const revision = Number(req.params.rev);
+    if (!Number.isInteger(revision) || revision < 1) {
+      throw new HttpError(400, "Revision must be a positive integer");
+    }
     const existing = qaService.getById(id);
     if (!existing) {
       throw new HttpError(404, "QA pair not found");
     }
-    const vectorResult = await qaService.removeVector(existing);
-    qaService.delete(id);
-    res.json({
-      deleted: true,
-      vectorRemoved: vectorResult.removed,
-      vectorSkipped: vectorResult.skipped,
-      vectorError: vectorResult.error ?? null,
-    });
+    if (existing.status === "published" && !isReviewerRequest(req)) {
+      // Restoring old text onto a live pair is an edit like any other, so it waits for review.
+      const target = qaService.getRevision(id, revision);
+      if (!target) {
+        throw new HttpError(404, "Revision not found");
+      }
+      const proposed = qaService.proposeEdit(
+        id,
+        { question: target.question, answer: target.answer, language: target.language },
+        actorFromUser(req.user),
+      );
+      res.json({ item: proposed, restoredFrom: revision });
+      return;
+    }
+    const status = resolveAuthoringStatus(req, authoringStatusSchema.parse(req.body?.status));
+    const restored = qaService.restoreRevision(id, revision, status, actorFromUser(req.user));
+    if (!restored) {
+      throw new HttpError(404, "Revision not found");
+    }
+    embeddingQueue.enqueue(id);
+    res.json({ item: restored, restoredFrom: revision });
   } catch (error) {
     next(error);
   }
 });
 
-router.delete("/", async (req, res, next) => {
+router.post("/:id/merge", requireRole("editor"), async (req, res, next) => {
   try {
-    const result = await qaService.deleteAll();
-    res.json(result);
+    const body = mergeBodySchema.parse(req.body ?? {});
+    // Merging rewrites the target and deletes the source outright, so there is no pending
+    // edit to hold it in; merges that touch live content are left to the reviewers.
+    const pairs = [qaService.getById(req.params.id), qaService.getById(body.sourceId)];
+    if (!isReviewerRequest(req) && pairs.some((qa) => qa?.status === "published")) {
+      throw new HttpError(403, "Only admins can merge published pairs");
+    }
+    const merged = await qaService.merge(
+      req.params.id,
+      body.sourceId,
+      {
+        ...(body.question !== undefined ? { question: body.question } : {}),
+        ...(body.answer !== undefined ? { answer: body.answer } : {}),
+        ...(body.language !== undefined ? { language: body.language } : {}),
+        status: resolveAuthoringStatus(req, body.status),
+      },
+      actorFromUser(req.user),
+    );
+    if (!merged) {
+      throw new HttpError(404, "QA pair not found");
+    }
+    embeddingQueue.enqueue(merged.id);
+    res.json({ item: merged, mergedFrom: body.sourceId });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const applyTransition = (req: Request<{ id: string }>, kind: QaTransition, comment?: string) => {
+  const updated = qaService.transition(
+    req.params.id,
+    kind,
+    comment !== undefined ? { comment } : {},
+    actorFromUser(req.user),
+  );
+  if (!updated) {
+    throw new HttpError(404, "QA pair not found");
+  }
+  // Entering or leaving the published status adds or removes the vector.
+  if (kind === "approve" || kind === "archive") {
+    embeddingQueue.enqueue(updated.id);
+  }
+  return updated;
+};
+
+router.post("/:id/submit", requireRole("editor"), (req, res, next) => {
+  try {
+    res.json({ item: applyTransition(req, "submit") });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/approve", requireRole("admin"), (req, res, next) => {
+  try {
+    res.json({ item: applyTransition(req, "approve") });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/reject", requireRole("admin"), (req, res, next) => {
+  try {
+    const comment = typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+    if (!comment) {
+      throw new HttpError(400, "A comment is required when rejecting");
+    }
+    if (comment.length > REVIEW_COMMENT_MAX_LENGTH) {
+      throw new HttpError(400, `Comment must be at most ${REVIEW_COMMENT_MAX_LENGTH} characters`);
+    }
+    res.json({ item: applyTransition(req, "reject", comment) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/archive", requireRole("admin"), (req, res, next) => {
+  try {
+    res.json({ item: applyTransition(req, "archive") });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/:id", requireRole("editor"), (req, res, next) => {
+  try {
+    const { id } = req.params;
+    if (!qaService.delete(id, actorFromUser(req.user))) {
+      throw new HttpError(404, "QA pair not found");
+    }
+    const { trashRetentionDays } = settingsService.get();
+    res.json({ deleted: true, trashed: true, retentionDays: trashRetentionDays });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/", requireRole("admin"), (req, res, next) => {
+  try {
+    const result = qaService.deleteAll(actorFromUser(req.user));
+    const { trashRetentionDays } = settingsService.get();
+    res.json({ ...result, trashed: true, retentionDays: trashRetentionDays });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/resync", requireRole("admin"), async (req, res, next) => {
+  try {
+    const params = resyncSchema.parse({ ...req.query, ...(req.body ?? {}) });
+    if (params.mode === "full") {
+      if (params.dryRun) {
+        throw new HttpError(400, "dryRun is only supported in reconcile mode");
+      }
+      const result = await qaService.resyncAll(actorFromUser(req.user));
+      res.json({ mode: "full", ...result });
+      return;
+    }
+    const report = await qaService.reconcileVectors({ dryRun: params.dryRun }, actorFromUser(req.user));
+    res.json(report);
   } catch (error) {
     next(error);
   }
 });
 
-router.post("/resync", async (req, res, next) => {
+router.post("/embeddings/retry", requireRole("admin"), (_req, res, next) => {
   try {
-    const result = await qaService.resyncAll();
-    res.json(result);
+    const requeued = embeddingQueue.retryExhausted();
+    res.json({ requeued, queue: embeddingQueue.stats() });
   } catch (error) {
     next(error);
   }
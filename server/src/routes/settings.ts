@@ -1,6 +1,8 @@
 import { Router } from "express";
 import { z } from "zod";
 import { settingsService } from "../services/settingsService";
+import { actorFromUser } from "../services/auditService";
+import { requireRole } from "../middleware/requireRole";
 
 const router = Router();
 
@@ -8,10 +10,16 @@ const updateSchema = z
   .object({
     topResultsCount: z.number().int().min(1).max(50).optional(),
     similarityThreshold: z.number().min(0).max(1).optional(),
+    rerankThreshold: z.number().min(0).max(1).optional(),
     model: z.string().trim().min(1).max(128).optional(),
     rerankModel: z.string().trim().min(1).max(128).optional().nullable(),
     rerankEnabled: z.boolean().optional(),
     csvBatchSize: z.number().int().min(1).max(500).optional(),
+    trashRetentionDays: z.number().int().min(1).max(3650).optional(),
+    duplicateThreshold: z.number().min(0.5).max(1).optional(),
+    feedbackBoostEnabled: z.boolean().optional(),
+    feedbackHelpfulnessWeight: z.number().min(0).max(0.5).optional(),
+    feedbackPopularityWeight: z.number().min(0).max(0.5).optional(),
   })
   .refine((body) => Object.keys(body).length > 0, {
     message: "At least one setting must be provided",
@@ -22,17 +30,30 @@ router.get("/", (_req, res) => {
   res.json({ ok: true, settings });
 });
 
-router.put("/", (req, res, next) => {
+router.put("/", requireRole("admin"), (req, res, next) => {
   try {
     const body = updateSchema.parse(req.body ?? {});
-    const updated = settingsService.update({
-      ...(body.topResultsCount !== undefined ? { topResultsCount: body.topResultsCount } : {}),
-      ...(body.similarityThreshold !== undefined ? { similarityThreshold: body.similarityThreshold } : {}),
-      ...(body.model !== undefined ? { model: body.model } : {}),
-      ...(body.rerankModel !== undefined ? { rerankModel: body.rerankModel } : {}),
-      ...(body.rerankEnabled !== undefined ? { rerankEnabled: body.rerankEnabled } : {}),
-      ...(body.csvBatchSize !== undefined ? { csvBatchSize: body.csvBatchSize } : {}),
-    });
+    const updated = settingsService.update(
+      {
+        ...(body.topResultsCount !== undefined ? { topResultsCount: body.topResultsCount } : {}),
+        ...(body.similarityThreshold !== undefined ? { similarityThreshold: body.similarityThreshold } : {}),
+        ...(body.rerankThreshold !== undefined ? { rerankThreshold: body.rerankThreshold } : {}),
+        ...(body.model !== undefined ? { model: body.model } : {}),
+        ...(body.rerankModel !== undefined ? { rerankModel: body.rerankModel } : {}),
+        ...(body.rerankEnabled !== undefined ? { rerankEnabled: body.rerankEnabled } : {}),
+        ...(body.csvBatchSize !== undefined ? { csvBatchSize: body.csvBatchSize } : {}),
+        ...(body.trashRetentionDays !== undefined ? { trashRetentionDays: body.trashRetentionDays } : {}),
+        ...(body.duplicateThreshold !== undefined ? { duplicateThreshold: body.duplicateThreshold } : {}),
+        ...(body.feedbackBoostEnabled !== undefined ? { feedbackBoostEnabled: body.feedbackBoostEnabled } : {}),
+        ...(body.feedbackHelpfulnessWeight !== undefined
+          ? { feedbackHelpfulnessWeight: body.feedbackHelpfulnessWeight }
+          : {}),
+        ...(body.feedbackPopularityWeight !== undefined
+          ? { feedbackPopularityWeight: body.feedbackPopularityWeight }
+          : {}),
+      },
+      actorFromUser(req.user),
+    );
     res.json({ ok: true, settings: updated });
   } catch (error) {
     next(error);
@@ -0,0 +1,115 @@
+import { Router } from "express";
+import { z } from "zod";
+import { userService, USER_ROLES } from "../services/userService";
+import { sessionService } from "../services/sessionService";
+import { loginThrottleService, LOGIN_OUTCOMES } from "../services/loginThrottleService";
+import { HttpError } from "../lib/httpError";
+
+const router = Router();
+
+const createSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(64)
+    .regex(/^[\w.@-]+$/, "Username may only contain letters, digits and . _ @ -"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(USER_ROLES),
+});
+
+const updateSchema = z
+  .object({
+    role: z.enum(USER_ROLES).optional(),
+    password: z.string().min(8, "Password must be at least 8 characters").optional(),
+  })
+  .refine((body) => body.role !== undefined || body.password !== undefined, {
+    message: "Provide a role or a password",
+  });
+
+const loginAuditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  outcome: z.enum(LOGIN_OUTCOMES).optional(),
+  username: z.string().trim().min(1).optional(),
+});
+
+router.get("/", (_req, res) => {
+  res.json({ items: userService.list() });
+});
+
+router.get("/login-audit", (req, res, next) => {
+  try {
+    const query = loginAuditQuerySchema.parse(req.query);
+    const items = loginThrottleService.listAudit({
+      limit: query.limit,
+      ...(query.outcome !== undefined ? { outcome: query.outcome } : {}),
+      ...(query.username !== undefined ? { username: query.username } : {}),
+    });
+    res.json({ items });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/", async (req, res, next) => {
+  try {
+    const body = createSchema.parse(req.body ?? {});
+    const user = await userService.create(body);
+    res.status(201).json({ user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch("/:id", async (req, res, next) => {
+  try {
+    const body = updateSchema.parse(req.body ?? {});
+    const user = await userService.update(req.params.id, {
+      ...(body.role !== undefined ? { role: body.role } : {}),
+      ...(body.password !== undefined ? { password: body.password } : {}),
+    });
+    if (!user) {
+      throw new HttpError(404, "User not found");
+    }
+    if (body.password !== undefined) {
+      // A reset password must not leave the account signed in elsewhere.
+      sessionService.revokeAllForUser(user.id, user.id === req.user?.id ? { exceptSessionId: req.user.sessionId } : {});
+      // An admin reset is also how a locked-out user gets back in.
+      loginThrottleService.resetAccount(user.username);
+    }
+    res.json({ user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/:id", (req, res, next) => {
+  try {
+    if (req.params.id === req.user?.id) {
+      throw new HttpError(400, "You cannot delete your own account");
+    }
+    if (!userService.delete(req.params.id)) {
+      throw new HttpError(404, "User not found");
+    }
+    res.json({ deleted: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:id/sessions/revoke-all", (req, res, next) => {
+  try {
+    if (!userService.getById(req.params.id)) {
+      throw new HttpError(404, "User not found");
+    }
+    const revoked = sessionService.revokeAllForUser(
+      req.params.id,
+      req.params.id === req.user?.id ? { exceptSessionId: req.user.sessionId } : {},
+    );
+    res.json({ revoked });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const usersRouter = router;
@@ -13,9 +13,24 @@ import { qaService } from "./services/qaService";
 import { pineconeService } from "./services/pineconeService";
 import { rerankService } from "./services/rerankService";
 import { settingsRouter } from "./routes/settings";
+import { settingsService } from "./services/settingsService";
+import { importService } from "./services/importService";
+import { embeddingQueue } from "./services/embeddingQueue";
+import { userService } from "./services/userService";
+import { sessionService } from "./services/sessionService";
+import { loginThrottleService } from "./services/loginThrottleService";
+import { usersRouter } from "./routes/users";
+import { auditRouter } from "./routes/audit";
+import { analyticsRouter } from "./routes/analytics";
+import { gapsRouter } from "./routes/gaps";
+import { evalRouter } from "./routes/eval";
+import { requireRole } from "./middleware/requireRole";
 
 const app = express();
 
+// Needed behind a reverse proxy so req.ip (used for login throttling) is the client address.
+app.set("trust proxy", env.trustProxy);
+
 app.use(cors({ origin: true, credentials: true }));
 app.use(express.json());
 app.use(cookieParser());
@@ -27,12 +42,7 @@ app.get("/healthz", (_req, res) => {
 
 app.use("/api/auth", authRouter);
 
-console.log('=== DEBUG SERVER START ===');
-console.log('Listening on PORT:', env.PORT);
-console.log('Auth router mounted at /api/auth');
-console.log('===================');
-
-app.get("/api/metrics", authMiddleware, async (_req, res, next) => {
+app.get("/api/metrics", authMiddleware, async (req, res, next) => {
   try {
     const totalQa = qaService.count();
     let pineconeVectors: number | null = null;
@@ -41,23 +51,82 @@ app.get("/api/metrics", authMiddleware, async (_req, res, next) => {
       pineconeVectors = stats?.totalRecordCount ?? null;
     }
     const rerankUsage = rerankService.getUsageSummary();
-    res.json({ ok: true, totalQa, pineconeVectors, rerankUsage });
+    const embeddingQueueStats = embeddingQueue.stats();
+    res.json({
+      ok: true,
+      user: req.user,
+      totalQa,
+      pineconeVectors,
+      vectorStore: pineconeService.backend,
+      rerankUsage,
+      embeddingQueue: embeddingQueueStats,
+    });
   } catch (error) {
     next(error);
   }
 });
 
 app.use("/api/qa", authMiddleware, qaRouter);
-app.use("/api/search", authMiddleware, searchRouter);
+app.use("/api/search", authMiddleware, requireRole("operator"), searchRouter);
 app.use("/api/settings", authMiddleware, settingsRouter);
+app.use("/api/users", authMiddleware, requireRole("admin"), usersRouter);
+app.use("/api/audit", authMiddleware, requireRole("admin"), auditRouter);
+app.use("/api/analytics", authMiddleware, requireRole("editor"), analyticsRouter);
+app.use("/api/gaps", authMiddleware, requireRole("editor"), gapsRouter);
+app.use("/api/eval", authMiddleware, requireRole("editor"), evalRouter);
 
 app.use(errorHandler);
 
 const PORT = env.PORT;
 
-app.listen(PORT, () => {
-  console.log(`API listening on http://localhost:${PORT}`);
-});
+const SESSION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const purgeSessions = () => {
+  try {
+    const purged = sessionService.purgeExpired();
+    if (purged > 0) {
+      console.log(`[Sessions] Purged ${purged} expired or revoked session(s)`);
+    }
+    loginThrottleService.purgeStale();
+  } catch (error) {
+    console.error("[Sessions] Failed to purge expired sessions", error);
+  }
+};
+
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const purgeTrash = async () => {
+  try {
+    const { trashRetentionDays } = settingsService.get();
+    const purged = await qaService.purgeExpiredTrash(trashRetentionDays);
+    if (purged > 0) {
+      console.log(`[Trash] Purged ${purged} pair(s) deleted more than ${trashRetentionDays} day(s) ago`);
+    }
+  } catch (error) {
+    console.error("[Trash] Failed to purge expired trash", error);
+  }
+};
+
+const interruptedImports = importService.markInterruptedJobs();
+if (interruptedImports > 0) {
+  console.warn(`[Import] Marked ${interruptedImports} unfinished import job(s) as failed after restart`);
+}
+
+void userService
+  .ensureBootstrapAdmin()
+  .catch((error) => {
+    console.error("[Users] Failed to create the initial admin account", error);
+  })
+  .finally(() => {
+    app.listen(PORT, () => {
+      console.log(`API listening on http://localhost:${PORT}`);
+      embeddingQueue.start();
+      purgeSessions();
+      setInterval(purgeSessions, SESSION_PURGE_INTERVAL_MS).unref();
+      void purgeTrash();
+      setInterval(() => void purgeTrash(), TRASH_PURGE_INTERVAL_MS).unref();
+    });
+  });
 
 export default app;
 
@@ -0,0 +1,173 @@
+import { db } from "../lib/db";
+
+export const AUDIT_ACTIONS = [
+  "qa.create",
+  "qa.replace",
+  "qa.update",
+  "qa.restore",
+  "qa.submit",
+  "qa.approve",
+  "qa.reject",
+  "qa.archive",
+  "qa.delete",
+  "qa.trash_restore",
+  "qa.merge",
+  "qa.purge",
+  "qa.delete_all",
+  "qa.resync",
+  "qa.reconcile",
+  "settings.update",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ENTITY_TYPES = ["qa_pair", "settings"] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+/** Who performed a change; background work without a user is attributed to `system`. */
+export interface AuditActor {
+  id: string | null;
+  username: string;
+}
+
+export const SYSTEM_ACTOR: AuditActor = { id: null, username: "system" };
+
+export interface AuditEntry {
+  id: number;
+  created_at: string;
+  actor_id: string | null;
+  actor_username: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditListOptions {
+  page?: number;
+  pageSize?: number;
+  actor?: string;
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditListResult {
+  total: number;
+  page: number;
+  pageSize: number;
+  items: AuditEntry[];
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== "string") return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const mapRow = (row: any): AuditEntry => ({
+  id: row.id,
+  created_at: row.created_at,
+  actor_id: row.actor_id,
+  actor_username: row.actor_username,
+  action: row.action,
+  entity_type: row.entity_type,
+  entity_id: row.entity_id,
+  before: parseJson(row.before_json),
+  after: parseJson(row.after_json),
+});
+
+const insertStmt = db.prepare(
+  `INSERT INTO audit_log (created_at, actor_id, actor_username, action, entity_type, entity_id, before_json, after_json)
+   VALUES (@created_at, @actor_id, @actor_username, @action, @entity_type, @entity_id, @before_json, @after_json)`,
+);
+
+const buildFilterClause = (options: AuditListOptions) => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  if (options.actor) {
+    clauses.push("actor_username = ? COLLATE NOCASE");
+    params.push(options.actor);
+  }
+  if (options.action) {
+    clauses.push("action = ?");
+    params.push(options.action);
+  }
+  if (options.entityType) {
+    clauses.push("entity_type = ?");
+    params.push(options.entityType);
+  }
+  if (options.entityId) {
+    clauses.push("entity_id = ?");
+    params.push(options.entityId);
+  }
+  if (options.from) {
+    clauses.push("created_at >= ?");
+    params.push(options.from);
+  }
+  if (options.to) {
+    clauses.push("created_at <= ?");
+    params.push(options.to);
+  }
+  return {
+    where: clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "",
+    params,
+  };
+};
+
+export const auditService = {
+  /**
+   * Appends an entry. Callers invoke this inside the same transaction as the change it
+   * describes, so a mutation is never committed without its audit record.
+   */
+  record(entry: {
+    actor: AuditActor;
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId?: string | null;
+    before?: unknown;
+    after?: unknown;
+  }): void {
+    insertStmt.run({
+      created_at: new Date().toISOString(),
+      actor_id: entry.actor.id,
+      actor_username: entry.actor.username,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId ?? null,
+      before_json: entry.before === undefined ? null : JSON.stringify(entry.before),
+      after_json: entry.after === undefined ? null : JSON.stringify(entry.after),
+    });
+  },
+
+  list(options: AuditListOptions = {}): AuditListResult {
+    const page = Math.max(1, options.page ?? 1);
+    const pageSize = Math.max(1, Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, 200));
+    const { where, params } = buildFilterClause(options);
+    const total = db.prepare(`SELECT COUNT(*) as count FROM audit_log ${where}`).get(...params) as { count: number };
+    const items = db
+      .prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ? OFFSET ?`)
+      .all(...params, pageSize, (page - 1) * pageSize)
+      .map(mapRow);
+    return { total: total.count, page, pageSize, items };
+  },
+
+  listActors(): string[] {
+    const rows = db
+      .prepare("SELECT DISTINCT actor_username FROM audit_log ORDER BY actor_username COLLATE NOCASE")
+      .all() as { actor_username: string }[];
+    return rows.map((row) => row.actor_username);
+  },
+};
+
+export const actorFromUser = (user: { id: string; username: string } | undefined): AuditActor =>
+  user ? { id: user.id, username: user.username } : SYSTEM_ACTOR;
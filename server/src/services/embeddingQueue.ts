@@ -0,0 +1,231 @@
+import { db } from "../lib/db";
+import { env } from "../lib/env";
+import { qaService, type QAPair } from "./qaService";
+import { isRateLimitError } from "../lib/throttle";
+import { settingsService } from "./settingsService";
+
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+interface EmbeddingJobRow {
+  qa_id: string;
+  generation: number;
+  attempts: number;
+}
+
+export interface EmbeddingQueueStats {
+  queued: number;
+  retrying: number;
+  exhausted: number;
+  running: boolean;
+}
+
+const upsertJobStmt = db.prepare(
+  `INSERT INTO embedding_jobs (qa_id, generation, attempts, next_run_at, locked_at, last_error, updated_at)
+   VALUES (?, 1, 0, ?, NULL, NULL, CURRENT_TIMESTAMP)
+   ON CONFLICT(qa_id) DO UPDATE SET
+     generation = generation + 1,
+     attempts = 0,
+     next_run_at = excluded.next_run_at,
+     last_error = NULL,
+     updated_at = CURRENT_TIMESTAMP`,
+);
+
+const selectDueStmt = db.prepare(
+  `SELECT qa_id, generation, attempts FROM embedding_jobs
+   WHERE locked_at IS NULL AND attempts < ? AND next_run_at <= ?
+   ORDER BY next_run_at ASC
+   LIMIT ?`,
+);
+
+const lockStmt = db.prepare(
+  "UPDATE embedding_jobs SET locked_at = ? WHERE qa_id = ? AND locked_at IS NULL",
+);
+
+const completeStmt = db.prepare("DELETE FROM embedding_jobs WHERE qa_id = ? AND generation = ?");
+
+const unlockStmt = db.prepare("UPDATE embedding_jobs SET locked_at = NULL WHERE qa_id = ?");
+
+const failStmt = db.prepare(
+  `UPDATE embedding_jobs
+   SET attempts = attempts + 1, next_run_at = ?, last_error = ?, locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+   WHERE qa_id = ? AND generation = ?`,
+);
+
+const retryExhaustedStmt = db.prepare(
+  `UPDATE embedding_jobs
+   SET attempts = 0, next_run_at = ?, last_error = NULL, updated_at = CURRENT_TIMESTAMP
+   WHERE attempts >= ?`,
+);
+
+const backoffDelay = (attempts: number): number =>
+  Math.min(env.EMBEDDING_QUEUE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+
+const claimDueJobs = db.transaction((limit: number): EmbeddingJobRow[] => {
+  const now = new Date().toISOString();
+  const due = selectDueStmt.all(env.EMBEDDING_QUEUE_MAX_ATTEMPTS, now, limit) as EmbeddingJobRow[];
+  return due.filter((job) => lockStmt.run(now, job.qa_id).changes > 0);
+});
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const recordFailure = (job: EmbeddingJobRow, error: unknown): void => {
+  const attempts = job.attempts + 1;
+  const delay = backoffDelay(attempts);
+  const message = error instanceof Error ? error.message : String(error);
+  failStmt.run(new Date(Date.now() + delay).toISOString(), message, job.qa_id, job.generation);
+  unlockStmt.run(job.qa_id);
+  if (attempts >= env.EMBEDDING_QUEUE_MAX_ATTEMPTS) {
+    console.error(`[EmbeddingQueue] Giving up on QA ${job.qa_id} after ${attempts} attempts: ${message}`);
+  } else {
+    console.warn(`[EmbeddingQueue] QA ${job.qa_id} failed (attempt ${attempts}), retrying in ${delay}ms: ${message}`);
+  }
+};
+
+const completeJobs = async (entries: Array<{ job: EmbeddingJobRow; qa: QAPair }>): Promise<void> => {
+  for (const { job, qa } of entries) {
+    if (!qaService.getById(job.qa_id) && !qaService.getTrashedById(job.qa_id)) {
+      // Purged while the embedding was in flight; do not leave an orphan vector behind.
+      // Trashed pairs keep their vector like any other pair in the trash.
+      await qaService.removeVector(qa);
+      continue;
+    }
+    if (completeStmt.run(job.qa_id, job.generation).changes === 0) {
+      // The pair was edited while we were embedding it; the newer generation stays queued.
+      unlockStmt.run(job.qa_id);
+    }
+  }
+};
+
+const processJobs = async (jobs: EmbeddingJobRow[]): Promise<void> => {
+  const entries: Array<{ job: EmbeddingJobRow; qa: QAPair }> = [];
+  for (const job of jobs) {
+    const qa = qaService.getById(job.qa_id);
+    if (qa) {
+      entries.push({ job, qa });
+    } else {
+      completeStmt.run(job.qa_id, job.generation);
+    }
+  }
+  if (entries.length === 0) return;
+
+  try {
+    await qaService.syncVectors(entries.map((entry) => entry.qa));
+    await completeJobs(entries);
+    return;
+  } catch (error) {
+    // A rate limit affects every job equally, and a single job has nothing to isolate.
+    if (entries.length === 1 || isRateLimitError(error)) {
+      entries.forEach(({ job }) => recordFailure(job, error));
+      return;
+    }
+    console.warn(`[EmbeddingQueue] Batch of ${entries.length} failed, retrying jobs individually to isolate the bad one`);
+  }
+
+  for (const entry of entries) {
+    try {
+      await qaService.syncVector(entry.qa);
+      await completeJobs([entry]);
+    } catch (error) {
+      recordFailure(entry.job, error);
+    }
+  }
+};
+
+const tick = async (): Promise<void> => {
+  timer = null;
+  if (!running) return;
+
+  let claimed = 0;
+  try {
+    const jobs = claimDueJobs(settingsService.get().csvBatchSize);
+    claimed = jobs.length;
+    await processJobs(jobs);
+  } catch (error) {
+    console.error("[EmbeddingQueue] Worker tick failed", error);
+  }
+
+  if (running) {
+    timer = setTimeout(() => void tick(), claimed > 0 ? 0 : env.EMBEDDING_QUEUE_POLL_MS);
+  }
+};
+
+export const embeddingQueue = {
+  enqueue(qaId: string): void {
+    upsertJobStmt.run(qaId, new Date().toISOString());
+  },
+
+  enqueueMany(qaIds: string[]): void {
+    const now = new Date().toISOString();
+    db.transaction((ids: string[]) => {
+      for (const id of ids) {
+        upsertJobStmt.run(id, now);
+      }
+    })(qaIds);
+  },
+
+  /**
+   * Gives jobs that used up their attempts a fresh set; the worker never picks them up otherwise.
+   * Returns how many jobs were queued again.
+   */
+  retryExhausted(): number {
+    const { changes } = retryExhaustedStmt.run(new Date().toISOString(), env.EMBEDDING_QUEUE_MAX_ATTEMPTS);
+    if (changes > 0) {
+      console.log(`[EmbeddingQueue] Retrying ${changes} QA pair(s) that had exhausted their attempts`);
+    }
+    return changes;
+  },
+
+  /**
+   * Starts the worker loop. Locks left behind by a previous process are released, jobs that
+   * gave up are retried, and any pair still marked pending/failed without a job is queued again.
+   */
+  start(): void {
+    if (running) return;
+    running = true;
+
+    db.prepare("UPDATE embedding_jobs SET locked_at = NULL WHERE locked_at IS NOT NULL").run();
+    this.retryExhausted();
+    const seeded = db
+      .prepare(
+        `INSERT INTO embedding_jobs (qa_id, next_run_at)
+         SELECT id, ? FROM qa_pairs
+         WHERE embedding_status IN ('pending', 'failed')
+           AND id NOT IN (SELECT qa_id FROM embedding_jobs)`,
+      )
+      .run(new Date().toISOString());
+    if (seeded.changes > 0) {
+      console.log(`[EmbeddingQueue] Queued ${seeded.changes} pending/failed QA pair(s) on startup`);
+    }
+
+    timer = setTimeout(() => void tick(), 0);
+  },
+
+  stop(): void {
+    running = false;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  },
+
+  stats(): EmbeddingQueueStats {
+    const row = db
+      .prepare(
+        `SELECT
+           SUM(CASE WHEN attempts = 0 THEN 1 ELSE 0 END) AS queued,
+           SUM(CASE WHEN attempts > 0 AND attempts < ? THEN 1 ELSE 0 END) AS retrying,
+           SUM(CASE WHEN attempts >= ? THEN 1 ELSE 0 END) AS exhausted
+         FROM embedding_jobs`,
+      )
+      .get(env.EMBEDDING_QUEUE_MAX_ATTEMPTS, env.EMBEDDING_QUEUE_MAX_ATTEMPTS) as
+      | { queued: number | null; retrying: number | null; exhausted: number | null }
+      | undefined;
+    return {
+      queued: row?.queued ?? 0,
+      retrying: row?.retrying ?? 0,
+      exhausted: row?.exhausted ?? 0,
+      running,
+    };
+  },
+};
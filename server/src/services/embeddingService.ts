@@ -1,7 +1,9 @@
 import { env } from "../lib/env";
+import { createThrottle } from "../lib/throttle";
 import { pineconeClient } from "./pineconeClient";
+import { LOCAL_EMBEDDING_MODEL, localEmbed } from "./localEmbedding";
 
-const EMBEDDING_DIMENSION_FALLBACK = 1536;
+type EmbedInputType = "query" | "passage" | "document";
 
 interface EmbedResult {
   embedding: number[];
@@ -9,30 +11,48 @@ interface EmbedResult {
   dimension: number;
 }
 
-const fakeEmbedding = (text: string): number[] => {
-  const bytes = Buffer.from(text ?? "", "utf-8");
-  const len = Math.min(bytes.length, EMBEDDING_DIMENSION_FALLBACK);
-  const arr = new Array(EMBEDDING_DIMENSION_FALLBACK).fill(0);
-  for (let i = 0; i < len; i++) {
-    const value = bytes[i];
-    if (typeof value === "number") {
-      arr[i] = value / 255;
+interface EmbedManyResult {
+  embeddings: number[][];
+  model: string;
+  dimension: number;
+}
+
+/** Pinecone Inference accepts at most 96 inputs per embed request. */
+const PINECONE_EMBED_BATCH_LIMIT = 96;
+
+const embedThrottle = createThrottle({ name: "embed", minDelayMs: 0 });
+
+const extractValues = (item: unknown): number[] | undefined => {
+  if (!item || typeof item !== "object") return undefined;
+  if ("values" in item && Array.isArray(item.values)) {
+    return item.values as number[];
+  }
+  if ("vectorType" in item && item.vectorType === "dense" && "dense" in item) {
+    const dense = item as { dense?: { values?: number[] } };
+    if (dense.dense && Array.isArray(dense.dense.values)) {
+      return dense.dense.values;
     }
   }
-  return arr;
+  return undefined;
 };
 
 export const embeddingService = {
   isConfigured(): boolean {
-    return env.pineconeConfigured && Boolean(env.PINECONE_EMBED_MODEL);
+    return env.embeddingProvider === "pinecone" && env.pineconeConfigured && Boolean(env.PINECONE_EMBED_MODEL);
   },
 
-  async embed(text: string, inputType?: "query" | "passage" | "document"): Promise<EmbedResult> {
+  async embed(text: string, inputType?: EmbedInputType): Promise<EmbedResult> {
+    const { embeddings, model, dimension } = await this.embedMany([text], inputType);
+    return { embedding: embeddings[0]!, model, dimension };
+  },
+
+  /** Embeds texts in as few provider calls as possible; output order matches input order. */
+  async embedMany(texts: string[], inputType?: EmbedInputType): Promise<EmbedManyResult> {
     if (!this.isConfigured()) {
       return {
-        embedding: fakeEmbedding(text),
-        model: "local-fake",
-        dimension: EMBEDDING_DIMENSION_FALLBACK,
+        embeddings: texts.map((text) => localEmbed(text, env.LOCAL_EMBEDDING_DIMENSION)),
+        model: LOCAL_EMBEDDING_MODEL,
+        dimension: env.LOCAL_EMBEDDING_DIMENSION,
       };
     }
 
@@ -42,32 +62,34 @@ export const embeddingService = {
     }
 
     const finalInputType = inputType ?? env.PINECONE_EMBED_INPUT_TYPE ?? "passage";
-    const response = await inference.embed(env.PINECONE_EMBED_MODEL!, [text], {
-      inputType: finalInputType,
-    });
+    const embeddings: number[][] = [];
+    let model = env.PINECONE_EMBED_MODEL!;
 
-    const first = response.data?.[0];
-    let embedding: number[] | undefined;
-    if (first) {
-      if ("values" in first && Array.isArray(first.values)) {
-        embedding = first.values as number[];
-      } else if ("vectorType" in first && first.vectorType === "dense" && "dense" in first) {
-        const dense = first as { dense?: { values?: number[] } };
-        if (dense.dense && Array.isArray(dense.dense.values)) {
-          embedding = dense.dense.values;
+    for (let offset = 0; offset < texts.length; offset += PINECONE_EMBED_BATCH_LIMIT) {
+      const batch = texts.slice(offset, offset + PINECONE_EMBED_BATCH_LIMIT);
+      const response = await embedThrottle.run(() =>
+        inference.embed(env.PINECONE_EMBED_MODEL!, batch, {
+          inputType: finalInputType,
+        }),
+      );
+      const data = response.data ?? [];
+      if (data.length !== batch.length) {
+        throw new Error(`Pinecone embed returned ${data.length} embeddings for ${batch.length} inputs`);
+      }
+      for (const item of data) {
+        const values = extractValues(item);
+        if (!values) {
+          throw new Error("Pinecone embed response missing values");
         }
+        embeddings.push(values);
       }
-    }
-    if (!embedding) {
-      throw new Error("Pinecone embed response missing values");
+      model = response.model ?? model;
     }
 
     return {
-      embedding,
-      model: response.model ?? env.PINECONE_EMBED_MODEL!,
-      dimension: embedding.length,
+      embeddings,
+      model,
+      dimension: embeddings[0]?.length ?? 0,
     };
   },
 };
-
-
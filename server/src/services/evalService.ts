@@ -0,0 +1,355 @@
+import { db } from "../lib/db";
+import { HttpError } from "../lib/httpError";
+import { qaService, parseTagList } from "./qaService";
+import { searchService } from "./searchService";
+import { pineconeService } from "./pineconeService";
+import { rerankService } from "./rerankService";
+import { settingsService, type AppSettings } from "./settingsService";
+import { SYSTEM_ACTOR, type AuditActor } from "./auditService";
+
+/** A query with the pairs a good search should return for it. */
+export interface GoldenQuery {
+  id: number;
+  query: string;
+  expectedIds: string[];
+  language: string | null;
+  category: string | null;
+  tags: string[];
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GoldenQueryInput {
+  query: string;
+  expectedIds: string[];
+  language?: string | null;
+  category?: string | null;
+  tags?: string[];
+  note?: string | null;
+}
+
+/** Metrics averaged over the golden set; all lie between 0 and 1. */
+export interface EvalMetrics {
+  recallAtK: number;
+  mrr: number;
+  ndcgAtK: number;
+  /** Share of queries where no result was shown at all. */
+  emptyRate: number;
+}
+
+export const EVAL_MODES = ["withRerank", "withoutRerank"] as const;
+
+export type EvalMode = (typeof EVAL_MODES)[number];
+
+export interface EvalQueryResult {
+  rankedIds: string[];
+  /** 1-based rank of the first expected pair, or null when none made the top k. */
+  firstRelevantRank: number | null;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+}
+
+export interface EvalQueryDetail {
+  goldenId: number;
+  query: string;
+  expectedIds: string[];
+  results: Partial<Record<EvalMode, EvalQueryResult>>;
+}
+
+/** What the pipeline looked like when a run was made, so runs before and after a change can be told apart. */
+export interface EvalConfig {
+  vectorBackend: string;
+  vectorIndex: string | null;
+  embeddingModel: string;
+  rerankModels: string[];
+  settings: AppSettings;
+}
+
+export interface EvalRun {
+  id: number;
+  createdAt: string;
+  triggeredBy: string;
+  note: string | null;
+  k: number;
+  queryCount: number;
+  config: EvalConfig;
+  /** Null for a mode that could not run, e.g. with rerank when no rerank model is configured. */
+  metrics: Record<EvalMode, EvalMetrics | null>;
+  durationMs: number;
+}
+
+export interface EvalRunWithDetails extends EvalRun {
+  details: EvalQueryDetail[];
+}
+
+interface GoldenRow {
+  id: number;
+  query: string;
+  expected_ids: string;
+  language: string | null;
+  category: string | null;
+  tags: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EvalRunRow {
+  id: number;
+  created_at: string;
+  triggered_by: string;
+  note: string | null;
+  k: number;
+  query_count: number;
+  config: string;
+  metrics: string;
+  details: string;
+  duration_ms: number;
+}
+
+const DEFAULT_RUNS_PAGE_SIZE = 20;
+
+const selectGoldenStmt = db.prepare("SELECT * FROM golden_queries ORDER BY id");
+const selectGoldenByIdStmt = db.prepare("SELECT * FROM golden_queries WHERE id = ?");
+const insertGoldenStmt = db.prepare(
+  `INSERT INTO golden_queries (query, expected_ids, language, category, tags, note, created_by, created_at, updated_at)
+   VALUES (@query, @expected_ids, @language, @category, @tags, @note, @created_by, @created_at, @updated_at)`,
+);
+const updateGoldenStmt = db.prepare(
+  `UPDATE golden_queries
+   SET query = @query, expected_ids = @expected_ids, language = @language, category = @category,
+       tags = @tags, note = @note, updated_at = @updated_at
+   WHERE id = @id`,
+);
+const deleteGoldenStmt = db.prepare("DELETE FROM golden_queries WHERE id = ?");
+const insertRunStmt = db.prepare(
+  `INSERT INTO eval_runs (created_at, triggered_by, note, k, query_count, config, metrics, details, duration_ms)
+   VALUES (@created_at, @triggered_by, @note, @k, @query_count, @config, @metrics, @details, @duration_ms)`,
+);
+const selectRunStmt = db.prepare("SELECT * FROM eval_runs WHERE id = ?");
+
+const mapGolden = (row: GoldenRow): GoldenQuery => ({
+  id: row.id,
+  query: row.query,
+  expectedIds: JSON.parse(row.expected_ids) as string[],
+  language: row.language,
+  category: row.category,
+  tags: parseTagList(row.tags ?? undefined),
+  note: row.note,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const mapRun = (row: EvalRunRow): EvalRun => ({
+  id: row.id,
+  createdAt: row.created_at,
+  triggeredBy: row.triggered_by,
+  note: row.note,
+  k: row.k,
+  queryCount: row.query_count,
+  config: JSON.parse(row.config) as EvalConfig,
+  metrics: JSON.parse(row.metrics) as Record<EvalMode, EvalMetrics | null>,
+  durationMs: row.duration_ms,
+});
+
+/** Expected ids must name existing pairs; a typo would otherwise count as a miss in every run. */
+const normaliseExpectedIds = (ids: string[]): string[] => {
+  const unique = Array.from(new Set(ids.map((id) => id.trim()).filter((id) => id.length > 0)));
+  if (unique.length === 0) {
+    throw new HttpError(400, "At least one expected QA id is required");
+  }
+  const unknown = unique.filter((id) => !qaService.getById(id));
+  if (unknown.length > 0) {
+    throw new HttpError(400, `Unknown QA ids: ${unknown.join(", ")}`);
+  }
+  return unique;
+};
+
+const toGoldenParams = (input: GoldenQueryInput) => ({
+  query: input.query.trim(),
+  expected_ids: JSON.stringify(normaliseExpectedIds(input.expectedIds)),
+  language: input.language?.trim().toLowerCase() || null,
+  category: input.category?.trim() || null,
+  tags: input.tags && input.tags.length > 0 ? input.tags.join(",") : null,
+  note: input.note?.trim() || null,
+});
+
+/** Binary-relevance scores of one ranked list against the expected ids, cut at k. */
+const scoreRanking = (rankedIds: string[], expectedIds: string[], k: number): EvalQueryResult => {
+  const expected = new Set(expectedIds);
+  const top = rankedIds.slice(0, k);
+  const hits = top.map((id) => expected.has(id));
+  const firstHit = hits.indexOf(true);
+  const dcg = hits.reduce((sum, hit, index) => (hit ? sum + 1 / Math.log2(index + 2) : sum), 0);
+  let idealDcg = 0;
+  for (let index = 0; index < Math.min(expected.size, k); index += 1) {
+    idealDcg += 1 / Math.log2(index + 2);
+  }
+  return {
+    rankedIds: top,
+    firstRelevantRank: firstHit === -1 ? null : firstHit + 1,
+    recall: expected.size > 0 ? hits.filter(Boolean).length / expected.size : 0,
+    reciprocalRank: firstHit === -1 ? 0 : 1 / (firstHit + 1),
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+  };
+};
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const summarise = (results: EvalQueryResult[]): EvalMetrics => ({
+  recallAtK: average(results.map((result) => result.recall)),
+  mrr: average(results.map((result) => result.reciprocalRank)),
+  ndcgAtK: average(results.map((result) => result.ndcg)),
+  emptyRate: average(results.map((result) => (result.rankedIds.length === 0 ? 1 : 0))),
+});
+
+// Runs go through the reranker and the embedding provider, so only one runs at a time.
+let runInProgress = false;
+
+export const evalService = {
+  listGolden(): GoldenQuery[] {
+    return (selectGoldenStmt.all() as GoldenRow[]).map(mapGolden);
+  },
+
+  getGolden(id: number): GoldenQuery | null {
+    const row = selectGoldenByIdStmt.get(id) as GoldenRow | undefined;
+    return row ? mapGolden(row) : null;
+  },
+
+  createGolden(input: GoldenQueryInput, actor: AuditActor = SYSTEM_ACTOR): GoldenQuery {
+    const now = new Date().toISOString();
+    const info = insertGoldenStmt.run({
+      ...toGoldenParams(input),
+      created_by: actor.username,
+      created_at: now,
+      updated_at: now,
+    });
+    return this.getGolden(Number(info.lastInsertRowid))!;
+  },
+
+  /** Replaces a golden query; returns null when it does not exist. */
+  updateGolden(id: number, input: GoldenQueryInput): GoldenQuery | null {
+    if (!this.getGolden(id)) return null;
+    updateGoldenStmt.run({ ...toGoldenParams(input), updated_at: new Date().toISOString(), id });
+    return this.getGolden(id);
+  },
+
+  deleteGolden(id: number): boolean {
+    return deleteGoldenStmt.run(id).changes > 0;
+  },
+
+  /**
+   * Runs every golden query through the current search pipeline twice, with and without
+   * rerank, and stores the scores with a snapshot of the configuration. Nothing is written
+   * to the search log or the gap inbox. `k` defaults to the `topResultsCount` setting, and
+   * `log` receives the pipeline's progress lines.
+   */
+  async run(
+    options: { k?: number; note?: string | null; log?: (line: string) => void } = {},
+    actor: AuditActor = SYSTEM_ACTOR,
+  ): Promise<EvalRunWithDetails> {
+    if (runInProgress) {
+      throw new HttpError(409, "An evaluation is already running");
+    }
+    const golden = this.listGolden();
+    if (golden.length === 0) {
+      throw new HttpError(400, "The golden set is empty; add queries before running an evaluation");
+    }
+
+    runInProgress = true;
+    try {
+      const startedAt = Date.now();
+      const settings = settingsService.get();
+      const k = options.k ?? settings.topResultsCount;
+      // Without a rerank model both modes would measure the same thing, so only one is run.
+      const modes = EVAL_MODES.filter((mode) => mode === "withoutRerank" || rerankService.isConfigured());
+
+      const details: EvalQueryDetail[] = [];
+      for (const entry of golden) {
+        const detail: EvalQueryDetail = {
+          goldenId: entry.id,
+          query: entry.query,
+          expectedIds: entry.expectedIds,
+          results: {},
+        };
+        for (const mode of modes) {
+          const outcome = await searchService.search({
+            query: entry.query,
+            topK: k,
+            ...(entry.category ? { category: entry.category } : {}),
+            tags: entry.tags,
+            ...(entry.language ? { language: entry.language } : {}),
+            rerank: mode === "withRerank",
+            ...(options.log ? { log: options.log } : {}),
+          });
+          // Ranked by score, as the search page shows them; without rerank the pipeline returns fused order.
+          const ranked = [...outcome.matches].sort((a, b) => b.score - a.score);
+          detail.results[mode] = scoreRanking(
+            ranked.map((match) => match.id),
+            entry.expectedIds,
+            k,
+          );
+        }
+        details.push(detail);
+      }
+
+      const metrics = Object.fromEntries(
+        EVAL_MODES.map((mode) => [
+          mode,
+          modes.includes(mode)
+            ? summarise(details.map((detail) => detail.results[mode]).filter((result) => result !== undefined))
+            : null,
+        ]),
+      ) as Record<EvalMode, EvalMetrics | null>;
+      const config: EvalConfig = {
+        vectorBackend: pineconeService.backend,
+        vectorIndex: pineconeService.indexName,
+        embeddingModel: settings.model,
+        rerankModels: rerankService.isConfigured() ? rerankService.candidateModels() : [],
+        settings,
+      };
+
+      const info = insertRunStmt.run({
+        created_at: new Date().toISOString(),
+        triggered_by: actor.username,
+        note: options.note?.trim() || null,
+        k,
+        query_count: golden.length,
+        config: JSON.stringify(config),
+        metrics: JSON.stringify(metrics),
+        details: JSON.stringify(details),
+        duration_ms: Date.now() - startedAt,
+      });
+      return this.getRun(Number(info.lastInsertRowid))!;
+    } finally {
+      runInProgress = false;
+    }
+  },
+
+  /** Past runs, newest first, without their per-query details. */
+  listRuns(options: { page?: number; pageSize?: number } = {}): {
+    total: number;
+    page: number;
+    pageSize: number;
+    items: EvalRun[];
+  } {
+    const page = Math.max(1, options.page ?? 1);
+    const pageSize = Math.max(1, Math.min(options.pageSize ?? DEFAULT_RUNS_PAGE_SIZE, 100));
+    const total = db.prepare("SELECT COUNT(*) AS count FROM eval_runs").get() as { count: number };
+    const rows = db
+      .prepare("SELECT * FROM eval_runs ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?")
+      .all(pageSize, (page - 1) * pageSize) as EvalRunRow[];
+    return { total: total.count, page, pageSize, items: rows.map(mapRun) };
+  },
+
+  getRun(id: number): EvalRunWithDetails | null {
+    const row = selectRunStmt.get(id) as EvalRunRow | undefined;
+    return row ? { ...mapRun(row), details: JSON.parse(row.details) as EvalQueryDetail[] } : null;
+  },
+};
@@ -0,0 +1,89 @@
+import { db } from "../lib/db";
+import { HttpError } from "../lib/httpError";
+import { searchLogService } from "./searchLogService";
+import { qaService, type FeedbackSummary } from "./qaService";
+import type { AuditActor } from "./auditService";
+
+export const FEEDBACK_KINDS = ["helpful", "unhelpful", "used"] as const;
+
+export type FeedbackKind = (typeof FEEDBACK_KINDS)[number];
+
+export interface FeedbackInput {
+  searchId: number;
+  resultId: string;
+  kind: FeedbackKind;
+}
+
+/** What one operator has said about one result of one search, plus the pair's running totals. */
+export interface FeedbackState {
+  searchId: number;
+  resultId: string;
+  vote: "helpful" | "unhelpful" | null;
+  used: boolean;
+  feedback: FeedbackSummary;
+}
+
+const OPPOSITE_VOTE: Partial<Record<FeedbackKind, FeedbackKind>> = {
+  helpful: "unhelpful",
+  unhelpful: "helpful",
+};
+
+const insertStmt = db.prepare(
+  `INSERT OR IGNORE INTO search_feedback (search_id, qa_id, kind, user_id, username, created_at)
+   VALUES (?, ?, ?, ?, ?, ?)`,
+);
+const deleteKindStmt = db.prepare(
+  "DELETE FROM search_feedback WHERE search_id = ? AND qa_id = ? AND user_id IS ? AND kind = ?",
+);
+const selectKindsStmt = db.prepare(
+  "SELECT kind FROM search_feedback WHERE search_id = ? AND qa_id = ? AND user_id IS ?",
+);
+
+export const feedbackService = {
+  /**
+   * Records a vote or a use for one result of a logged search. Feedback is only accepted from
+   * the operator who ran the search and for pairs it actually showed, and a new vote replaces
+   * the operator's opposite one.
+   */
+  record(input: FeedbackInput, actor: AuditActor): FeedbackState {
+    const search = searchLogService.getResults(input.searchId);
+    // Someone else's search is reported as missing rather than confirming that it exists.
+    if (!search || actor.id === null || search.userId !== actor.id) {
+      throw new HttpError(404, "Search not found");
+    }
+    if (!search.resultIds.includes(input.resultId)) {
+      throw new HttpError(400, "Result was not part of this search");
+    }
+    if (!qaService.getById(input.resultId)) {
+      throw new HttpError(404, "QA pair not found");
+    }
+
+    return db.transaction((): FeedbackState => {
+      const opposite = OPPOSITE_VOTE[input.kind];
+      if (opposite) {
+        deleteKindStmt.run(input.searchId, input.resultId, actor.id, opposite);
+      }
+      insertStmt.run(
+        input.searchId,
+        input.resultId,
+        input.kind,
+        actor.id,
+        actor.username,
+        new Date().toISOString(),
+      );
+
+      const kinds = new Set(
+        (selectKindsStmt.all(input.searchId, input.resultId, actor.id) as { kind: FeedbackKind }[]).map(
+          (row) => row.kind,
+        ),
+      );
+      return {
+        searchId: input.searchId,
+        resultId: input.resultId,
+        vote: kinds.has("helpful") ? "helpful" : kinds.has("unhelpful") ? "unhelpful" : null,
+        used: kinds.has("used"),
+        feedback: qaService.getById(input.resultId)!.feedback,
+      };
+    })();
+  },
+};
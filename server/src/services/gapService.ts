@@ -0,0 +1,242 @@
+import { db } from "../lib/db";
+import { HttpError } from "../lib/httpError";
+import { dot, fromBlob, normaliseVector, toBlob } from "../lib/vectorMath";
+import { normaliseQuery } from "./searchLogService";
+import { qaService, type QAPair } from "./qaService";
+import { SYSTEM_ACTOR, type AuditActor } from "./auditService";
+
+export const GAP_STATUSES = ["open", "drafted", "dismissed"] as const;
+
+export type GapStatus = (typeof GAP_STATUSES)[number];
+
+export interface GapQuery {
+  query: string;
+  count: number;
+  lastSeenAt: string;
+}
+
+/** A group of unanswered searches that are about the same thing. */
+export interface Gap {
+  id: number;
+  status: GapStatus;
+  language: string | null;
+  queryCount: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  draftQaId: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  /** Distinct queries in the group, most frequent first. */
+  queries: GapQuery[];
+}
+
+export interface GapListResult {
+  total: number;
+  page: number;
+  pageSize: number;
+  items: Gap[];
+  statusCounts: Record<GapStatus, number>;
+}
+
+export interface MissInput {
+  searchId: number | null;
+  query: string;
+  language: string | null;
+  embedding: number[];
+}
+
+/** A miss joins the closest group whose centre is at least this similar to its query; otherwise it starts a new one. */
+const GAP_GROUP_THRESHOLD = 0.85;
+const DEFAULT_PAGE_SIZE = 20;
+/** Distinct queries listed per group. */
+const GAP_QUERY_LIMIT = 10;
+/** Matches the per-pair cap on question variants. */
+const MAX_DRAFT_VARIANTS = 20;
+
+interface GapRow {
+  id: number;
+  status: GapStatus;
+  language: string | null;
+  dimension: number;
+  centroid: Buffer;
+  query_count: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  draft_qa_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+}
+
+const selectGapQueriesStmt = db.prepare(
+  `SELECT query, COUNT(*) AS count, MAX(created_at) AS lastSeenAt
+   FROM search_gap_queries
+   WHERE gap_id = ?
+   GROUP BY normalized_query
+   ORDER BY count DESC, lastSeenAt DESC
+   LIMIT ?`,
+);
+const selectByIdStmt = db.prepare("SELECT * FROM search_gaps WHERE id = ?");
+// Dismissed groups still collect matching misses, so noise that was dismissed once stays out of the inbox.
+const selectCandidatesStmt = db.prepare(
+  "SELECT id, centroid FROM search_gaps WHERE status IN ('open', 'dismissed') AND dimension = ?",
+);
+const insertGapStmt = db.prepare(
+  `INSERT INTO search_gaps (status, language, dimension, centroid, query_count, first_seen_at, last_seen_at)
+   VALUES ('open', ?, ?, ?, 0, ?, ?)`,
+);
+const addToGapStmt = db.prepare(
+  "UPDATE search_gaps SET centroid = ?, query_count = query_count + 1, last_seen_at = ? WHERE id = ?",
+);
+const insertQueryStmt = db.prepare(
+  `INSERT INTO search_gap_queries (gap_id, search_id, query, normalized_query, created_at)
+   VALUES (?, ?, ?, ?, ?)`,
+);
+const setStatusStmt = db.prepare(
+  `UPDATE search_gaps SET status = ?, draft_qa_id = ?, resolved_by = ?, resolved_at = ? WHERE id = ?`,
+);
+
+const mapRow = (row: GapRow): Gap => ({
+  id: row.id,
+  status: row.status,
+  language: row.language,
+  queryCount: row.query_count,
+  firstSeenAt: row.first_seen_at,
+  lastSeenAt: row.last_seen_at,
+  draftQaId: row.draft_qa_id,
+  resolvedBy: row.resolved_by,
+  resolvedAt: row.resolved_at,
+  queries: selectGapQueriesStmt.all(row.id, GAP_QUERY_LIMIT) as GapQuery[],
+});
+
+const requireStatus = (gap: GapRow | undefined, expected: GapStatus, verb: string): GapRow | null => {
+  if (!gap) return null;
+  if (gap.status !== expected) {
+    throw new HttpError(409, `Only ${expected} gaps can be ${verb}`);
+  }
+  return gap;
+};
+
+export const gapService = {
+  /** Files an unanswered search under the closest group, or opens a new group for it. */
+  recordMiss(input: MissInput): void {
+    const vector = normaliseVector(input.embedding);
+    if (vector.length === 0) return;
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      let best: { id: number; sum: Float32Array; score: number } | null = null;
+      for (const row of selectCandidatesStmt.all(vector.length) as { id: number; centroid: Buffer }[]) {
+        const sum = fromBlob(row.centroid);
+        const score = dot(normaliseVector(Array.from(sum)), vector);
+        if (score >= GAP_GROUP_THRESHOLD && (!best || score > best.score)) {
+          best = { id: row.id, sum, score };
+        }
+      }
+
+      let gapId: number;
+      let sum: Float32Array;
+      if (best) {
+        gapId = best.id;
+        sum = best.sum;
+      } else {
+        sum = new Float32Array(vector.length);
+        gapId = Number(insertGapStmt.run(input.language, vector.length, toBlob(sum), now, now).lastInsertRowid);
+      }
+      vector.forEach((value, index) => {
+        sum[index] = sum[index]! + value;
+      });
+      addToGapStmt.run(toBlob(sum), now, gapId);
+      insertQueryStmt.run(gapId, input.searchId, input.query, normaliseQuery(input.query), now);
+    })();
+  },
+
+  list(options: { status?: GapStatus; page?: number; pageSize?: number } = {}): GapListResult {
+    const status = options.status ?? "open";
+    const page = Math.max(1, options.page ?? 1);
+    const pageSize = Math.max(1, Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, 100));
+    const total = db.prepare("SELECT COUNT(*) AS count FROM search_gaps WHERE status = ?").get(status) as {
+      count: number;
+    };
+    // The biggest groups are the most asked-for missing content, so they come first.
+    const items = (
+      db
+        .prepare(
+          `SELECT * FROM search_gaps WHERE status = ?
+           ORDER BY query_count DESC, last_seen_at DESC
+           LIMIT ? OFFSET ?`,
+        )
+        .all(status, pageSize, (page - 1) * pageSize) as GapRow[]
+    ).map(mapRow);
+    const counts = db.prepare("SELECT status, COUNT(*) AS count FROM search_gaps GROUP BY status").all() as {
+      status: GapStatus;
+      count: number;
+    }[];
+    const statusCounts = Object.fromEntries(GAP_STATUSES.map((value) => [value, 0])) as Record<GapStatus, number>;
+    for (const row of counts) {
+      statusCounts[row.status] = row.count;
+    }
+    return { total: total.count, page, pageSize, items, statusCounts };
+  },
+
+  getById(id: number): Gap | null {
+    const row = selectByIdStmt.get(id) as GapRow | undefined;
+    return row ? mapRow(row) : null;
+  },
+
+  /**
+   * Turns an open group into a draft pair: the most frequent query (or `question`) becomes
+   * the question and the other queries its variants, so the pair is found the way people
+   * actually asked. The answer is required, like on any other pair.
+   * Returns null when the group does not exist.
+   */
+  createDraft(
+    id: number,
+    input: { question?: string; answer: string },
+    actor: AuditActor = SYSTEM_ACTOR,
+  ): { gap: Gap; item: QAPair } | null {
+    if (!input.answer.trim()) {
+      throw new HttpError(400, "Answer is required");
+    }
+    return db.transaction((): { gap: Gap; item: QAPair } | null => {
+      const gap = requireStatus(selectByIdStmt.get(id) as GapRow | undefined, "open", "turned into a draft");
+      if (!gap) return null;
+      const queries = (selectGapQueriesStmt.all(id, MAX_DRAFT_VARIANTS + 1) as GapQuery[]).map((entry) => entry.query);
+      const question = input.question?.trim() || queries[0];
+      if (!question) {
+        throw new HttpError(409, "The gap has no queries to draft from");
+      }
+      if (qaService.getByQuestion(question)) {
+        throw new HttpError(409, "A pair with this question already exists");
+      }
+      const { record } = qaService.create(
+        {
+          question,
+          answer: input.answer,
+          ...(gap.language ? { language: gap.language } : {}),
+          variants: queries.filter((query) => query !== question).slice(0, MAX_DRAFT_VARIANTS),
+          status: "draft",
+        },
+        actor,
+      );
+      setStatusStmt.run("drafted", record.id, actor.username, new Date().toISOString(), id);
+      return { gap: this.getById(id)!, item: record };
+    })();
+  },
+
+  dismiss(id: number, actor: AuditActor = SYSTEM_ACTOR): Gap | null {
+    return db.transaction((): Gap | null => {
+      if (!requireStatus(selectByIdStmt.get(id) as GapRow | undefined, "open", "dismissed")) return null;
+      setStatusStmt.run("dismissed", null, actor.username, new Date().toISOString(), id);
+      return this.getById(id);
+    })();
+  },
+
+  /** Puts a dismissed group back into the inbox. */
+  reopen(id: number): Gap | null {
+    return db.transaction((): Gap | null => {
+      if (!requireStatus(selectByIdStmt.get(id) as GapRow | undefined, "dismissed", "reopened")) return null;
+      setStatusStmt.run("open", null, null, null, id);
+      return this.getById(id);
+    })();
+  },
+};
@@ -0,0 +1,365 @@
+import { randomUUID } from "node:crypto";
+import { rm } from "node:fs/promises";
+import { parseFile, writeToString } from "fast-csv";
+import { stream } from "exceljs";
+import { db } from "../lib/db";
+import { HttpError } from "../lib/httpError";
+import { qaService, type QaStatus } from "./qaService";
+import { embeddingQueue } from "./embeddingQueue";
+import { settingsService } from "./settingsService";
+import { SYSTEM_ACTOR, type AuditActor } from "./auditService";
+
+export type ImportFormat = "csv" | "xlsx";
+
+export type ImportJobStatus = "queued" | "running" | "completed" | "failed";
+
+export type ImportRowOutcome = "created" | "replaced" | "failed";
+
+export interface ImportJob {
+  id: string;
+  file_name: string;
+  format: ImportFormat;
+  status: ImportJobStatus;
+  batch_size: number;
+  total_rows: number;
+  processed_rows: number;
+  created_rows: number;
+  replaced_rows: number;
+  failed_rows: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+export interface ImportJobRow {
+  row_number: number;
+  outcome: ImportRowOutcome;
+  qa_id: string | null;
+  question: string | null;
+  error: string | null;
+}
+
+interface ParsedRow {
+  rowNumber: number;
+  question?: string;
+  answer?: string;
+  language?: string;
+}
+
+const QUESTION_HEADERS = ["question", "qestion"];
+const ANSWER_HEADERS = ["answer", "ans"];
+const LANGUAGE_HEADERS = ["language", "lang"];
+
+const mapJob = (row: any): ImportJob => ({
+  id: row.id,
+  file_name: row.file_name,
+  format: row.format,
+  status: row.status,
+  batch_size: row.batch_size,
+  total_rows: row.total_rows,
+  processed_rows: row.processed_rows,
+  created_rows: row.created_rows,
+  replaced_rows: row.replaced_rows,
+  failed_rows: row.failed_rows,
+  error: row.error,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+  finished_at: row.finished_at,
+});
+
+const mapJobRow = (row: any): ImportJobRow => ({
+  row_number: row.row_number,
+  outcome: row.outcome,
+  qa_id: row.qa_id,
+  question: row.question,
+  error: row.error,
+});
+
+const selectJobStmt = db.prepare("SELECT * FROM import_jobs WHERE id = ?");
+const insertRowStmt = db.prepare(
+  `INSERT OR REPLACE INTO import_job_rows (job_id, row_number, outcome, qa_id, question, error)
+   VALUES (?, ?, ?, ?, ?, ?)`,
+);
+const selectFailuresStmt = db.prepare(
+  `SELECT * FROM import_job_rows WHERE job_id = ? AND outcome = 'failed' ORDER BY row_number ASC LIMIT ?`,
+);
+
+const setJobStatus = (id: string, status: ImportJobStatus, error: string | null = null) => {
+  const finished = status === "completed" || status === "failed";
+  db.prepare(
+    `UPDATE import_jobs
+     SET status = ?, error = ?, updated_at = CURRENT_TIMESTAMP, finished_at = CASE WHEN ? THEN CURRENT_TIMESTAMP ELSE finished_at END
+     WHERE id = ?`,
+  ).run(status, error, finished ? 1 : 0, id);
+};
+
+const cleanCell = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  const text = String(value).trim();
+  return text.length > 0 ? text : undefined;
+};
+
+const pickField = (record: Record<string, unknown>, candidates: string[]): string | undefined => {
+  for (const key of candidates) {
+    const value = cleanCell(record[key]);
+    if (value) return value;
+  }
+  return undefined;
+};
+
+const toParsedRow = (record: Record<string, unknown>, rowNumber: number): ParsedRow => {
+  const question = pickField(record, QUESTION_HEADERS);
+  const answer = pickField(record, ANSWER_HEADERS);
+  const language = pickField(record, LANGUAGE_HEADERS);
+  return {
+    rowNumber,
+    ...(question !== undefined ? { question } : {}),
+    ...(answer !== undefined ? { answer } : {}),
+    ...(language !== undefined ? { language } : {}),
+  };
+};
+
+const isBlankRow = (row: ParsedRow) => !row.question && !row.answer && !row.language;
+
+const countLineBreaks = (values: Array<string | null | undefined>) =>
+  values.reduce((total, value) => total + (value?.match(/\n/g)?.length ?? 0), 0);
+
+/**
+ * Numbers rows by the file line they start on. The parser reports no positions, so blank lines
+ * are kept (and dropped later as blank rows) and line breaks inside quoted cells are counted;
+ * cells are left untrimmed here so none of those breaks are lost.
+ */
+async function* readCsv(filePath: string): AsyncGenerator<ParsedRow> {
+  let nextLine = 1;
+  const parser = parseFile<Record<string, string>, Record<string, string>>(filePath, {
+    headers: (headers) => {
+      nextLine += 1 + countLineBreaks(headers);
+      return headers.map((header) => header?.trim().toLowerCase());
+    },
+  });
+  try {
+    for await (const record of parser as AsyncIterable<Record<string, string>>) {
+      const rowNumber = nextLine;
+      nextLine += 1 + countLineBreaks(Object.values(record));
+      yield toParsedRow(record, rowNumber);
+    }
+  } catch (error) {
+    throw new HttpError(400, `Failed to parse CSV: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** Reads the first sheet; its first row holds the headers. */
+async function* readXlsx(filePath: string): AsyncGenerator<ParsedRow> {
+  const workbook = new stream.xlsx.WorkbookReader(filePath, {
+    worksheets: "emit",
+    sharedStrings: "cache",
+    styles: "cache",
+    hyperlinks: "ignore",
+    entries: "ignore",
+  });
+  let headers: string[] | null = null;
+  let sheetCount = 0;
+  try {
+    for await (const worksheet of workbook) {
+      sheetCount += 1;
+      for await (const row of worksheet) {
+        // Only the first sheet is imported. Later ones are still read through, since the reader
+        // removes the temporary files it buffers sheets in only once it reaches the end.
+        if (sheetCount > 1) continue;
+        const values: string[] = [];
+        row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+          values[colNumber - 1] = cell.text;
+        });
+        if (!headers) {
+          headers = Array.from(values, (value) => cleanCell(value)?.toLowerCase() ?? "");
+          continue;
+        }
+        const record: Record<string, unknown> = {};
+        headers.forEach((header, colIndex) => {
+          if (header) record[header] = values[colIndex];
+        });
+        yield toParsedRow(record, row.number);
+      }
+    }
+  } catch (error) {
+    throw new HttpError(400, `Failed to read XLSX file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!headers) {
+    throw new HttpError(400, "XLSX file is empty.");
+  }
+}
+
+/** Streams the non-blank rows of an uploaded file without loading it into memory. */
+async function* readRows(format: ImportFormat, filePath: string): AsyncGenerator<ParsedRow> {
+  for await (const row of format === "csv" ? readCsv(filePath) : readXlsx(filePath)) {
+    if (!isBlankRow(row)) yield row;
+  }
+}
+
+export const detectImportFormat = (fileName: string, mimeType?: string): ImportFormat | null => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".csv") || mimeType === "text/csv") return "csv";
+  if (
+    lower.endsWith(".xlsx") ||
+    lower.endsWith(".xlsm") ||
+    mimeType === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  ) {
+    return "xlsx";
+  }
+  return null;
+};
+
+/** Who an import runs for and how its rows are saved. */
+interface ImportAuthoring {
+  status: QaStatus;
+  actor: AuditActor;
+  /** Rows that repeat a published pair's question become pending edits instead of replacing it. */
+  holdPublishedEdits: boolean;
+}
+
+const processBatch = async (jobId: string, batch: ParsedRow[], authoring: ImportAuthoring) => {
+  const counts = { created: 0, replaced: 0, failed: 0 };
+
+  const persistBatch = db.transaction(() => {
+    for (const row of batch) {
+      if (!row.question || !row.answer) {
+        counts.failed += 1;
+        insertRowStmt.run(jobId, row.rowNumber, "failed", null, row.question ?? null, "Empty question or answer");
+        continue;
+      }
+      try {
+        const result = qaService.create(
+          {
+            question: row.question,
+            answer: row.answer,
+            ...(row.language ? { language: row.language } : {}),
+            status: authoring.status,
+          },
+          authoring.actor,
+          { holdPublishedEdits: authoring.holdPublishedEdits },
+        );
+        const outcome: ImportRowOutcome = result.replaced ? "replaced" : "created";
+        counts[outcome] += 1;
+        embeddingQueue.enqueue(result.record.id);
+        insertRowStmt.run(jobId, row.rowNumber, outcome, result.record.id, row.question, null);
+      } catch (error) {
+        counts.failed += 1;
+        const message = error instanceof Error ? error.message : String(error);
+        insertRowStmt.run(jobId, row.rowNumber, "failed", null, row.question, message);
+      }
+    }
+
+    db.prepare(
+      `UPDATE import_jobs
+       SET processed_rows = processed_rows + ?, created_rows = created_rows + ?, replaced_rows = replaced_rows + ?,
+           failed_rows = failed_rows + ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+    ).run(batch.length, counts.created, counts.replaced, counts.failed, jobId);
+  });
+
+  persistBatch();
+  // Yield between batches so large files do not starve the HTTP server or the embedding worker.
+  await new Promise((resolve) => setImmediate(resolve));
+};
+
+const runJob = async (
+  jobId: string,
+  file: { format: ImportFormat; filePath: string },
+  batchSize: number,
+  authoring: ImportAuthoring,
+) => {
+  setJobStatus(jobId, "running");
+  console.log(`[Import] Job ${jobId}: processing rows in batches of ${batchSize}`);
+  let batch: ParsedRow[] = [];
+  for await (const row of readRows(file.format, file.filePath)) {
+    batch.push(row);
+    if (batch.length >= batchSize) {
+      await processBatch(jobId, batch, authoring);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await processBatch(jobId, batch, authoring);
+  }
+  setJobStatus(jobId, "completed");
+  console.log(`[Import] Job ${jobId}: completed`);
+};
+
+export const importService = {
+  /**
+   * Reads the uploaded file once to validate and count its rows, then imports it in the
+   * background by reading it again batch by batch; neither pass holds the whole file in memory.
+   * Once the job has started it owns the file and removes it when done.
+   */
+  async start(input: {
+    fileName: string;
+    format: ImportFormat;
+    filePath: string;
+    /** Status every imported pair gets; defaults to published. */
+    status?: QaStatus;
+    actor?: AuditActor;
+    holdPublishedEdits?: boolean;
+  }): Promise<ImportJob> {
+    let totalRows = 0;
+    for await (const _row of readRows(input.format, input.filePath)) {
+      totalRows += 1;
+    }
+    if (totalRows === 0) {
+      throw new HttpError(400, "File contains no rows that could be parsed.");
+    }
+
+    const { csvBatchSize } = settingsService.get();
+    const id = randomUUID();
+    db.prepare(
+      `INSERT INTO import_jobs (id, file_name, format, status, batch_size, total_rows)
+       VALUES (?, ?, ?, 'queued', ?, ?)`,
+    ).run(id, input.fileName, input.format, csvBatchSize, totalRows);
+
+    const file = { format: input.format, filePath: input.filePath };
+    const authoring: ImportAuthoring = {
+      status: input.status ?? "published",
+      actor: input.actor ?? SYSTEM_ACTOR,
+      holdPublishedEdits: input.holdPublishedEdits ?? false,
+    };
+    void runJob(id, file, csvBatchSize, authoring)
+      .catch((error) => {
+        console.error(`[Import] Job ${id} failed:`, error);
+        setJobStatus(id, "failed", error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => rm(input.filePath, { force: true }));
+
+    return this.getJob(id)!;
+  },
+
+  getJob(id: string): ImportJob | null {
+    const row = selectJobStmt.get(id);
+    if (!row) return null;
+    return mapJob(row);
+  },
+
+  getFailures(id: string, limit = 100): ImportJobRow[] {
+    return selectFailuresStmt.all(id, limit).map(mapJobRow);
+  },
+
+  async buildFailureReport(id: string): Promise<string> {
+    const failures = this.getFailures(id, Number.MAX_SAFE_INTEGER);
+    return writeToString(
+      failures.map((row) => ({ row: row.row_number, question: row.question ?? "", error: row.error ?? "" })),
+      { headers: ["row", "question", "error"] },
+    );
+  },
+
+  /** Jobs run in-process, so anything still marked active after a restart was cut short. */
+  markInterruptedJobs(): number {
+    const info = db
+      .prepare(
+        `UPDATE import_jobs
+         SET status = 'failed', error = 'Interrupted by server restart', updated_at = CURRENT_TIMESTAMP, finished_at = CURRENT_TIMESTAMP
+         WHERE status IN ('queued', 'running')`,
+      )
+      .run();
+    return info.changes;
+  },
+};
@@ -0,0 +1,92 @@
+/**
+ * Deterministic, network-free embeddings built from hashed word and character n-gram
+ * features. Quality is far below a trained model, but texts that share words or word
+ * stems (in Russian or English) land close together, which is enough for offline
+ * development and end-to-end tests of the search pipeline.
+ */
+
+export const LOCAL_EMBEDDING_MODEL = "local-hashed-ngrams-v1";
+
+const WORD_WEIGHT = 1;
+const WORD_BIGRAM_WEIGHT = 0.5;
+const CHAR_NGRAM_WEIGHT = 0.35;
+const CHAR_NGRAM_SIZES = [3, 4];
+
+// Function words carry no topical signal and would otherwise dominate short questions.
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "can", "do", "does", "for", "how", "i", "in", "is", "it", "my", "of", "on",
+  "or", "the", "to", "what", "when", "where", "why", "with", "you", "your",
+  "а", "в", "во", "да", "для", "до", "же", "и", "из", "или", "как", "ли", "мне", "мой", "на", "не",
+  "но", "о", "от", "по", "с", "так", "то", "у", "что", "это", "я",
+]);
+
+const normaliseText = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/ё/g, "е");
+
+const tokenize = (text: string): string[] =>
+  (normaliseText(text).match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => !STOP_WORDS.has(token));
+
+/** 32-bit FNV-1a; stable across processes, unlike anything seeded at runtime. */
+const fnv1a = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const collectFeatures = (tokens: string[]): Map<string, { weight: number; count: number }> => {
+  const features = new Map<string, { weight: number; count: number }>();
+  const add = (feature: string, weight: number) => {
+    const existing = features.get(feature);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      features.set(feature, { weight, count: 1 });
+    }
+  };
+
+  tokens.forEach((token, index) => {
+    add(`w:${token}`, WORD_WEIGHT);
+    const next = tokens[index + 1];
+    if (next) {
+      add(`b:${token} ${next}`, WORD_BIGRAM_WEIGHT);
+    }
+    // Character n-grams over the padded word let inflected forms ("пароль"/"пароля") overlap.
+    const padded = ` ${token} `;
+    for (const size of CHAR_NGRAM_SIZES) {
+      for (let start = 0; start + size <= padded.length; start++) {
+        add(`c${size}:${padded.slice(start, start + size)}`, CHAR_NGRAM_WEIGHT);
+      }
+    }
+  });
+
+  return features;
+};
+
+export const localEmbed = (text: string, dimension: number): number[] => {
+  const vector = new Array<number>(dimension).fill(0);
+  const features = collectFeatures(tokenize(text ?? ""));
+
+  for (const [feature, { weight, count }] of features) {
+    const hash = fnv1a(feature);
+    // The low bit picks the sign so colliding features tend to cancel rather than pile up.
+    const sign = hash & 1 ? -1 : 1;
+    const slot = (hash >>> 1) % dimension;
+    // Sublinear term frequency keeps repeated words from swamping the rest of the text.
+    vector[slot]! += sign * weight * (1 + Math.log(count));
+  }
+
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  return vector.map((value) => value / norm);
+};
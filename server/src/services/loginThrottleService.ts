@@ -0,0 +1,223 @@
+import { db } from "../lib/db";
+import { env } from "../lib/env";
+
+type ThrottleScope = "ip" | "account";
+
+export const LOGIN_OUTCOMES = ["success", "failure", "blocked"] as const;
+
+export type LoginOutcome = (typeof LOGIN_OUTCOMES)[number];
+
+export interface LoginAuditEntry {
+  id: number;
+  username: string;
+  user_id: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  outcome: LoginOutcome;
+  reason: string | null;
+  created_at: string;
+}
+
+export type LoginVerdict =
+  | { allowed: true }
+  | { allowed: false; reason: "account_locked" | "ip_locked" | "throttled"; retryAfterSeconds: number };
+
+/** An allowed attempt has already been counted; the flags say whether counting it locked sign-in. */
+export type LoginAttempt =
+  | { allowed: true; accountLocked: boolean; ipLocked: boolean }
+  | Extract<LoginVerdict, { allowed: false }>;
+
+interface ThrottleRow {
+  scope: ThrottleScope;
+  key: string;
+  failures: number;
+  first_failure_at: string;
+  last_failure_at: string;
+  locked_until: string | null;
+}
+
+// Attempts below this count are answered immediately; afterwards each failure doubles the wait.
+const FREE_ATTEMPTS = 2;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+const getStmt = db.prepare("SELECT * FROM login_throttle WHERE scope = ? AND key = ?");
+const upsertStmt = db.prepare(
+  `INSERT INTO login_throttle (scope, key, failures, first_failure_at, last_failure_at, locked_until)
+   VALUES (@scope, @key, @failures, @first_failure_at, @last_failure_at, @locked_until)
+   ON CONFLICT(scope, key) DO UPDATE SET
+     failures = excluded.failures,
+     first_failure_at = excluded.first_failure_at,
+     last_failure_at = excluded.last_failure_at,
+     locked_until = excluded.locked_until`,
+);
+const deleteStmt = db.prepare("DELETE FROM login_throttle WHERE scope = ? AND key = ?");
+const purgeStmt = db.prepare(
+  "DELETE FROM login_throttle WHERE last_failure_at < ? AND (locked_until IS NULL OR locked_until < ?)",
+);
+const insertAuditStmt = db.prepare(
+  `INSERT INTO login_audit (username, user_id, ip, user_agent, outcome, reason, created_at)
+   VALUES (@username, @user_id, @ip, @user_agent, @outcome, @reason, @created_at)`,
+);
+
+const normalizeUsername = (username: string): string => username.trim().toLowerCase();
+
+const progressiveDelayMs = (failures: number): number => {
+  if (failures <= FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_DELAY_MS);
+};
+
+const maxFailures = (scope: ThrottleScope): number =>
+  scope === "account" ? env.LOGIN_MAX_ACCOUNT_FAILURES : env.LOGIN_MAX_IP_FAILURES;
+
+// Counters older than the failure window no longer count against the caller.
+const loadActive = (scope: ThrottleScope, key: string, now: number): ThrottleRow | null => {
+  const row = getStmt.get(scope, key) as ThrottleRow | undefined;
+  if (!row) return null;
+  const lockedUntil = row.locked_until ? new Date(row.locked_until).getTime() : 0;
+  const windowEnd = new Date(row.first_failure_at).getTime() + env.LOGIN_FAILURE_WINDOW_SECONDS * 1000;
+  if (lockedUntil <= now && windowEnd <= now) {
+    return null;
+  }
+  return row;
+};
+
+const evaluate = (row: ThrottleRow | null, now: number): number => {
+  if (!row) return 0;
+  const lockedUntil = row.locked_until ? new Date(row.locked_until).getTime() : 0;
+  if (lockedUntil > now) {
+    return lockedUntil - now;
+  }
+  const nextAttemptAt = new Date(row.last_failure_at).getTime() + progressiveDelayMs(row.failures);
+  return Math.max(0, nextAttemptAt - now);
+};
+
+const registerFailure = (scope: ThrottleScope, key: string, now: number): boolean => {
+  const existing = loadActive(scope, key, now);
+  // A lock that has run out starts a fresh series rather than re-locking on the next typo.
+  const lockExpired = existing?.locked_until ? new Date(existing.locked_until).getTime() <= now : false;
+  const previous = existing && !lockExpired ? existing : null;
+  const failures = (previous?.failures ?? 0) + 1;
+  const locked = failures >= maxFailures(scope);
+  const nowIso = new Date(now).toISOString();
+  upsertStmt.run({
+    scope,
+    key,
+    failures,
+    first_failure_at: previous?.first_failure_at ?? nowIso,
+    last_failure_at: nowIso,
+    locked_until: locked ? new Date(now + env.LOGIN_LOCKOUT_SECONDS * 1000).toISOString() : null,
+  });
+  return locked;
+};
+
+// Hands back an attempt counted by `beginAttempt` once the password turned out to be right.
+const releaseAttempt = (scope: ThrottleScope, key: string, now: number): void => {
+  const existing = loadActive(scope, key, now);
+  if (!existing) return;
+  const failures = existing.failures - 1;
+  if (failures <= 0) {
+    deleteStmt.run(scope, key);
+    return;
+  }
+  upsertStmt.run({
+    ...existing,
+    failures,
+    locked_until: failures >= maxFailures(scope) ? existing.locked_until : null,
+  });
+};
+
+const verdictFor = (account: ThrottleRow | null, address: ThrottleRow | null, now: number): LoginVerdict => {
+  const accountWait = evaluate(account, now);
+  const ipWait = evaluate(address, now);
+  if (accountWait === 0 && ipWait === 0) {
+    return { allowed: true };
+  }
+  const accountLocked = Boolean(account?.locked_until && accountWait > 0);
+  const ipLocked = Boolean(address?.locked_until && ipWait > 0);
+  return {
+    allowed: false,
+    reason: accountLocked ? "account_locked" : ipLocked ? "ip_locked" : "throttled",
+    retryAfterSeconds: Math.ceil(Math.max(accountWait, ipWait) / 1000),
+  };
+};
+
+export const loginThrottleService = {
+  /**
+   * Decides whether a login attempt may be evaluated at all and, if so, counts it as a failure
+   * in the same synchronous step. Concurrent guesses therefore see each other's attempts while
+   * the password check is still running; `recordSuccess` hands the attempt back.
+   */
+  beginAttempt(ip: string, username: string): LoginAttempt {
+    const now = Date.now();
+    const accountKey = normalizeUsername(username);
+    return db.transaction((): LoginAttempt => {
+      const verdict = verdictFor(loadActive("account", accountKey, now), loadActive("ip", ip, now), now);
+      if (!verdict.allowed) return verdict;
+      return {
+        allowed: true,
+        accountLocked: registerFailure("account", accountKey, now),
+        ipLocked: registerFailure("ip", ip, now),
+      };
+    })();
+  },
+
+  /**
+   * Clears the account counter and takes back the attempt counted against the address; the
+   * rest of the IP counter keeps running so one valid login cannot be used to reset a
+   * password-spraying source.
+   */
+  recordSuccess(ip: string, username: string): void {
+    const now = Date.now();
+    db.transaction(() => {
+      deleteStmt.run("account", normalizeUsername(username));
+      releaseAttempt("ip", ip, now);
+    })();
+  },
+
+  resetAccount(username: string): void {
+    deleteStmt.run("account", normalizeUsername(username));
+  },
+
+  audit(entry: {
+    username: string;
+    userId?: string | null;
+    ip?: string | null;
+    userAgent?: string | null;
+    outcome: LoginOutcome;
+    reason?: string | null;
+  }): void {
+    insertAuditStmt.run({
+      username: entry.username.trim().slice(0, 128),
+      user_id: entry.userId ?? null,
+      ip: entry.ip ?? null,
+      user_agent: entry.userAgent?.slice(0, 256) ?? null,
+      outcome: entry.outcome,
+      reason: entry.reason ?? null,
+      created_at: new Date().toISOString(),
+    });
+  },
+
+  listAudit(options: { limit: number; outcome?: LoginOutcome; username?: string }): LoginAuditEntry[] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (options.outcome) {
+      clauses.push("outcome = ?");
+      params.push(options.outcome);
+    }
+    if (options.username) {
+      clauses.push("username = ? COLLATE NOCASE");
+      params.push(options.username.trim());
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    return db
+      .prepare(`SELECT * FROM login_audit ${where} ORDER BY id DESC LIMIT ?`)
+      .all(...params, options.limit) as LoginAuditEntry[];
+  },
+
+  purgeStale(): number {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - env.LOGIN_FAILURE_WINDOW_SECONDS * 1000).toISOString();
+    return purgeStmt.run(windowStart, now.toISOString()).changes;
+  },
+};
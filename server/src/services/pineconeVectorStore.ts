@@ -0,0 +1,189 @@
+import type { QueryOptions, RecordMetadata } from "@pinecone-database/pinecone";
+import { env } from "../lib/env";
+import { pineconeClient } from "./pineconeClient";
+import { createThrottle } from "../lib/throttle";
+import type {
+  QueryParams,
+  StoredVector,
+  UpsertParams,
+  VectorMatch,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from "./vectorStore";
+
+/** Pinecone recommends upserting at most 100 vectors per request. */
+const UPSERT_BATCH_SIZE = 100;
+
+/** Pinecone rejects delete requests with more than 1000 ids. */
+const DELETE_BATCH_SIZE = 1000;
+
+/** Upper bound on ids per fetch request, keeping the request URL within limits. */
+const FETCH_BATCH_SIZE = 100;
+
+const upsertThrottle = createThrottle({ name: "pinecone-upsert", minDelayMs: 0 });
+
+const isNotFoundError = (error: unknown): boolean => {
+  if (!error || typeof error !== "object") return false;
+  const name = (error as any)?.name;
+  const status = (error as any)?.status ?? (error as any)?.httpStatus;
+  return name === "PineconeNotFoundError" || status === 404;
+};
+
+export const pineconeVectorStore: VectorStore = {
+  backend: "pinecone",
+  indexName: env.PINECONE_INDEX ?? null,
+
+  isConfigured: () => env.pineconeConfigured,
+
+  async upsertVector({ namespace, ...record }: UpsertParams): Promise<void> {
+    await this.upsertVectors([record], namespace);
+  },
+
+  async upsertVectors(records: VectorRecord[], namespace?: string): Promise<void> {
+    if (!env.pineconeConfigured) return;
+    if (records.length === 0) return;
+    const index = pineconeClient.getIndex();
+    if (!index) return;
+    const scoped = index.namespace(namespace ?? env.PINECONE_NAMESPACE);
+    for (let offset = 0; offset < records.length; offset += UPSERT_BATCH_SIZE) {
+      const batch = records.slice(offset, offset + UPSERT_BATCH_SIZE).map(({ id, values, metadata }) => ({
+        id,
+        values,
+        ...(metadata ? { metadata: metadata as RecordMetadata } : {}),
+      }));
+      await upsertThrottle.run(() => scoped.upsert(batch));
+    }
+  },
+
+  async deleteVector(id: string): Promise<void> {
+    if (!env.pineconeConfigured) return;
+    const index = pineconeClient.getIndex();
+    if (!index) return;
+    const scoped = index.namespace(env.PINECONE_NAMESPACE);
+    try {
+      await scoped.deleteMany([id]);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return;
+      }
+      throw error;
+    }
+  },
+
+  async deleteVectors(ids: string[]): Promise<void> {
+    if (!env.pineconeConfigured) return;
+    if (ids.length === 0) return;
+    const index = pineconeClient.getIndex();
+    if (!index) return;
+    const scoped = index.namespace(env.PINECONE_NAMESPACE);
+    for (let offset = 0; offset < ids.length; offset += DELETE_BATCH_SIZE) {
+      try {
+        await scoped.deleteMany(ids.slice(offset, offset + DELETE_BATCH_SIZE));
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  },
+
+  async query({ vector, topK, namespace, filter }: QueryParams): Promise<VectorMatch[]> {
+    if (!env.pineconeConfigured) return [];
+    const index = pineconeClient.getIndex();
+    if (!index) return [];
+    const scopedIndex = index.namespace(namespace ?? env.PINECONE_NAMESPACE);
+    const params: QueryOptions = {
+      vector,
+      topK,
+      includeMetadata: true,
+      includeValues: false,
+      ...(filter ? { filter } : {}),
+    };
+    const result = await scopedIndex.query(params);
+    return (result.matches ?? []).map((match) => ({
+      id: match.id,
+      ...(match.score !== undefined ? { score: match.score } : {}),
+      ...(match.metadata ? { metadata: match.metadata as Record<string, unknown> } : {}),
+    }));
+  },
+
+  async fetchVectors(ids: string[], namespace?: string): Promise<VectorRecord[]> {
+    if (!env.pineconeConfigured || ids.length === 0) return [];
+    const index = pineconeClient.getIndex();
+    if (!index) return [];
+    const scoped = index.namespace(namespace ?? env.PINECONE_NAMESPACE);
+
+    const vectors: VectorRecord[] = [];
+    for (let offset = 0; offset < ids.length; offset += FETCH_BATCH_SIZE) {
+      const response = await scoped.fetch(ids.slice(offset, offset + FETCH_BATCH_SIZE));
+      for (const record of Object.values(response.records)) {
+        vectors.push({
+          id: record.id,
+          values: record.values ?? [],
+          ...(record.metadata ? { metadata: record.metadata as Record<string, unknown> } : {}),
+        });
+      }
+    }
+    return vectors;
+  },
+
+  /** Uses `listPaginated`, which Pinecone only supports on serverless indexes. */
+  async listVectors(namespace?: string): Promise<StoredVector[]> {
+    if (!env.pineconeConfigured) return [];
+    const index = pineconeClient.getIndex();
+    if (!index) return [];
+    const scoped = index.namespace(namespace ?? env.PINECONE_NAMESPACE);
+
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+    do {
+      const page = await scoped.listPaginated(paginationToken ? { paginationToken } : {});
+      for (const vector of page.vectors ?? []) {
+        if (vector.id) ids.push(vector.id);
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    const vectors: StoredVector[] = [];
+    for (let offset = 0; offset < ids.length; offset += FETCH_BATCH_SIZE) {
+      const response = await scoped.fetch(ids.slice(offset, offset + FETCH_BATCH_SIZE));
+      for (const record of Object.values(response.records)) {
+        vectors.push({
+          id: record.id,
+          ...(record.metadata ? { metadata: record.metadata as Record<string, unknown> } : {}),
+        });
+      }
+    }
+    return vectors;
+  },
+
+  async describeIndexStats(): Promise<VectorStoreStats | null> {
+    if (!env.pineconeConfigured) return null;
+    const index = pineconeClient.getIndex();
+    if (!index) return null;
+    const stats = await index.describeIndexStats();
+    return { totalRecordCount: stats.totalRecordCount ?? null };
+  },
+
+  async deleteAllVectors(namespace?: string): Promise<void> {
+    if (!env.pineconeConfigured) return;
+    const index = pineconeClient.getIndex();
+    if (!index) return;
+    const targetNamespace = namespace ?? env.PINECONE_NAMESPACE;
+    const scoped = index.namespace(targetNamespace);
+    try {
+      await scoped.deleteAll();
+      console.log(`[Pinecone] Deleted all vectors from namespace: ${targetNamespace}`);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        console.log(`[Pinecone] Namespace ${targetNamespace} is already empty`);
+        return;
+      }
+      throw error;
+    }
+  },
+};
+
+
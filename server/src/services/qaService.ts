@@ -1,24 +1,106 @@
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 import { db } from "../lib/db";
 import { embeddingService } from "./embeddingService";
 import { pineconeService } from "./pineconeService";
+import { settingsService } from "./settingsService";
+import type { MetadataFilter, VectorRecord } from "./vectorStore";
+import { auditService, SYSTEM_ACTOR, type AuditAction, type AuditActor } from "./auditService";
 import { env } from "../lib/env";
+import { HttpError } from "../lib/httpError";
+import { chunkText } from "../lib/textChunker";
+import { detectLanguage } from "../lib/languageDetect";
+import { dot, normaliseVector } from "../lib/vectorMath";
+
+export const QA_STATUSES = ["draft", "in_review", "published", "archived"] as const;
+
+export type QaStatus = (typeof QA_STATUSES)[number];
 
 export interface QAPair {
   id: string;
   question: string;
   answer: string;
   language: string;
+  category: string | null;
+  tags: string[];
+  /** Alternative phrasings of the question, each embedded as its own vector. */
+  variants: string[];
+  /** Answer chunks embedded by the last sync; 1 for an answer short enough for a single vector. */
+  chunk_count: number;
+  feedback: FeedbackSummary;
+  status: QaStatus;
+  review_comment: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  /** An edit waiting for review while the published version stays searchable. */
+  pending_edit: PendingEdit | null;
   pinecone_id: string | null;
   embedding_status: string;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+}
+
+export interface PendingEdit {
+  question: string;
+  answer: string;
+  language: string;
+  category: string | null;
+  tags: string[];
+  variants: string[];
+  submitted_by: string;
+  submitted_at: string;
+}
+
+export type RevisionChangeType = "create" | "update" | "replace" | "restore" | "merge";
+
+export interface QaRevision {
+  id: number;
+  qa_id: string;
+  revision: number;
+  question: string;
+  answer: string;
+  language: string;
+  change_type: RevisionChangeType;
+  restored_from: number | null;
+  /** Set on revisions that were carried over from a pair merged into this one. */
+  merged_from: string | null;
+  actor_id: string | null;
+  actor_username: string;
+  created_at: string;
+}
+
+/** Operator feedback on a pair across all searches that showed it. */
+export interface FeedbackSummary {
+  helpful: number;
+  unhelpful: number;
+  used: number;
+  /**
+   * Share of positive feedback (helpful votes and uses), smoothed towards 0.5 so a pair
+   * with one vote does not outrank one with many.
+   */
+  score: number;
+}
+
+export const QA_SORTS = ["updated", "most_helpful", "least_helpful"] as const;
+
+export type QaSort = (typeof QA_SORTS)[number];
+
+/** Scopes a listing or a search to a category and/or to pairs carrying any of the given tags. */
+export interface QaFilters {
+  category?: string;
+  tags?: string[];
+  language?: string;
 }
 
-export interface ListOptions {
+export interface ListOptions extends QaFilters {
   page?: number;
   pageSize?: number;
   search?: string;
+  /** List the trash instead of live pairs. */
+  trashed?: boolean;
+  status?: QaStatus;
+  sort?: QaSort;
 }
 
 export interface ListResult {
@@ -30,59 +112,482 @@ export interface ListResult {
 
 const DEFAULT_PAGE_SIZE = 20;
 
+/** Tags and categories are stored lower-case with dashes instead of spaces, so "Late Fees" and "late-fees" are one tag. */
+export const normaliseTag = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, "-");
+
+const selectTagsStmt = db.prepare(
+  `SELECT tags.name FROM qa_pair_tags
+   JOIN tags ON tags.id = qa_pair_tags.tag_id
+   WHERE qa_pair_tags.qa_id = ?
+   ORDER BY tags.name`,
+);
+const insertTagStmt = db.prepare("INSERT INTO tags (name) VALUES (?) ON CONFLICT(name) DO NOTHING");
+const clearPairTagsStmt = db.prepare("DELETE FROM qa_pair_tags WHERE qa_id = ?");
+const linkTagStmt = db.prepare(
+  "INSERT OR IGNORE INTO qa_pair_tags (qa_id, tag_id) SELECT ?, id FROM tags WHERE name = ?",
+);
+
+const setTags = (qaId: string, tags: string[]) => {
+  clearPairTagsStmt.run(qaId);
+  for (const tag of new Set(tags.map(normaliseTag).filter(Boolean))) {
+    insertTagStmt.run(tag);
+    linkTagStmt.run(qaId, tag);
+  }
+};
+
+const selectVariantsStmt = db.prepare(
+  "SELECT question FROM qa_pair_variants WHERE qa_id = ? ORDER BY position",
+);
+const clearVariantsStmt = db.prepare("DELETE FROM qa_pair_variants WHERE qa_id = ?");
+const insertVariantStmt = db.prepare("INSERT INTO qa_pair_variants (qa_id, position, question) VALUES (?, ?, ?)");
+const selectStoredVectorsStmt = db.prepare("SELECT variant_vectors, chunk_count FROM qa_pairs WHERE id = ?");
+const setStoredVectorsStmt = db.prepare("UPDATE qa_pairs SET variant_vectors = ?, chunk_count = ? WHERE id = ?");
+
+/** Trims and de-duplicates variants, dropping any that merely repeat the main question. */
+const normaliseVariants = (question: string, variants: string[]): string[] => {
+  const seen = new Set([question.trim().toLowerCase()]);
+  const result: string[] = [];
+  for (const variant of variants.map((value) => value.trim())) {
+    const key = variant.toLowerCase();
+    if (!variant || seen.has(key)) continue;
+    seen.add(key);
+    result.push(variant);
+  }
+  return result;
+};
+
+const setVariants = (qaId: string, question: string, variants: string[]) => {
+  clearVariantsStmt.run(qaId);
+  normaliseVariants(question, variants).forEach((variant, index) => {
+    insertVariantStmt.run(qaId, index + 1, variant);
+  });
+};
+
+/**
+ * A pair's own vector is stored under its id, or as `<id>#chunk<n>` per answer chunk when
+ * the answer is long; each question variant adds `<id>#v<n>`.
+ */
+const variantVectorId = (qaId: string, position: number) => `${qaId}#v${position}`;
+const chunkVectorId = (qaId: string, position: number) => `${qaId}#chunk${position}`;
+
+/** The pair a vector belongs to. */
+export const parentIdOf = (vectorId: string): string => {
+  const index = vectorId.indexOf("#");
+  return index === -1 ? vectorId : vectorId.slice(0, index);
+};
+
+const answerChunks = (qa: QAPair): string[] =>
+  chunkText(qa.answer, env.EMBEDDING_CHUNK_SIZE, env.EMBEDDING_CHUNK_OVERLAP);
+
+const positions = (count: number) => Array.from({ length: count }, (_, index) => index + 1);
+
+/** Every vector id the store may hold for a pair, including ones its previous sync left behind. */
+const vectorIdsOf = (qa: QAPair): string[] => {
+  const stored = selectStoredVectorsStmt.get(qa.id) as { variant_vectors: number; chunk_count: number } | undefined;
+  const variants = Math.max(stored?.variant_vectors ?? 0, qa.variants.length);
+  const chunks = Math.max(stored?.chunk_count ?? 0, answerChunks(qa).length);
+  return [
+    qa.pinecone_id ?? qa.id,
+    ...positions(variants).map((position) => variantVectorId(qa.id, position)),
+    ...(chunks > 1 ? positions(chunks).map((position) => chunkVectorId(qa.id, position)) : []),
+  ];
+};
+
+/** Reads a `tags` query parameter given either as `a,b` or repeated as `tags=a&tags=b`. */
+export const parseTagList = (value: string | string[] | undefined): string[] => {
+  const raw = Array.isArray(value) ? value : value ? [value] : [];
+  return Array.from(new Set(raw.flatMap((entry) => entry.split(",")).map(normaliseTag).filter(Boolean)));
+};
+
+const selectFeedbackStmt = db.prepare(
+  `SELECT COALESCE(SUM(kind = 'helpful'), 0) AS helpful,
+          COALESCE(SUM(kind = 'unhelpful'), 0) AS unhelpful,
+          COALESCE(SUM(kind = 'used'), 0) AS used
+   FROM search_feedback WHERE qa_id = ?`,
+);
+
+export const helpfulnessScore = (counts: { helpful: number; unhelpful: number; used: number }): number => {
+  const positive = counts.helpful + counts.used;
+  return (positive + 1) / (positive + counts.unhelpful + 2);
+};
+
+const feedbackOf = (qaId: string): FeedbackSummary => {
+  const counts = selectFeedbackStmt.get(qaId) as Omit<FeedbackSummary, "score">;
+  return { ...counts, score: helpfulnessScore(counts) };
+};
+
+/** Per-pair feedback counts for sorting a listing; mirrors `helpfulnessScore`. */
+const FEEDBACK_JOIN = `LEFT JOIN (
+    SELECT qa_id, SUM(kind = 'helpful') + SUM(kind = 'used') AS positive, SUM(kind = 'unhelpful') AS negative
+    FROM search_feedback GROUP BY qa_id
+  ) AS feedback ON feedback.qa_id = qa_pairs.id`;
+const HELPFULNESS_SQL =
+  "(COALESCE(feedback.positive, 0) + 1.0) / (COALESCE(feedback.positive, 0) + COALESCE(feedback.negative, 0) + 2)";
+
+const LIST_ORDER: Record<QaSort, string> = {
+  updated: "updated_at DESC",
+  // Ties (most often: no feedback yet) fall back to the most recently updated pairs.
+  most_helpful: `${HELPFULNESS_SQL} DESC, COALESCE(feedback.positive, 0) DESC, updated_at DESC`,
+  least_helpful: `${HELPFULNESS_SQL} ASC, COALESCE(feedback.negative, 0) DESC, updated_at DESC`,
+};
+
+const normaliseCategory = (value: string | null | undefined): string | null =>
+  value ? normaliseTag(value) || null : null;
+
 const mapRow = (row: any): QAPair => ({
   id: row.id,
   question: row.question,
   answer: row.answer,
   language: row.language,
+  category: row.category ?? null,
+  tags: (selectTagsStmt.all(row.id) as { name: string }[]).map((tag) => tag.name),
+  variants: (selectVariantsStmt.all(row.id) as { question: string }[]).map((variant) => variant.question),
+  chunk_count: row.chunk_count ?? 0,
+  feedback: feedbackOf(row.id),
+  status: row.status ?? "published",
+  review_comment: row.review_comment ?? null,
+  reviewed_by: row.reviewed_by ?? null,
+  reviewed_at: row.reviewed_at ?? null,
+  pending_edit: row.pending_edit ? (JSON.parse(row.pending_edit) as PendingEdit) : null,
   pinecone_id: row.pinecone_id,
   embedding_status: row.embedding_status,
   created_at: row.created_at,
   updated_at: row.updated_at,
+  deleted_at: row.deleted_at ?? null,
+  deleted_by: row.deleted_by ?? null,
 });
 
-const selectByIdStmt = db.prepare("SELECT * FROM qa_pairs WHERE id = ?");
+// Everything below reads live pairs only; trashed rows are reached through the *Trashed statements.
+const selectByIdStmt = db.prepare("SELECT * FROM qa_pairs WHERE id = ? AND deleted_at IS NULL");
+const selectTrashedByIdStmt = db.prepare("SELECT * FROM qa_pairs WHERE id = ? AND deleted_at IS NOT NULL");
 const selectByQuestionStmt = db.prepare(
-  "SELECT * FROM qa_pairs WHERE TRIM(LOWER(question)) = TRIM(LOWER(?)) LIMIT 1",
+  "SELECT * FROM qa_pairs WHERE TRIM(LOWER(question)) = TRIM(LOWER(?)) AND deleted_at IS NULL LIMIT 1",
+);
+const countStmt = db.prepare("SELECT COUNT(*) as count FROM qa_pairs WHERE deleted_at IS NULL");
+const pendingEditCountStmt = db.prepare(
+  "SELECT COUNT(*) as count FROM qa_pairs WHERE deleted_at IS NULL AND status = 'published' AND pending_edit IS NOT NULL",
+);
+const setPendingEditStmt = db.prepare("UPDATE qa_pairs SET pending_edit = ? WHERE id = ?");
+const clearPendingEditStmt = db.prepare(
+  "UPDATE qa_pairs SET pending_edit = NULL, review_comment = ?, reviewed_by = ?, reviewed_at = ? WHERE id = ?",
+);
+const softDeleteStmt = db.prepare(
+  "UPDATE qa_pairs SET deleted_at = ?, deleted_by = ? WHERE id = ? AND deleted_at IS NULL",
+);
+const selectExpiredTrashStmt = db.prepare(
+  "SELECT * FROM qa_pairs WHERE deleted_at IS NOT NULL AND deleted_at <= ? ORDER BY deleted_at LIMIT ?",
+);
+const markReadyStmt = db.prepare(
+  `UPDATE qa_pairs
+   SET pinecone_id = ?, embedding_status = 'ready', updated_at = CURRENT_TIMESTAMP
+   WHERE id = ?`,
 );
-const countStmt = db.prepare("SELECT COUNT(*) as count FROM qa_pairs");
-const listIdsStmt = db.prepare("SELECT id, pinecone_id FROM qa_pairs");
+const markStatusStmt = db.prepare(
+  "UPDATE qa_pairs SET embedding_status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+);
+
+/** SQL conditions for `QaFilters`, qualified so they also work next to the FTS table. */
+const buildFilterClauses = (filters: QaFilters) => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  if (filters.category) {
+    clauses.push("qa_pairs.category = ?");
+    params.push(normaliseTag(filters.category));
+  }
+  const tags = (filters.tags ?? []).map(normaliseTag).filter(Boolean);
+  if (tags.length > 0) {
+    clauses.push(
+      `qa_pairs.id IN (SELECT qa_pair_tags.qa_id FROM qa_pair_tags
+        JOIN tags ON tags.id = qa_pair_tags.tag_id
+        WHERE tags.name IN (${tags.map(() => "?").join(",")}))`,
+    );
+    params.push(...tags);
+  }
+  if (filters.language) {
+    clauses.push("qa_pairs.language = ?");
+    params.push(filters.language);
+  }
+  return { clauses, params };
+};
 
-const buildSearchClause = (search?: string) => {
-  if (!search?.trim()) {
-    return { where: "", params: [] as unknown[] };
+const buildSearchClause = (options: Pick<ListOptions, "search" | "trashed" | "status" | "category" | "tags" | "language"> = {}) => {
+  const filters = buildFilterClauses(options);
+  const clauses = [options.trashed ? "deleted_at IS NOT NULL" : "deleted_at IS NULL", ...filters.clauses];
+  const params: unknown[] = [...filters.params];
+  if (options.status === "in_review") {
+    // The review queue also holds published pairs with an edit waiting for approval.
+    clauses.push("(status = 'in_review' OR (status = 'published' AND pending_edit IS NOT NULL))");
+  } else if (options.status) {
+    clauses.push("status = ?");
+    params.push(options.status);
+  }
+  if (options.search?.trim()) {
+    const term = `%${options.search.trim()}%`;
+    clauses.push("(question LIKE ? OR answer LIKE ?)");
+    params.push(term, term);
   }
-  const term = `%${search.trim()}%`;
-  return {
-    where: "WHERE question LIKE ? OR answer LIKE ?",
-    params: [term, term],
-  };
+  return { where: `WHERE ${clauses.join(" AND ")}`, params };
 };
 
-const listQuery = (search?: string, page = 1, pageSize = DEFAULT_PAGE_SIZE) => {
+const listQuery = (options: ListOptions, page = 1, pageSize = DEFAULT_PAGE_SIZE) => {
   const offset = (page - 1) * pageSize;
-  const { where, params } = buildSearchClause(search);
+  const { where, params } = buildSearchClause(options);
+  const order = options.trashed ? "deleted_at DESC" : LIST_ORDER[options.sort ?? "updated"];
   const sql = `${
-    "SELECT * FROM qa_pairs"
-  } ${where} ORDER BY updated_at DESC LIMIT ? OFFSET ?`;
+    "SELECT qa_pairs.* FROM qa_pairs"
+  } ${options.trashed ? "" : FEEDBACK_JOIN} ${where} ORDER BY ${order} LIMIT ? OFFSET ?`;
   return db.prepare(sql).all(...params, pageSize, offset).map(mapRow);
 };
 
+const maxRevisionStmt = db.prepare("SELECT COALESCE(MAX(revision), 0) AS revision FROM qa_pair_revisions WHERE qa_id = ?");
+const moveRevisionsStmt = db.prepare(
+  `UPDATE qa_pair_revisions
+   SET qa_id = @target, revision = revision + @offset, restored_from = restored_from + @offset,
+       merged_from = COALESCE(merged_from, @source)
+   WHERE qa_id = @source`,
+);
+const listRevisionsStmt = db.prepare(
+  "SELECT * FROM qa_pair_revisions WHERE qa_id = ? ORDER BY revision DESC",
+);
+const selectRevisionStmt = db.prepare("SELECT * FROM qa_pair_revisions WHERE qa_id = ? AND revision = ?");
+const insertRevisionStmt = db.prepare(
+  `INSERT INTO qa_pair_revisions
+     (qa_id, revision, question, answer, language, change_type, restored_from, merged_from, actor_id, actor_username, created_at)
+   SELECT @qa_id, COALESCE(MAX(revision), 0) + 1, @question, @answer, @language, @change_type, @restored_from, @merged_from,
+          @actor_id, @actor_username, @created_at
+   FROM qa_pair_revisions WHERE qa_id = @qa_id`,
+);
+
+/** Stores the text a pair has after a change; the newest revision always matches the live row. */
+const recordRevision = (
+  qa: QAPair,
+  changeType: RevisionChangeType,
+  actor: AuditActor,
+  restoredFrom: number | null = null,
+  mergedFrom: string | null = null,
+) => {
+  insertRevisionStmt.run({
+    qa_id: qa.id,
+    question: qa.question,
+    answer: qa.answer,
+    language: qa.language ?? "ru",
+    change_type: changeType,
+    restored_from: restoredFrom,
+    merged_from: mergedFrom,
+    actor_id: actor.id,
+    actor_username: actor.username,
+    created_at: new Date().toISOString(),
+  });
+};
+
+/** The editable content of a pair, as recorded in audit entries. */
+const auditSnapshot = (qa: QAPair) => ({
+  id: qa.id,
+  question: qa.question,
+  answer: qa.answer,
+  language: qa.language,
+  category: qa.category,
+  tags: qa.tags,
+  variants: qa.variants,
+  status: qa.status,
+});
+
+export type QaTransition = "submit" | "approve" | "reject" | "archive";
+
+/** The review workflow; any other status change goes through create/update. */
+const TRANSITIONS: Record<QaTransition, { from: QaStatus[]; to: QaStatus; action: AuditAction }> = {
+  submit: { from: ["draft", "archived"], to: "in_review", action: "qa.submit" },
+  approve: { from: ["in_review"], to: "published", action: "qa.approve" },
+  reject: { from: ["in_review"], to: "draft", action: "qa.reject" },
+  archive: { from: ["published"], to: "archived", action: "qa.archive" },
+};
+
+const STATUS_LABELS: Record<QaStatus, string> = {
+  draft: "a draft",
+  in_review: "in review",
+  published: "published",
+  archived: "archived",
+};
+
+// Statuses a pair can only reach once it has an answer; drafts may be saved half-written.
+const ANSWERED_STATUSES: readonly QaStatus[] = ["in_review", "published"];
+
+const requireAnswerFor = (status: QaStatus, answer: string) => {
+  if (ANSWERED_STATUSES.includes(status) && !answer.trim()) {
+    throw new HttpError(400, "A pair needs an answer before it can be submitted or published");
+  }
+};
+
 const normaliseQuestion = (value: string) => value.trim();
 const normaliseAnswer = (value: string) => value.trim();
 
+/** Language for a pair saved without one: detected from its text, or `fallback` when that is inconclusive. */
+const languageOf = (question: string, answer: string, fallback: string) =>
+  detectLanguage(`${question}\n${answer}`) ?? fallback;
+
+export interface LexicalHit {
+  qa: QAPair;
+  score: number;
+}
+
+/**
+ * Turns free text into an FTS5 MATCH expression. Every token is quoted so operator
+ * characters in pasted error strings or product codes cannot break the query syntax.
+ */
+const buildMatchExpression = (query: string): string | null => {
+  const tokens = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const unique = Array.from(new Set(tokens)).slice(0, 32);
+  if (unique.length === 0) return null;
+  return unique.map((token) => `"${token}"*`).join(" OR ");
+};
+
+/** Hash of everything that goes into a vector, stored in its metadata so stale vectors can be detected. */
+const textHash = (qa: QAPair): string =>
+  createHash("sha256")
+    .update(
+      `${qa.language}\u0000${qa.question}\u0000${qa.answer}\u0000${qa.category ?? ""}\u0000${qa.tags.join(",")}\u0000${qa.variants.join("\u0001")}` +
+        `\u0000${env.EMBEDDING_CHUNK_SIZE}:${env.EMBEDDING_CHUNK_OVERLAP}`,
+    )
+    .digest("hex");
+
+// Pinecone rejects null metadata values, so an uncategorised pair simply has no category field.
+const buildVectorMetadata = (qa: QAPair): Record<string, unknown> => ({
+  question: qa.question,
+  answer: qa.answer,
+  language: qa.language,
+  tags: qa.tags,
+  ...(qa.category ? { category: qa.category } : {}),
+  textHash: textHash(qa),
+});
+
+interface PlannedVector {
+  id: string;
+  text: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * The vectors a published pair should have: question and answer (one per chunk, each
+ * repeating the question, for long answers) plus each variant with the answer's opening.
+ */
+const planVectors = (qa: QAPair): { vectors: PlannedVector[]; chunkCount: number } => {
+  const metadata = buildVectorMetadata(qa);
+  const chunks = answerChunks(qa);
+  const body: PlannedVector[] =
+    chunks.length === 1
+      ? [{ id: qa.id, text: `${qa.question}\n\n${qa.answer}`, metadata }]
+      : chunks.map((chunk, index) => ({
+          id: chunkVectorId(qa.id, index + 1),
+          text: `${qa.question}\n\n${chunk}`,
+          metadata: { ...metadata, parentId: qa.id, chunk: index + 1 },
+        }));
+  const variants: PlannedVector[] = qa.variants.map((variant, index) => ({
+    id: variantVectorId(qa.id, index + 1),
+    text: `${variant}\n\n${chunks[0] ?? qa.answer}`,
+    metadata: { ...metadata, parentId: qa.id, variant },
+  }));
+  return { vectors: [...body, ...variants], chunkCount: chunks.length };
+};
+
+/** The vector store filter equivalent of `QaFilters`, or undefined when nothing is filtered. */
+export const buildVectorFilter = (filters: QaFilters): MetadataFilter | undefined => {
+  const filter: MetadataFilter = {};
+  if (filters.category) {
+    filter.category = { $eq: normaliseTag(filters.category) };
+  }
+  const tags = (filters.tags ?? []).map(normaliseTag).filter(Boolean);
+  if (tags.length > 0) {
+    filter.tags = { $in: tags };
+  }
+  if (filters.language) {
+    filter.language = { $eq: filters.language };
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+};
+
+/** How many ids of each kind a reconcile report lists; the counts are always complete. */
+const RECONCILE_REPORT_ID_LIMIT = 200;
+
+export interface ReconcileReport {
+  mode: "reconcile";
+  dryRun: boolean;
+  total: number;
+  vectors: number;
+  upToDate: number;
+  missing: { count: number; ids: string[] };
+  stale: { count: number; ids: string[] };
+  orphans: { count: number; ids: string[] };
+  upserted: number;
+  deleted: number;
+  failed: number;
+  errors: string[];
+}
+
+/** Fields a create or update writes; omitted tags, category or variants keep what a replaced or edited pair had. */
+export interface QaInput {
+  question: string;
+  answer: string;
+  language?: string;
+  category?: string | null;
+  tags?: string[];
+  variants?: string[];
+  status?: QaStatus;
+}
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
 export interface CreateResult {
   record: QAPair;
   replaced: boolean;
+  /** The replacement is held as a pending edit; the published pair is unchanged. */
+  proposed: boolean;
+}
+
+export interface SimilarPair {
+  qa: QAPair;
+  score: number;
+  /** The pair has the same question, so saving would replace it. */
+  exact: boolean;
+}
+
+export interface DuplicateCluster {
+  pairs: QAPair[];
+  edges: { a: string; b: string; score: number }[];
+  maxScore: number;
+}
+
+export interface DuplicateReport {
+  threshold: number;
+  /** Published pairs whose vector was compared against the index. */
+  scanned: number;
+  clusters: DuplicateCluster[];
 }
 
+/** Text and status the merged pair ends up with; omitted fields keep the target's. */
+export interface MergeInput {
+  question?: string;
+  answer?: string;
+  language?: string;
+  status?: QaStatus;
+}
+
+/** Neighbours fetched per query; variants and chunks of one pair share these slots, so it is generous. */
+const SIMILAR_NEIGHBOURS = 20;
+const FETCH_BATCH_SIZE = 100;
+
+/** The vector that stands for a pair as a whole when comparing pairs with each other. */
+const primaryVectorId = (qa: QAPair) => (qa.chunk_count > 1 ? chunkVectorId(qa.id, 1) : qa.id);
+
 export const qaService = {
   list(options: ListOptions = {}): ListResult {
     const page = Math.max(1, options.page ?? 1);
     const pageSize = Math.max(1, Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, 100));
-    const { where, params } = buildSearchClause(options.search);
+    const { where, params } = buildSearchClause(options);
     const total = db.prepare(`SELECT COUNT(*) as count FROM qa_pairs ${where}`).get(...params) as { count: number };
-    const items = listQuery(options.search, page, pageSize);
+    const items = listQuery(options, page, pageSize);
     return {
       total: total.count,
       page,
@@ -103,54 +608,673 @@ export const qaService = {
     return mapRow(row);
   },
 
-  create(input: { question: string; answer: string; language?: string }): CreateResult {
+  /**
+   * Creates a pair, or replaces the live pair with the same question. `status` defaults to
+   * published; callers acting for a user decide whether the change has to go through review.
+   * With `holdPublishedEdits`, replacing a published pair becomes a pending edit instead.
+   */
+  create(
+    input: QaInput,
+    actor: AuditActor = SYSTEM_ACTOR,
+    options: { holdPublishedEdits?: boolean } = {},
+  ): CreateResult {
     const question = normaliseQuestion(input.question);
     const answer = normaliseAnswer(input.answer);
-    const language = input.language ?? "ru";
-    const existing = this.getByQuestion(question);
+    const language = input.language ?? languageOf(question, answer, "ru");
+    const status = input.status ?? "published";
+    requireAnswerFor(status, answer);
     const now = new Date().toISOString();
 
-    if (existing) {
+    return db.transaction((): CreateResult => {
+      const existing = this.getByQuestion(question);
+      if (existing?.status === "published" && options.holdPublishedEdits) {
+        const { status: _status, ...edit } = input;
+        return { record: this.proposeEdit(existing.id, edit, actor)!, replaced: true, proposed: true };
+      }
+      if (existing) {
+        db.prepare(
+          `UPDATE qa_pairs
+           SET question = ?, answer = ?, language = ?, category = ?, status = ?, updated_at = ?, embedding_status = 'pending'
+           WHERE id = ?`
+        ).run(
+          question,
+          answer,
+          language,
+          input.category !== undefined ? normaliseCategory(input.category) : existing.category,
+          status,
+          now,
+          existing.id,
+        );
+        if (input.tags !== undefined) {
+          setTags(existing.id, input.tags);
+        }
+        if (input.variants !== undefined) {
+          setVariants(existing.id, question, input.variants);
+        }
+        const record = this.getById(existing.id)!;
+        recordRevision(record, "replace", actor);
+        auditService.record({
+          actor,
+          action: "qa.replace",
+          entityType: "qa_pair",
+          entityId: record.id,
+          before: auditSnapshot(existing),
+          after: auditSnapshot(record),
+        });
+        return { record, replaced: true, proposed: false };
+      }
+
+      const id = randomUUID();
+      db.prepare(
+        `INSERT INTO qa_pairs (id, question, answer, language, category, status, pinecone_id, embedding_status, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, NULL, 'pending', ?, ?)`
+      ).run(id, question, answer, language, normaliseCategory(input.category), status, now, now);
+      setTags(id, input.tags ?? []);
+      setVariants(id, question, input.variants ?? []);
+      const record = this.getById(id)!;
+      recordRevision(record, "create", actor);
+      auditService.record({
+        actor,
+        action: "qa.create",
+        entityType: "qa_pair",
+        entityId: id,
+        before: null,
+        after: auditSnapshot(record),
+      });
+      return { record, replaced: false, proposed: false };
+    })();
+  },
+
+  update(
+    id: string,
+    input: QaInput,
+    actor: AuditActor = SYSTEM_ACTOR,
+  ): QAPair | null {
+    return db.transaction((): QAPair | null => {
+      const existing = this.getById(id);
+      if (!existing) return null;
+      const question = normaliseQuestion(input.question);
+      const answer = normaliseAnswer(input.answer);
+      const language = input.language ?? languageOf(question, answer, existing.language);
+      const status = input.status ?? existing.status;
+      requireAnswerFor(status, answer);
+      const now = new Date().toISOString();
       db.prepare(
         `UPDATE qa_pairs
-         SET question = ?, answer = ?, language = ?, updated_at = ?, embedding_status = 'pending'
+         SET question = ?, answer = ?, language = ?, category = ?, status = ?, updated_at = ?, embedding_status = 'pending'
          WHERE id = ?`
-      ).run(question, answer, language, now, existing.id);
-      return {
-        record: this.getById(existing.id)!,
-        replaced: true,
+      ).run(
+        question,
+        answer,
+        language,
+        input.category !== undefined ? normaliseCategory(input.category) : existing.category,
+        status,
+        now,
+        id,
+      );
+      if (input.tags !== undefined) {
+        setTags(id, input.tags);
+      }
+      if (input.variants !== undefined) {
+        setVariants(id, question, input.variants);
+      }
+      const updated = this.getById(id)!;
+      recordRevision(updated, "update", actor);
+      auditService.record({
+        actor,
+        action: "qa.update",
+        entityType: "qa_pair",
+        entityId: id,
+        before: auditSnapshot(existing),
+        after: auditSnapshot(updated),
+      });
+      return updated;
+    })();
+  },
+
+  /**
+   * Holds an edit to a published pair for review instead of applying it, so the published
+   * version stays searchable until the edit is approved. A newer proposal replaces the older one.
+   * Returns null when the pair does not exist.
+   */
+  proposeEdit(id: string, input: QaInput, actor: AuditActor = SYSTEM_ACTOR): QAPair | null {
+    return db.transaction((): QAPair | null => {
+      const existing = this.getById(id);
+      if (!existing) return null;
+      if (existing.status !== "published") {
+        throw new HttpError(409, `Only published pairs take edits for review; this one is ${STATUS_LABELS[existing.status]}`);
+      }
+      const question = normaliseQuestion(input.question);
+      const answer = normaliseAnswer(input.answer);
+      const pending: PendingEdit = {
+        question,
+        answer,
+        language: input.language ?? languageOf(question, answer, existing.language),
+        category: input.category !== undefined ? normaliseCategory(input.category) : existing.category,
+        tags: input.tags ?? existing.tags,
+        variants: input.variants ?? existing.variants,
+        submitted_by: actor.username,
+        submitted_at: new Date().toISOString(),
       };
+      requireAnswerFor("in_review", pending.answer);
+      setPendingEditStmt.run(JSON.stringify(pending), id);
+      const updated = this.getById(id)!;
+      auditService.record({
+        actor,
+        action: "qa.submit",
+        entityType: "qa_pair",
+        entityId: id,
+        before: auditSnapshot(existing),
+        after: { ...auditSnapshot(existing), pendingEdit: pending },
+      });
+      return updated;
+    })();
+  },
+
+  /** Moves a pair to the trash. Its row and vector stay until it is restored or purged. */
+  delete(id: string, actor: AuditActor = SYSTEM_ACTOR): boolean {
+    return db.transaction((): boolean => {
+      const existing = this.getById(id);
+      if (!existing) return false;
+      softDeleteStmt.run(new Date().toISOString(), actor.username, id);
+      auditService.record({
+        actor,
+        action: "qa.delete",
+        entityType: "qa_pair",
+        entityId: id,
+        before: auditSnapshot(existing),
+        after: null,
+      });
+      return true;
+    })();
+  },
+
+  getTrashedById(id: string): QAPair | null {
+    const row = selectTrashedByIdStmt.get(id);
+    if (!row) return null;
+    return mapRow(row);
+  },
+
+  /**
+   * Takes a pair back out of the trash and queues it for re-embedding, since its vector may
+   * have been dropped by a full resync while it was deleted. Fails with 409 when a live pair
+   * with the same question was created in the meantime.
+   */
+  restoreFromTrash(id: string, actor: AuditActor = SYSTEM_ACTOR): QAPair | null {
+    return db.transaction((): QAPair | null => {
+      const trashed = this.getTrashedById(id);
+      if (!trashed) return null;
+      const conflict = this.getByQuestion(trashed.question);
+      if (conflict) {
+        throw new HttpError(409, "A live pair with the same question already exists; edit or delete it first");
+      }
+      db.prepare(
+        `UPDATE qa_pairs
+         SET deleted_at = NULL, deleted_by = NULL, embedding_status = 'pending', updated_at = ?
+         WHERE id = ?`
+      ).run(new Date().toISOString(), id);
+      const restored = this.getById(id)!;
+      auditService.record({
+        actor,
+        action: "qa.trash_restore",
+        entityType: "qa_pair",
+        entityId: id,
+        before: null,
+        after: auditSnapshot(restored),
+      });
+      return restored;
+    })();
+  },
+
+  /**
+   * Permanently removes trashed pairs and their vectors. Vectors go first: if the store
+   * cannot be reached the rows are kept, so the next run can retry instead of leaving orphans.
+   */
+  async purge(ids: string[], actor: AuditActor = SYSTEM_ACTOR): Promise<number> {
+    const trashed = ids
+      .map((id) => this.getTrashedById(id))
+      .filter((qa): qa is QAPair => qa !== null);
+    if (trashed.length === 0) return 0;
+
+    if (pineconeService.isConfigured()) {
+      await pineconeService.deleteVectors(trashed.flatMap(vectorIdsOf));
+    }
+
+    return db.transaction((): number => {
+      let purged = 0;
+      for (const qa of trashed) {
+        if (db.prepare("DELETE FROM qa_pairs WHERE id = ? AND deleted_at IS NOT NULL").run(qa.id).changes === 0) {
+          continue;
+        }
+        purged += 1;
+        auditService.record({
+          actor,
+          action: "qa.purge",
+          entityType: "qa_pair",
+          entityId: qa.id,
+          before: { ...auditSnapshot(qa), deletedAt: qa.deleted_at, deletedBy: qa.deleted_by },
+          after: null,
+        });
+      }
+      return purged;
+    })();
+  },
+
+  /** Purges, in batches, every pair that went into the trash at or before `cutoff`. */
+  async purgeTrashedBefore(cutoff: string, actor: AuditActor = SYSTEM_ACTOR): Promise<number> {
+    const { csvBatchSize } = settingsService.get();
+    let purged = 0;
+    for (;;) {
+      const expired = selectExpiredTrashStmt.all(cutoff, csvBatchSize).map(mapRow);
+      if (expired.length === 0) break;
+      const count = await this.purge(expired.map((qa) => qa.id), actor);
+      purged += count;
+      if (count < expired.length) break;
+    }
+    return purged;
+  },
+
+  /** Purges everything that has been in the trash for longer than `retentionDays`. */
+  purgeExpiredTrash(retentionDays: number): Promise<number> {
+    return this.purgeTrashedBefore(new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString());
+  },
+
+  emptyTrash(actor: AuditActor = SYSTEM_ACTOR): Promise<number> {
+    return this.purgeTrashedBefore(new Date().toISOString(), actor);
+  },
+
+  listRevisions(id: string): QaRevision[] {
+    return listRevisionsStmt.all(id) as QaRevision[];
+  },
+
+  getRevision(id: string, revision: number): QaRevision | null {
+    return (selectRevisionStmt.get(id, revision) as QaRevision | undefined) ?? null;
+  },
+
+  /**
+   * Copies an earlier revision's text back onto the pair. The restore is itself a new
+   * revision, so history only ever grows and a restore can be undone the same way.
+   * Returns null when the pair or the revision does not exist.
+   */
+  restoreRevision(
+    id: string,
+    revision: number,
+    status?: QaStatus,
+    actor: AuditActor = SYSTEM_ACTOR,
+  ): QAPair | null {
+    return db.transaction((): QAPair | null => {
+      const existing = this.getById(id);
+      const target = selectRevisionStmt.get(id, revision) as QaRevision | undefined;
+      if (!existing || !target) return null;
+      requireAnswerFor(status ?? existing.status, target.answer);
+      db.prepare(
+        `UPDATE qa_pairs
+         SET question = ?, answer = ?, language = ?, status = ?, updated_at = ?, embedding_status = 'pending'
+         WHERE id = ?`
+      ).run(target.question, target.answer, target.language, status ?? existing.status, new Date().toISOString(), id);
+      const restored = this.getById(id)!;
+      recordRevision(restored, "restore", actor, revision);
+      auditService.record({
+        actor,
+        action: "qa.restore",
+        entityType: "qa_pair",
+        entityId: id,
+        before: auditSnapshot(existing),
+        after: { ...auditSnapshot(restored), restoredFrom: revision },
+      });
+      return restored;
+    })();
+  },
+
+  /**
+   * Moves a pair along the review workflow. Fails with 409 when the pair is not in a status
+   * the transition starts from, and with 400 when it would enter review without an answer.
+   * Approving resets the embedding status, since only published pairs are embedded; callers
+   * queue the pair so its vector follows the new status. On a published pair with a pending
+   * edit, approve applies the edit and reject discards it; the pair stays published either way.
+   */
+  transition(
+    id: string,
+    kind: QaTransition,
+    options: { comment?: string } = {},
+    actor: AuditActor = SYSTEM_ACTOR,
+  ): QAPair | null {
+    const { from, to, action } = TRANSITIONS[kind];
+    return db.transaction((): QAPair | null => {
+      const existing = this.getById(id);
+      if (!existing) return null;
+      const pending = existing.status === "published" ? existing.pending_edit : null;
+      if (pending && (kind === "approve" || kind === "reject")) {
+        const now = new Date().toISOString();
+        if (kind === "approve") {
+          this.update(id, { ...pending, status: "published" }, actor);
+        }
+        clearPendingEditStmt.run(kind === "reject" ? options.comment ?? null : null, actor.username, now, id);
+        const reviewed = this.getById(id)!;
+        auditService.record({
+          actor,
+          action,
+          entityType: "qa_pair",
+          entityId: id,
+          before: { ...auditSnapshot(existing), pendingEdit: pending },
+          after: kind === "reject" ? { ...auditSnapshot(reviewed), comment: reviewed.review_comment } : auditSnapshot(reviewed),
+        });
+        return reviewed;
+      }
+      if (!from.includes(existing.status)) {
+        throw new HttpError(409, `Cannot ${kind} a pair that is ${STATUS_LABELS[existing.status]}`);
+      }
+      requireAnswerFor(to, existing.answer);
+      const now = new Date().toISOString();
+      const reviewed = kind === "approve" || kind === "reject";
+      db.prepare(
+        `UPDATE qa_pairs
+         SET status = @status,
+             review_comment = CASE WHEN @reviewed THEN @comment ELSE review_comment END,
+             reviewed_by = CASE WHEN @reviewed THEN @reviewer ELSE reviewed_by END,
+             reviewed_at = CASE WHEN @reviewed THEN @now ELSE reviewed_at END,
+             embedding_status = CASE WHEN @status = 'published' THEN 'pending' ELSE embedding_status END,
+             pending_edit = CASE WHEN @status = 'published' THEN pending_edit ELSE NULL END,
+             updated_at = @now
+         WHERE id = @id`,
+      ).run({
+        id,
+        status: to,
+        reviewed: reviewed ? 1 : 0,
+        comment: kind === "reject" ? options.comment ?? null : null,
+        reviewer: actor.username,
+        now,
+      });
+      const updated = this.getById(id)!;
+      auditService.record({
+        actor,
+        action,
+        entityType: "qa_pair",
+        entityId: id,
+        before: auditSnapshot(existing),
+        after: kind === "reject" ? { ...auditSnapshot(updated), comment: updated.review_comment } : auditSnapshot(updated),
+      });
+      return updated;
+    })();
+  },
+
+  /**
+   * Cosine similarity between `values` and each pair's closest stored vector (its own, a
+   * variant's or a chunk's), keyed by pair id. Pairs without stored vectors are left out, and
+   * so are vectors of another dimension, left over from an earlier embedding model.
+   */
+  async similarities(values: number[], qas: QAPair[]): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    if (qas.length === 0) return scores;
+    const query = normaliseVector(values);
+    const vectors = await pineconeService.fetchVectors(qas.flatMap(vectorIdsOf));
+    let mismatched = 0;
+    for (const vector of vectors) {
+      if (vector.values.length !== query.length) {
+        mismatched += 1;
+        continue;
+      }
+      const parentId = parentIdOf(vector.id);
+      const score = dot(query, normaliseVector(vector.values));
+      scores.set(parentId, Math.max(score, scores.get(parentId) ?? -1));
+    }
+    if (mismatched > 0) {
+      console.warn(
+        `[similarities] Skipped ${mismatched} stored vector(s) with a different dimension than the query (${query.length}). Run /api/qa/resync after changing embedding models.`,
+      );
+    }
+    return scores;
+  },
+
+  /**
+   * Published pairs whose vectors lie within `threshold` of the given embedding, best first.
+   * Chunk and variant hits count for the pair they belong to.
+   */
+  async findNeighbours(
+    values: number[],
+    options: { threshold: number; excludeId?: string; limit?: number },
+  ): Promise<{ qa: QAPair; score: number }[]> {
+    const matches = await pineconeService.query({ vector: values, topK: SIMILAR_NEIGHBOURS });
+    const scores = new Map<string, number>();
+    for (const match of matches) {
+      const parentId = parentIdOf(match.id);
+      const score = match.score ?? 0;
+      if (parentId === options.excludeId || score < options.threshold) continue;
+      scores.set(parentId, Math.max(score, scores.get(parentId) ?? 0));
+    }
+    const hidden = this.findHiddenIds(Array.from(scores.keys()));
+    const pairs = new Map(
+      this.findByIds(Array.from(scores.keys()).filter((id) => !hidden.has(id))).map((qa) => [qa.id, qa]),
+    );
+    return Array.from(scores.entries())
+      .filter(([id]) => pairs.has(id))
+      .map(([id, score]) => ({ qa: pairs.get(id)!, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? SIMILAR_NEIGHBOURS);
+  },
+
+  /**
+   * Pairs close enough to the given text to be a duplicate of it: the live pair with the
+   * same question (which a create would replace) and published pairs above `threshold`.
+   * Only the exact check runs when no vector store is configured or it cannot be reached.
+   */
+  async findSimilar(
+    input: { question: string; answer: string },
+    options: { threshold: number; excludeId?: string; limit?: number },
+  ): Promise<SimilarPair[]> {
+    const question = normaliseQuestion(input.question);
+    const exact = this.getByQuestion(question);
+    const results: SimilarPair[] =
+      exact && exact.id !== options.excludeId ? [{ qa: exact, score: 1, exact: true }] : [];
+    if (!pineconeService.isConfigured()) return results;
+
+    let neighbours: { qa: QAPair; score: number }[];
+    try {
+      const { embedding } = await embeddingService.embed(`${question}\n\n${normaliseAnswer(input.answer)}`);
+      if (!embedding || embedding.length === 0) return results;
+      neighbours = await this.findNeighbours(embedding, {
+        threshold: options.threshold,
+        ...(options.excludeId !== undefined ? { excludeId: options.excludeId } : {}),
+        ...(options.limit !== undefined ? { limit: options.limit } : {}),
+      });
+    } catch (error) {
+      // The check is advisory; an unreachable store must not block saving.
+      console.warn("[findSimilar] Similarity check failed, falling back to the exact question match:", error);
+      return results;
+    }
+    for (const { qa, score } of neighbours) {
+      if (qa.id !== exact?.id) results.push({ qa, score, exact: false });
+    }
+    return results.slice(0, options.limit ?? SIMILAR_NEIGHBOURS);
+  },
+
+  /**
+   * Compares every published pair's stored vector against the index and groups pairs that
+   * are within `threshold` of each other, directly or through a chain of close pairs.
+   * Clusters are ordered by their closest pair.
+   */
+  async findDuplicates(threshold: number): Promise<DuplicateReport> {
+    if (!pineconeService.isConfigured()) {
+      return { threshold, scanned: 0, clusters: [] };
+    }
+    const published = db
+      .prepare("SELECT * FROM qa_pairs WHERE deleted_at IS NULL AND status = 'published' ORDER BY created_at")
+      .all()
+      .map(mapRow);
+    const byId = new Map(published.map((qa) => [qa.id, qa]));
+    const edges = new Map<string, { a: string; b: string; score: number }>();
+    let scanned = 0;
+
+    for (let offset = 0; offset < published.length; offset += FETCH_BATCH_SIZE) {
+      const batch = published.slice(offset, offset + FETCH_BATCH_SIZE);
+      const vectors = await pineconeService.fetchVectors(batch.map(primaryVectorId));
+      for (const vector of vectors) {
+        const qaId = parentIdOf(vector.id);
+        scanned += 1;
+        const neighbours = await this.findNeighbours(vector.values, { threshold, excludeId: qaId });
+        for (const { qa, score } of neighbours) {
+          const [a, b] = [qaId, qa.id].sort() as [string, string];
+          const key = `${a}\u0000${b}`;
+          if ((edges.get(key)?.score ?? 0) < score) {
+            edges.set(key, { a, b, score });
+          }
+        }
+      }
+    }
+
+    // Union-find over the edges, so A~B and B~C end up in one cluster.
+    const parents = new Map<string, string>();
+    const root = (id: string): string => {
+      let current = id;
+      while (parents.has(current)) current = parents.get(current)!;
+      return current;
+    };
+    for (const { a, b } of edges.values()) {
+      const rootA = root(a);
+      const rootB = root(b);
+      if (rootA !== rootB) parents.set(rootB, rootA);
+    }
+
+    const clusters = new Map<string, DuplicateCluster>();
+    for (const edge of edges.values()) {
+      const key = root(edge.a);
+      const cluster = clusters.get(key) ?? { pairs: [], edges: [], maxScore: 0 };
+      cluster.edges.push(edge);
+      cluster.maxScore = Math.max(cluster.maxScore, edge.score);
+      clusters.set(key, cluster);
+    }
+    for (const [key, cluster] of clusters) {
+      const ids = new Set(cluster.edges.flatMap((edge) => [edge.a, edge.b]));
+      cluster.pairs = Array.from(ids)
+        .map((id) => byId.get(id))
+        .filter((qa): qa is QAPair => qa !== undefined);
+      cluster.edges.sort((a, b) => b.score - a.score);
+      clusters.set(key, cluster);
     }
 
-    const id = randomUUID();
-    db.prepare(
-      `INSERT INTO qa_pairs (id, question, answer, language, pinecone_id, embedding_status, created_at, updated_at)
-       VALUES (?, ?, ?, ?, NULL, 'pending', ?, ?)`
-    ).run(id, question, answer, language, now, now);
     return {
-      record: this.getById(id)!,
-      replaced: false,
+      threshold,
+      scanned,
+      clusters: Array.from(clusters.values()).sort((a, b) => b.maxScore - a.maxScore),
     };
   },
 
-  update(id: string, input: { question: string; answer: string; language?: string }): QAPair | null {
-    const existing = this.getById(id);
-    if (!existing) return null;
-    const question = normaliseQuestion(input.question);
-    const answer = normaliseAnswer(input.answer);
-    const language = input.language ?? existing.language ?? "ru";
-    const now = new Date().toISOString();
-    db.prepare(
-      `UPDATE qa_pairs
-       SET question = ?, answer = ?, language = ?, updated_at = ?, embedding_status = 'pending'
-       WHERE id = ?`
-    ).run(question, answer, language, now, id);
-    return this.getById(id);
+  /**
+   * Folds `sourceId` into `targetId`. The target keeps its id and takes the given text (its
+   * own by default); whichever of the two questions is not kept becomes a variant, and tags
+   * and variants of both are combined. The source's revisions move onto the target, numbered
+   * after the target's own and marked with where they came from, before the source row is
+   * deleted, so the history of both pairs stays readable in one place. The source's vectors
+   * are removed once the merge is committed (a failed removal leaves orphans for the next
+   * reconcile resync); callers queue the target for re-embedding.
+   * Returns null when either pair does not exist.
+   */
+  async merge(
+    targetId: string,
+    sourceId: string,
+    input: MergeInput = {},
+    actor: AuditActor = SYSTEM_ACTOR,
+  ): Promise<QAPair | null> {
+    if (targetId === sourceId) {
+      throw new HttpError(400, "A pair cannot be merged into itself");
+    }
+    const source = this.getById(sourceId);
+    if (!source || !this.getById(targetId)) return null;
+    const conflict = input.question !== undefined ? this.getByQuestion(input.question) : null;
+    if (conflict && conflict.id !== targetId && conflict.id !== sourceId) {
+      throw new HttpError(409, "Another pair already has this question");
+    }
+
+    const merged = db.transaction((): QAPair | null => {
+      const target = this.getById(targetId);
+      const current = this.getById(sourceId);
+      if (!target || !current) return null;
+
+      const question = input.question !== undefined ? normaliseQuestion(input.question) : target.question;
+      const answer = input.answer !== undefined ? normaliseAnswer(input.answer) : target.answer;
+      const offset = (maxRevisionStmt.get(targetId) as { revision: number }).revision;
+      moveRevisionsStmt.run({ target: targetId, source: sourceId, offset });
+      // Feedback follows the content; where both pairs got the same vote in one search, the target's is kept.
+      db.prepare("UPDATE OR IGNORE search_feedback SET qa_id = ? WHERE qa_id = ?").run(targetId, sourceId);
+      // Removed before the target is rewritten so the target may take over the source's question.
+      db.prepare("DELETE FROM qa_pairs WHERE id = ?").run(sourceId);
+
+      db.prepare(
+        `UPDATE qa_pairs
+         SET question = ?, answer = ?, language = ?, category = ?, status = ?, updated_at = ?, embedding_status = 'pending'
+         WHERE id = ?`
+      ).run(
+        question,
+        answer,
+        input.language ?? target.language,
+        target.category ?? current.category,
+        input.status ?? target.status,
+        new Date().toISOString(),
+        targetId,
+      );
+      setTags(targetId, [...target.tags, ...current.tags]);
+      setVariants(targetId, question, [
+        ...target.variants,
+        target.question,
+        current.question,
+        ...current.variants,
+      ]);
+      const merged = this.getById(targetId)!;
+      recordRevision(merged, "merge", actor, null, sourceId);
+      auditService.record({
+        actor,
+        action: "qa.merge",
+        entityType: "qa_pair",
+        entityId: targetId,
+        before: { target: auditSnapshot(target), source: auditSnapshot(current) },
+        after: auditSnapshot(merged),
+      });
+      return merged;
+    })();
+
+    if (merged) {
+      await this.removeVector(source);
+    }
+    return merged;
+  },
+
+  /** Tags and categories in use on live pairs, with how many pairs carry each; feeds the filter chips. */
+  listTagCounts(status?: QaStatus): { tags: TagCount[]; categories: TagCount[] } {
+    const statusClause = status ? "AND qa_pairs.status = ?" : "";
+    const params = status ? [status] : [];
+    const tags = db
+      .prepare(
+        `SELECT tags.name, COUNT(*) AS count FROM qa_pair_tags
+         JOIN tags ON tags.id = qa_pair_tags.tag_id
+         JOIN qa_pairs ON qa_pairs.id = qa_pair_tags.qa_id
+         WHERE qa_pairs.deleted_at IS NULL ${statusClause}
+         GROUP BY tags.name
+         ORDER BY tags.name`,
+      )
+      .all(...params) as TagCount[];
+    const categories = db
+      .prepare(
+        `SELECT category AS name, COUNT(*) AS count FROM qa_pairs
+         WHERE deleted_at IS NULL AND category IS NOT NULL ${statusClause}
+         GROUP BY category
+         ORDER BY category`,
+      )
+      .all(...params) as TagCount[];
+    return { tags, categories };
   },
 
-  delete(id: string): boolean {
-    const result = db.prepare("DELETE FROM qa_pairs WHERE id = ?").run(id);
-    return result.changes > 0;
+  /** Live pairs per status, for the review queue badge and the status filter. */
+  statusCounts(): Record<QaStatus, number> {
+    const rows = db
+      .prepare("SELECT status, COUNT(*) as count FROM qa_pairs WHERE deleted_at IS NULL GROUP BY status")
+      .all() as { status: QaStatus; count: number }[];
+    const counts = Object.fromEntries(QA_STATUSES.map((status) => [status, 0])) as Record<QaStatus, number>;
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    // Published pairs with an edit waiting for approval are in the review queue too.
+    counts.in_review += (pendingEditCountStmt.get() as { count: number }).count;
+    return counts;
   },
 
   count(): number {
@@ -161,105 +1285,164 @@ export const qaService = {
   findByIds(ids: string[]): QAPair[] {
     if (ids.length === 0) return [];
     const placeholders = ids.map(() => "?").join(",");
-    const rows = db.prepare(`SELECT * FROM qa_pairs WHERE id IN (${placeholders})`).all(...ids);
+    const rows = db
+      .prepare(`SELECT * FROM qa_pairs WHERE id IN (${placeholders}) AND deleted_at IS NULL AND status = 'published'`)
+      .all(...ids);
     return rows.map(mapRow);
   },
 
+  /** Feedback totals for the given pairs; pairs nobody has given feedback on are left out. */
+  feedbackByIds(ids: string[]): Map<string, FeedbackSummary> {
+    if (ids.length === 0) return new Map();
+    const placeholders = ids.map(() => "?").join(",");
+    const rows = db
+      .prepare(
+        `SELECT qa_id, SUM(kind = 'helpful') AS helpful, SUM(kind = 'unhelpful') AS unhelpful, SUM(kind = 'used') AS used
+         FROM search_feedback WHERE qa_id IN (${placeholders}) GROUP BY qa_id`,
+      )
+      .all(...ids) as ({ qa_id: string } & Omit<FeedbackSummary, "score">)[];
+    return new Map(
+      rows.map(({ qa_id, ...counts }) => [qa_id, { ...counts, score: helpfulnessScore(counts) }]),
+    );
+  },
+
+  /**
+   * Which of the given ids must not be served by search: trashed pairs, whose vectors linger
+   * until the purge, and unpublished ones whose vector removal is still queued.
+   */
+  findHiddenIds(ids: string[]): Set<string> {
+    if (ids.length === 0) return new Set();
+    const placeholders = ids.map(() => "?").join(",");
+    const rows = db
+      .prepare(
+        `SELECT id FROM qa_pairs
+         WHERE id IN (${placeholders}) AND (deleted_at IS NOT NULL OR status != 'published')`,
+      )
+      .all(...ids) as { id: string }[];
+    return new Set(rows.map((row) => row.id));
+  },
+
   searchByText(query: string, limit = 10): QAPair[] {
-    const { where, params } = buildSearchClause(query);
+    const { where, params } = buildSearchClause({ search: query, status: "published" });
     const rows = db
       .prepare(`SELECT * FROM qa_pairs ${where} ORDER BY updated_at DESC LIMIT ?`)
       .all(...params, limit);
     return rows.map(mapRow);
   },
 
+  /** BM25-ranked full-text hits; `score` is the negated bm25() value, so higher is better. */
+  searchLexical(query: string, limit = 10, filters: QaFilters = {}): LexicalHit[] {
+    const match = buildMatchExpression(query);
+    if (!match) return [];
+    const { clauses, params } = buildFilterClauses(filters);
+    const rows = db
+      .prepare(
+        `SELECT qa_pairs.*, -bm25(qa_pairs_fts) AS lexical_score
+         FROM qa_pairs_fts
+         JOIN qa_pairs ON qa_pairs.rowid = qa_pairs_fts.rowid
+         WHERE qa_pairs_fts MATCH ? AND qa_pairs.deleted_at IS NULL AND qa_pairs.status = 'published'
+         ${clauses.map((clause) => `AND ${clause}`).join(" ")}
+         ORDER BY bm25(qa_pairs_fts)
+         LIMIT ?`,
+      )
+      .all(match, ...params, limit) as Array<Record<string, unknown> & { lexical_score: number }>;
+    return rows.map((row) => ({ qa: mapRow(row), score: row.lexical_score }));
+  },
+
   async syncVector(qa: QAPair): Promise<void> {
+    await this.syncVectors([qa]);
+  },
+
+  /**
+   * Embeds and upserts a batch of pairs with one embedding call and one upsert call
+   * (each split further only where the provider's request limits require it).
+   * Each pair gets one vector for its question and answer plus one per question variant.
+   * Either the whole batch is marked ready or the whole batch is marked failed.
+   */
+  async syncVectors(batch: QAPair[]): Promise<void> {
+    // Only published pairs are searchable; any other status means the vector has to go.
+    const unpublished = batch.filter((qa) => qa.status !== "published");
+    if (unpublished.length > 0) {
+      await this.removeUnpublishedVectors(unpublished);
+    }
+    const qas = batch.filter((qa) => qa.status === "published");
+    if (qas.length === 0) return;
+    const ids = qas.map((qa) => qa.id);
     try {
-      const text = `${qa.question}\n\n${qa.answer}`;
-      console.log(`[syncVector] Syncing QA ${qa.id}, question: "${qa.question.substring(0, 50)}..."`);
-      const { embedding, model } = await embeddingService.embed(text);
-      console.log(`[syncVector] Embedding model: ${model}, dimension: ${embedding.length}`);
-      if (!embedding || embedding.length === 0) {
-        console.warn(`[syncVector] No embedding for QA ${qa.id}, skipping`);
-        db.prepare("UPDATE qa_pairs SET embedding_status = ? WHERE id = ?").run("skipped", qa.id);
-        return;
-      }
-      const metadata = {
-        question: qa.question,
-        answer: qa.answer,
-        language: qa.language,
-      };
-      console.log(`[syncVector] Upserting to Pinecone with metadata:`, JSON.stringify(metadata, null, 2));
-      await pineconeService.upsertVector({
-        id: qa.id,
-        values: embedding,
-        metadata,
+      const planned = qas.map((qa) => ({ qa, ...planVectors(qa) }));
+      const pending = planned.flatMap(({ qa, vectors }) => vectors.map((vector) => ({ qa, ...vector })));
+      console.log(`[syncVectors] Syncing ${qas.length} QA pair(s) as ${pending.length} vector(s)`);
+      const { embeddings, model, dimension } = await embeddingService.embedMany(pending.map((entry) => entry.text));
+      console.log(`[syncVectors] Embedding model: ${model}, dimension: ${dimension}`);
+
+      // A pair is only synced when every one of its vectors could be embedded.
+      const skippedIds = new Set(
+        pending.filter((_, index) => (embeddings[index]?.length ?? 0) === 0).map((entry) => entry.qa.id),
+      );
+      const records: VectorRecord[] = [];
+      pending.forEach((entry, index) => {
+        const embedding = embeddings[index];
+        if (!embedding || skippedIds.has(entry.qa.id)) return;
+        records.push({ id: entry.id, values: embedding, metadata: entry.metadata });
       });
-      
-      await new Promise((resolve) => setTimeout(resolve, 300));
-      
-      console.log(`[syncVector] Successfully synced QA ${qa.id} to Pinecone (id=${qa.id}, has metadata: question="${metadata.question?.substring(0, 30)}...", answer length=${metadata.answer?.length ?? 0})`);
-      db.prepare(
-        `UPDATE qa_pairs
-         SET pinecone_id = ?, embedding_status = 'ready', updated_at = CURRENT_TIMESTAMP
-         WHERE id = ?`
-      ).run(qa.id, qa.id);
+      const ready = planned.filter(({ qa }) => !skippedIds.has(qa.id));
+      const skipped = Array.from(skippedIds);
+
+      await pineconeService.upsertVectors(records);
+      // Chunks and variants that no longer exist, and the single vector of an answer that is now chunked (or vice versa).
+      const leftoverIds = ready.flatMap(({ qa, vectors }) => {
+        const current = new Set(vectors.map((vector) => vector.id));
+        return vectorIdsOf(qa).filter((id) => !current.has(id));
+      });
+      if (leftoverIds.length > 0) {
+        await pineconeService.deleteVectors(leftoverIds);
+      }
+
+      db.transaction(() => {
+        for (const { qa, chunkCount } of ready) {
+          markReadyStmt.run(qa.id, qa.id);
+          setStoredVectorsStmt.run(qa.variants.length, chunkCount, qa.id);
+        }
+        for (const id of skipped) {
+          console.warn(`[syncVectors] No embedding for QA ${id}, skipping`);
+          markStatusStmt.run("skipped", id);
+        }
+      })();
+      console.log(`[syncVectors] Upserted ${records.length} vector(s) for ${ready.length} pair(s) to ${pineconeService.backend}`);
     } catch (error) {
-      console.error(`[syncVector] Failed to sync QA ${qa.id}:`, error);
-      db.prepare(
-        `UPDATE qa_pairs
-         SET embedding_status = 'failed', updated_at = CURRENT_TIMESTAMP
-         WHERE id = ?`
-      ).run(qa.id);
+      console.error(`[syncVectors] Failed to sync ${qas.length} QA pair(s):`, error);
+      db.transaction(() => {
+        for (const id of ids) {
+          markStatusStmt.run("failed", id);
+        }
+      })();
       throw error;
     }
   },
 
-  async syncVectorWithRetry(qa: QAPair, maxAttempts = 3): Promise<void> {
-    let syncAttempts = 0;
-    let syncSuccess = false;
-    const qaId = qa.id;
-    
-    while (syncAttempts < maxAttempts && !syncSuccess) {
-      syncAttempts += 1;
-      try {
-        await this.syncVector(qa);
-        console.log(`[syncVectorWithRetry] Successfully synced QA ${qaId} to Pinecone (attempt ${syncAttempts})`);
-        syncSuccess = true;
-      } catch (error) {
-        console.error(`[syncVectorWithRetry] Failed to sync Pinecone for QA ${qaId} (attempt ${syncAttempts}/${maxAttempts}):`, error);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`[syncVectorWithRetry] Error details:`, errorMessage);
-        
-        if (syncAttempts < maxAttempts) {
-          const delay = syncAttempts * 1000;
-          console.log(`[syncVectorWithRetry] Retrying sync in ${delay}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          qa = this.getById(qaId)!;
-          if (!qa) {
-            throw new Error(`QA ${qaId} not found after retry delay`);
-          }
-        } else {
-          console.error(`[syncVectorWithRetry] All ${maxAttempts} sync attempts failed for QA ${qaId}`);
-          throw error;
-        }
-      }
+  /** Deletes the vectors of pairs that left (or never reached) the published status. Throws so the queue retries. */
+  async removeUnpublishedVectors(qas: QAPair[]): Promise<void> {
+    if (pineconeService.isConfigured()) {
+      await pineconeService.deleteVectors(qas.flatMap(vectorIdsOf));
     }
+    db.transaction(() => {
+      for (const qa of qas) {
+        markStatusStmt.run("unpublished", qa.id);
+        setStoredVectorsStmt.run(0, 0, qa.id);
+      }
+    })();
   },
 
   async removeVector(qa: QAPair): Promise<{ removed: boolean; skipped: boolean; error?: string }> {
     if (!pineconeService.isConfigured()) {
       return { removed: false, skipped: true };
     }
-    const vectorId = qa.pinecone_id ?? qa.id;
-    if (!vectorId) {
-      return { removed: false, skipped: true };
-    }
+    const vectorIds = vectorIdsOf(qa);
     try {
-      await pineconeService.deleteVector(vectorId);
+      await pineconeService.deleteVectors(vectorIds);
       return { removed: true, skipped: false };
     } catch (error) {
-      console.warn("Failed to remove Pinecone vector", vectorId, error);
+      console.warn("Failed to remove Pinecone vectors", vectorIds, error);
       return {
         removed: false,
         skipped: false,
@@ -268,30 +1451,31 @@ export const qaService = {
     }
   },
 
-  async deleteAll(): Promise<{ deleted: number; vectorFailures: string[] }> {
-    const rows = listIdsStmt.all() as { id: string; pinecone_id: string | null }[];
-    const vectorIds = rows
-      .map((row) => row.pinecone_id ?? row.id)
-      .filter((value): value is string => typeof value === "string" && value.length > 0);
-    const vectorFailures: string[] = [];
-
-    if (vectorIds.length > 0 && pineconeService.isConfigured()) {
-      try {
-        await pineconeService.deleteVectors(vectorIds);
-      } catch (error) {
-        console.error("Failed to delete Pinecone vectors in bulk", error);
-        vectorFailures.push(...vectorIds);
-      }
-    }
-
-    const info = db.prepare("DELETE FROM qa_pairs").run();
-    return {
-      deleted: typeof info.changes === "number" ? info.changes : rows.length,
-      vectorFailures,
-    };
+  /** Moves every live pair to the trash in one step; vectors stay until the pairs are purged. */
+  deleteAll(actor: AuditActor = SYSTEM_ACTOR): { deleted: number } {
+    return db.transaction((): { deleted: number } => {
+      const snapshot = db
+        .prepare("SELECT * FROM qa_pairs WHERE deleted_at IS NULL ORDER BY created_at")
+        .all()
+        .map((row) => auditSnapshot(mapRow(row)));
+      const info = db
+        .prepare("UPDATE qa_pairs SET deleted_at = ?, deleted_by = ? WHERE deleted_at IS NULL")
+        .run(new Date().toISOString(), actor.username);
+      auditService.record({
+        actor,
+        action: "qa.delete_all",
+        entityType: "qa_pair",
+        entityId: null,
+        before: { count: snapshot.length, items: snapshot },
+        after: { deleted: info.changes },
+      });
+      return { deleted: info.changes };
+    })();
   },
 
-  async resyncAll(): Promise<{ total: number; synced: number; failed: number; errors: string[] }> {
+  async resyncAll(
+    actor: AuditActor = SYSTEM_ACTOR,
+  ): Promise<{ total: number; synced: number; failed: number; errors: string[] }> {
     console.log(`[resyncAll] Starting resync - clearing Pinecone namespace first`);
     try {
       await pineconeService.deleteAllVectors();
@@ -300,38 +1484,153 @@ export const qaService = {
       console.error(`[resyncAll] Failed to clear Pinecone namespace:`, error);
     }
 
-    const allRows = db.prepare("SELECT * FROM qa_pairs ORDER BY updated_at DESC").all();
+    const allRows = db
+      .prepare("SELECT * FROM qa_pairs WHERE deleted_at IS NULL AND status = 'published' ORDER BY updated_at DESC")
+      .all();
     const allQa = allRows.map(mapRow);
     const total = allQa.length;
+    const { csvBatchSize } = settingsService.get();
     let synced = 0;
     let failed = 0;
     const errors: string[] = [];
 
-    console.log(`[resyncAll] Starting resync of ${total} QA pairs`);
+    console.log(`[resyncAll] Starting resync of ${total} QA pairs in batches of ${csvBatchSize}`);
 
-    for (const qa of allQa) {
+    for (let offset = 0; offset < total; offset += csvBatchSize) {
+      const batch = allQa.slice(offset, offset + csvBatchSize);
       try {
-        await this.syncVectorWithRetry(qa);
-        synced += 1;
-        if (synced % 10 === 0) {
-          console.log(`[resyncAll] Progress: ${synced}/${total} synced`);
-        }
+        await this.syncVectors(batch);
+        synced += batch.length;
+        console.log(`[resyncAll] Progress: ${synced}/${total} synced`);
       } catch (error) {
-        failed += 1;
+        failed += batch.length;
         const errorMsg = error instanceof Error ? error.message : String(error);
-        errors.push(`QA ${qa.id}: ${errorMsg}`);
-        console.error(`[resyncAll] Failed to sync QA ${qa.id}:`, error);
+        errors.push(`QA ${batch[0]!.id}..${batch[batch.length - 1]!.id} (${batch.length} pairs): ${errorMsg}`);
+        console.error(`[resyncAll] Failed to sync batch starting at ${offset}:`, error);
       }
     }
 
     console.log(`[resyncAll] Completed: ${synced} synced, ${failed} failed out of ${total} total`);
 
-    return {
+    const result = {
       total,
       synced,
       failed,
       errors: errors.slice(0, 50),
     };
+    auditService.record({
+      actor,
+      action: "qa.resync",
+      entityType: "qa_pair",
+      entityId: null,
+      before: null,
+      after: { mode: "full", total, synced, failed },
+    });
+    return result;
+  },
+
+  /**
+   * Brings the vector store in line with SQLite without clearing it first: only missing
+   * or stale vectors are re-embedded and only orphans are deleted, so search keeps working
+   * throughout. With `dryRun` the diff is computed and returned but nothing is written.
+   */
+  async reconcileVectors(
+    options: { dryRun?: boolean } = {},
+    actor: AuditActor = SYSTEM_ACTOR,
+  ): Promise<ReconcileReport> {
+    const dryRun = options.dryRun ?? false;
+    const allQa = db
+      .prepare("SELECT * FROM qa_pairs WHERE deleted_at IS NULL AND status = 'published' ORDER BY updated_at DESC")
+      .all()
+      .map(mapRow);
+    const stored = await pineconeService.listVectors();
+    const storedById = new Map(stored.map((vector) => [vector.id, vector]));
+    // Trashed pairs are neither re-embedded nor treated as orphans; the trash purge owns their vectors.
+    // Vectors of live but unpublished pairs are orphans and get deleted.
+    const trashedIds = db.prepare("SELECT id FROM qa_pairs WHERE deleted_at IS NOT NULL").all() as { id: string }[];
+    const qaIds = new Set([...allQa.map((qa) => qa.id), ...trashedIds.map((row) => row.id)]);
+
+    const expectedIds = new Map(
+      allQa.map((qa) => [qa.id, new Set(planVectors(qa).vectors.map((vector) => vector.id))]),
+    );
+
+    // A pair is missing or stale as a whole when any of its vectors (chunk or variant) is.
+    const missing: QAPair[] = [];
+    const stale: QAPair[] = [];
+    for (const qa of allQa) {
+      const hash = textHash(qa);
+      const vectors = Array.from(expectedIds.get(qa.id) ?? []).map((id) => storedById.get(id));
+      if (vectors.some((vector) => !vector)) {
+        missing.push(qa);
+      } else if (vectors.some((vector) => vector?.metadata?.textHash !== hash)) {
+        stale.push(qa);
+      }
+    }
+    // Vectors of removed variants or chunks are orphans too, even though their pair is still live.
+    const orphans = stored
+      .map((vector) => vector.id)
+      .filter((id) => {
+        const parentId = parentIdOf(id);
+        if (!qaIds.has(parentId)) return true;
+        const expected = expectedIds.get(parentId);
+        return expected !== undefined && !expected.has(id);
+      });
+
+    console.log(
+      `[reconcileVectors] ${allQa.length} pairs, ${stored.length} vectors: ${missing.length} missing, ${stale.length} stale, ${orphans.length} orphans${dryRun ? " (dry run)" : ""}`,
+    );
+
+    const report: ReconcileReport = {
+      mode: "reconcile",
+      dryRun,
+      total: allQa.length,
+      vectors: stored.length,
+      upToDate: allQa.length - missing.length - stale.length,
+      missing: { count: missing.length, ids: missing.slice(0, RECONCILE_REPORT_ID_LIMIT).map((qa) => qa.id) },
+      stale: { count: stale.length, ids: stale.slice(0, RECONCILE_REPORT_ID_LIMIT).map((qa) => qa.id) },
+      orphans: { count: orphans.length, ids: orphans.slice(0, RECONCILE_REPORT_ID_LIMIT) },
+      upserted: 0,
+      deleted: 0,
+      failed: 0,
+      errors: [],
+    };
+    if (dryRun) return report;
+
+    const toSync = [...missing, ...stale];
+    const { csvBatchSize } = settingsService.get();
+    for (let offset = 0; offset < toSync.length; offset += csvBatchSize) {
+      const batch = toSync.slice(offset, offset + csvBatchSize);
+      try {
+        await this.syncVectors(batch);
+        report.upserted += batch.length;
+      } catch (error) {
+        report.failed += batch.length;
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        report.errors.push(`QA ${batch[0]!.id}..${batch[batch.length - 1]!.id} (${batch.length} pairs): ${errorMsg}`);
+      }
+    }
+
+    if (orphans.length > 0) {
+      try {
+        await pineconeService.deleteVectors(orphans);
+        report.deleted = orphans.length;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        report.errors.push(`Failed to delete ${orphans.length} orphan vectors: ${errorMsg}`);
+      }
+    }
+
+    report.errors = report.errors.slice(0, 50);
+    console.log(`[reconcileVectors] Completed: ${report.upserted} upserted, ${report.deleted} deleted, ${report.failed} failed`);
+    auditService.record({
+      actor,
+      action: "qa.reconcile",
+      entityType: "qa_pair",
+      entityId: null,
+      before: { missing: report.missing.count, stale: report.stale.count, orphans: report.orphans.count },
+      after: { upserted: report.upserted, deleted: report.deleted, failed: report.failed },
+    });
+    return report;
   },
 };
 
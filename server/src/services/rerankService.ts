@@ -110,7 +110,12 @@ export const rerankService = {
     return getCandidateModels();
   },
 
-  async rerank(query: string, candidates: RerankCandidate[], topK: number): Promise<RerankExecution> {
+  async rerank(
+    query: string,
+    candidates: RerankCandidate[],
+    topK: number,
+    log: (line: string) => void = console.log,
+  ): Promise<RerankExecution> {
     const attemptedModels: string[] = [];
     const modelErrors: string[] = [];
     let usageDetails: RerankUsageDetails | null = null;
@@ -137,8 +142,8 @@ export const rerankService = {
     }
 
     const documents = candidates.map((candidate) => candidate.text);
-    console.log(`[Rerank] Processing ${candidates.length} candidates, query: "${query.substring(0, 50)}..."`);
-    console.log(`[Rerank] First candidate ID: ${candidates[0]?.id}, text preview: "${candidates[0]?.text.substring(0, 50)}..."`);
+    log(`[Rerank] Processing ${candidates.length} candidates, query: "${query.substring(0, 50)}..."`);
+    log(`[Rerank] First candidate ID: ${candidates[0]?.id}, text preview: "${candidates[0]?.text.substring(0, 50)}..."`);
     
     for (const model of getCandidateModels()) {
       attemptedModels.push(model);
@@ -161,7 +166,7 @@ export const rerankService = {
           .filter((value): value is RerankResult => Boolean(value))
           .slice(0, topK);
         
-        console.log(`[Rerank] Model ${model} returned ${results.length} results, top score: ${results[0]?.score ?? 0}, top ID: ${results[0]?.id ?? "none"}`);
+        log(`[Rerank] Model ${model} returned ${results.length} results, top score: ${results[0]?.score ?? 0}, top ID: ${results[0]?.id ?? "none"}`);
 
         if (results.length > 0) {
           return {
@@ -0,0 +1,170 @@
+import { db } from "../lib/db";
+
+export interface SearchLogInput {
+  userId: string | null;
+  username: string | null;
+  query: string;
+  /** The language the results were limited to, or null when every language was searched. */
+  language: string | null;
+  detectedLanguage: string | null;
+  category: string | null;
+  tags: string[];
+  results: { id: string; score: number }[];
+  rerankApplied: boolean;
+  rerankerRejected: boolean;
+  feedbackBoost: boolean;
+  latencyMs: number;
+}
+
+/** A time window; both bounds are UTC ISO strings and inclusive. */
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+export interface AnalyticsSummary {
+  searches: number;
+  uniqueQueries: number;
+  zeroResults: number;
+  rerankerRejected: number;
+  avgLatencyMs: number | null;
+}
+
+export interface QueryStat {
+  /** The most recent spelling of the query. */
+  query: string;
+  normalizedQuery: string;
+  count: number;
+  zeroResults: number;
+  avgTopScore: number | null;
+  lastSearchedAt: string;
+}
+
+export interface TrendPoint {
+  date: string;
+  searches: number;
+  zeroResults: number;
+  rerankerRejected: number;
+  avgLatencyMs: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Case, spacing and trailing punctuation do not make a different question. */
+export const normaliseQuery = (query: string): string =>
+  query.trim().toLowerCase().replace(/\s+/g, " ").replace(/[\s?!.]+$/u, "");
+
+const insertStmt = db.prepare(
+  `INSERT INTO search_log
+     (created_at, user_id, username, query, normalized_query, language, detected_language, category, tags,
+      top_ids, top_scores, result_count, rerank_applied, reranker_rejected, latency_ms, feedback_boost)
+   VALUES (@created_at, @user_id, @username, @query, @normalized_query, @language, @detected_language, @category, @tags,
+      @top_ids, @top_scores, @result_count, @rerank_applied, @reranker_rejected, @latency_ms, @feedback_boost)`,
+);
+
+const selectResultIdsStmt = db.prepare("SELECT user_id, top_ids FROM search_log WHERE id = ?");
+
+const roundOrNull = (value: number | null, digits = 0): number | null =>
+  value === null ? null : Number(value.toFixed(digits));
+
+export const searchLogService = {
+  /**
+   * Stores one search and returns its id, which the client sends back with feedback. The ids
+   * and scores of every shown result are kept (at most `topK`), so feedback can be checked
+   * against what was actually shown.
+   */
+  record(entry: SearchLogInput): number {
+    const info = insertStmt.run({
+      created_at: new Date().toISOString(),
+      user_id: entry.userId,
+      username: entry.username,
+      query: entry.query,
+      normalized_query: normaliseQuery(entry.query),
+      language: entry.language,
+      detected_language: entry.detectedLanguage,
+      category: entry.category,
+      tags: entry.tags.length > 0 ? entry.tags.join(",") : null,
+      top_ids: JSON.stringify(entry.results.map((result) => result.id)),
+      top_scores: JSON.stringify(entry.results.map((result) => result.score)),
+      result_count: entry.results.length,
+      rerank_applied: entry.rerankApplied ? 1 : 0,
+      reranker_rejected: entry.rerankerRejected ? 1 : 0,
+      feedback_boost: entry.feedbackBoost ? 1 : 0,
+      latency_ms: Math.round(entry.latencyMs),
+    });
+    return Number(info.lastInsertRowid);
+  },
+
+  /** Who ran a search and the ids of the results it showed, or null when there is no such search. */
+  getResults(searchId: number): { userId: string | null; resultIds: string[] } | null {
+    const row = selectResultIdsStmt.get(searchId) as { user_id: string | null; top_ids: string } | undefined;
+    return row ? { userId: row.user_id, resultIds: JSON.parse(row.top_ids) as string[] } : null;
+  },
+
+  summary(range: AnalyticsRange): AnalyticsSummary {
+    const row = db
+      .prepare(
+        `SELECT COUNT(*) AS searches,
+                COUNT(DISTINCT normalized_query) AS uniqueQueries,
+                COALESCE(SUM(result_count = 0), 0) AS zeroResults,
+                COALESCE(SUM(reranker_rejected), 0) AS rerankerRejected,
+                AVG(latency_ms) AS avgLatencyMs
+         FROM search_log
+         WHERE created_at >= ? AND created_at <= ?`,
+      )
+      .get(range.from, range.to) as AnalyticsSummary;
+    return { ...row, avgLatencyMs: roundOrNull(row.avgLatencyMs) };
+  },
+
+  /** The most frequent queries; with `zeroResultsOnly`, only searches that showed nothing count. */
+  topQueries(range: AnalyticsRange, limit: number, options: { zeroResultsOnly?: boolean } = {}): QueryStat[] {
+    const zeroClause = options.zeroResultsOnly ? "AND result_count = 0" : "";
+    // SQLite fills bare columns from the row MAX(created_at) picked, so `query` is the latest spelling.
+    const rows = db
+      .prepare(
+        `SELECT query, normalized_query AS normalizedQuery,
+                COUNT(*) AS count,
+                SUM(result_count = 0) AS zeroResults,
+                AVG(CASE WHEN result_count > 0 THEN json_extract(top_scores, '$[0]') END) AS avgTopScore,
+                MAX(created_at) AS lastSearchedAt
+         FROM search_log
+         WHERE created_at >= ? AND created_at <= ? ${zeroClause}
+         GROUP BY normalized_query
+         ORDER BY count DESC, lastSearchedAt DESC
+         LIMIT ?`,
+      )
+      .all(range.from, range.to, limit) as QueryStat[];
+    return rows.map((row) => ({ ...row, avgTopScore: roundOrNull(row.avgTopScore, 4) }));
+  },
+
+  /** Per-day counts over the range, with empty days included so charts have no gaps. */
+  trends(range: AnalyticsRange): TrendPoint[] {
+    const rows = db
+      .prepare(
+        `SELECT substr(created_at, 1, 10) AS date,
+                COUNT(*) AS searches,
+                SUM(result_count = 0) AS zeroResults,
+                SUM(reranker_rejected) AS rerankerRejected,
+                AVG(latency_ms) AS avgLatencyMs
+         FROM search_log
+         WHERE created_at >= ? AND created_at <= ?
+         GROUP BY date
+         ORDER BY date`,
+      )
+      .all(range.from, range.to) as TrendPoint[];
+    const byDate = new Map(rows.map((row) => [row.date, row]));
+
+    const points: TrendPoint[] = [];
+    const end = new Date(range.to).getTime();
+    for (let day = new Date(range.from.slice(0, 10)).getTime(); day <= end; day += DAY_MS) {
+      const date = new Date(day).toISOString().slice(0, 10);
+      const row = byDate.get(date);
+      points.push(
+        row
+          ? { ...row, avgLatencyMs: roundOrNull(row.avgLatencyMs) }
+          : { date, searches: 0, zeroResults: 0, rerankerRejected: 0, avgLatencyMs: null },
+      );
+    }
+    return points;
+  },
+};
@@ -0,0 +1,580 @@
+import { HttpError } from "../lib/httpError";
+import { detectLanguage } from "../lib/languageDetect";
+import { env } from "../lib/env";
+import {
+  qaService,
+  buildVectorFilter,
+  parentIdOf,
+  type FeedbackSummary,
+  type LexicalHit,
+  type QaFilters,
+} from "./qaService";
+import { pineconeService } from "./pineconeService";
+import { embeddingService } from "./embeddingService";
+import { rerankService, type RerankUsageDetails, type RerankUsageAggregate } from "./rerankService";
+import { settingsService, type AppSettings } from "./settingsService";
+import type { MetadataFilter } from "./vectorStore";
+
+export interface SearchInput {
+  query: string;
+  /** Defaults to the `topResultsCount` setting. */
+  topK?: number;
+  category?: string;
+  tags?: string[];
+  /** A language to limit results to, `any` for every language, or undefined to detect it from the query. */
+  language?: string;
+  /** Overrides the `rerankEnabled` setting. */
+  rerank?: boolean;
+  /** Overrides the `feedbackBoostEnabled` setting. */
+  feedbackBoost?: boolean;
+  /** Where the pipeline's progress lines go; `console.log` by default. */
+  log?: (line: string) => void;
+}
+
+/** `language` value that searches every language instead of the detected one. */
+const ANY_LANGUAGE = "any";
+
+/**
+ * Pairs with question variants or a chunked answer own several vectors, so the vector store
+ * is asked for more matches than needed; after collapsing them to one per pair, `topK` pairs usually remain.
+ */
+const VARIANT_OVERFETCH = 2;
+
+type CandidateQa = { id: string; question: string; answer: string; language: string };
+
+type CandidateSource = "vector" | "lexical" | "hybrid";
+
+type VectorCandidate = {
+  id: string;
+  baseScore: number;
+  hasMetadata: boolean;
+  qa: CandidateQa;
+  matchedVariant: string | null;
+};
+
+type FusedCandidate = {
+  id: string;
+  /**
+   * Vector similarity to the query. Keyword-only hits are scored against their stored vectors,
+   * so every candidate is on the same scale and faces the same similarity threshold.
+   */
+  baseScore: number;
+  text: string;
+  hasMetadata: boolean;
+  qa: CandidateQa;
+  /** The question variant whose vector matched best, or null when the pair's own vector did. */
+  matchedVariant: string | null;
+  source: CandidateSource;
+  vectorScore: number | null;
+  vectorRank: number | null;
+  lexicalScore: number | null;
+  lexicalRank: number | null;
+  fusedScore: number;
+};
+
+export type SearchResult = {
+  id: string;
+  score: number;
+  vectorScore: number | null;
+  lexicalScore: number | null;
+  rerankScore: number | null;
+  source: CandidateSource;
+  question: string;
+  matchedVariant: string | null;
+  answer: string;
+  language: string;
+};
+
+/** Reciprocal rank fusion constant; 60 is the value from the original RRF paper. */
+const RRF_K = 60;
+
+const fuseCandidates = (
+  vectorCandidates: VectorCandidate[],
+  lexicalHits: LexicalHit[],
+  lexicalSimilarities: Map<string, number>,
+): FusedCandidate[] => {
+  const fused = new Map<string, FusedCandidate>();
+
+  vectorCandidates.forEach((candidate, index) => {
+    fused.set(candidate.id, {
+      id: candidate.id,
+      baseScore: candidate.baseScore,
+      text: `${candidate.qa.question}\n\n${candidate.qa.answer}`,
+      hasMetadata: candidate.hasMetadata,
+      qa: candidate.qa,
+      matchedVariant: candidate.matchedVariant,
+      source: "vector",
+      vectorScore: candidate.baseScore,
+      vectorRank: index + 1,
+      lexicalScore: null,
+      lexicalRank: null,
+      fusedScore: 1 / (RRF_K + index + 1),
+    });
+  });
+
+  lexicalHits.forEach((hit, index) => {
+    const contribution = 1 / (RRF_K + index + 1);
+    const existing = fused.get(hit.qa.id);
+    if (existing) {
+      existing.source = "hybrid";
+      existing.lexicalScore = hit.score;
+      existing.lexicalRank = index + 1;
+      existing.fusedScore += contribution;
+      return;
+    }
+    const similarity = lexicalSimilarities.get(hit.qa.id) ?? null;
+    fused.set(hit.qa.id, {
+      id: hit.qa.id,
+      // A pair with no stored vector yet cannot be compared, so it never clears the threshold.
+      baseScore: similarity ?? 0,
+      text: `${hit.qa.question}\n\n${hit.qa.answer}`,
+      hasMetadata: false,
+      qa: { id: hit.qa.id, question: hit.qa.question, answer: hit.qa.answer, language: hit.qa.language },
+      matchedVariant: null,
+      source: "lexical",
+      vectorScore: similarity,
+      vectorRank: null,
+      lexicalScore: hit.score,
+      lexicalRank: index + 1,
+      fusedScore: contribution,
+    });
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+};
+
+const toResult = (candidate: FusedCandidate, score: number, rerankScore: number | null): SearchResult => ({
+  id: candidate.qa.id,
+  score,
+  vectorScore: candidate.vectorScore,
+  lexicalScore: candidate.lexicalScore,
+  rerankScore,
+  source: candidate.source,
+  question: candidate.qa.question,
+  matchedVariant: candidate.matchedVariant,
+  answer: candidate.qa.answer,
+  language: candidate.qa.language,
+});
+
+type DroppedCandidate = { id: string; score: number };
+
+type ScoreFilterReport = {
+  threshold: number;
+  considered: number;
+  kept: number;
+  dropped: DroppedCandidate[];
+};
+
+const emptyFilterReport = (threshold: number): ScoreFilterReport => ({
+  threshold,
+  considered: 0,
+  kept: 0,
+  dropped: [],
+});
+
+const toUsageDetails = (snapshot: RerankUsageAggregate, lastCallUnits = 0): RerankUsageDetails => ({
+  ...snapshot,
+  lastCallUnits,
+});
+
+/** Uses at which a pair gets the full popularity weight; the gain grows logarithmically up to it. */
+const POPULARITY_SATURATION = 50;
+
+type FeedbackWeights = Pick<AppSettings, "feedbackHelpfulnessWeight" | "feedbackPopularityWeight">;
+
+/** How a result's final score was put together. */
+type ScoreBreakdown = {
+  id: string;
+  vector: number | null;
+  lexical: number | null;
+  rerank: number | null;
+  /** The score before the feedback stage: the rerank score when reranked, otherwise retrieval similarity. */
+  base: number;
+  /** What the feedback stage added (negative when it lowered the score). */
+  feedback: number;
+  final: number;
+};
+
+/**
+ * Feedback prior in [-helpfulness weight, helpfulness + popularity weight]. Helpfulness is the
+ * smoothed score centred on zero, so a pair without votes is left alone; popularity rewards pairs
+ * operators keep using.
+ */
+const feedbackPrior = (summary: FeedbackSummary | undefined, weights: FeedbackWeights): number => {
+  if (!summary) return 0;
+  const helpfulness = (summary.score - 0.5) * 2;
+  const popularity = Math.min(1, Math.log1p(summary.used) / Math.log1p(POPULARITY_SATURATION));
+  return weights.feedbackHelpfulnessWeight * helpfulness + weights.feedbackPopularityWeight * popularity;
+};
+
+/**
+ * Moves each score towards 1 (positive prior) or 0 (negative prior) by the prior's share of the
+ * remaining distance, so scores stay within 0–1 and a strong match is never overtaken by
+ * feedback alone. Results are re-sorted by the blended score.
+ */
+const applyFeedbackBoost = (
+  results: SearchResult[],
+  weights: FeedbackWeights,
+): { results: SearchResult[]; adjustments: Map<string, number> } => {
+  const feedback = qaService.feedbackByIds(results.map((result) => result.id));
+  const adjustments = new Map<string, number>();
+  const boosted = results.map((result) => {
+    const base = Math.min(Math.max(result.score, 0), 1);
+    const prior = feedbackPrior(feedback.get(result.id), weights);
+    const score = prior >= 0 ? base + prior * (1 - base) : base + prior * base;
+    adjustments.set(result.id, score - result.score);
+    return { ...result, score };
+  });
+  return { results: boosted.sort((a, b) => b.score - a.score), adjustments };
+};
+
+const toBreakdown = (result: SearchResult, adjustment: number): ScoreBreakdown => ({
+  id: result.id,
+  vector: result.vectorScore,
+  lexical: result.lexicalScore,
+  rerank: result.rerankScore,
+  base: result.score - adjustment,
+  feedback: adjustment,
+  final: result.score,
+});
+
+type Retrieval = {
+  filter: MetadataFilter | null;
+  matchCount: number;
+  vectorFilter: ScoreFilterReport;
+  lexicalHits: LexicalHit[];
+  candidates: FusedCandidate[];
+};
+
+/** Runs the vector and keyword retrievers under the same filters and fuses their results. */
+const retrieve = async (
+  query: string,
+  embedding: number[],
+  topK: number,
+  filters: QaFilters,
+  similarityThreshold: number,
+  log: (line: string) => void,
+): Promise<Retrieval> => {
+  const vectorMetadataFilter = buildVectorFilter(filters);
+  if (vectorMetadataFilter) {
+    log(`[Search] Metadata filter: ${JSON.stringify(vectorMetadataFilter)}`);
+  }
+
+  const matches = await pineconeService.query({
+    vector: embedding,
+    topK: topK * VARIANT_OVERFETCH,
+    namespace: env.PINECONE_NAMESPACE,
+    ...(vectorMetadataFilter ? { filter: vectorMetadataFilter } : {}),
+  });
+
+  log(`[Search] Vector store (${pineconeService.backend}) returned ${matches.length} matches`);
+  matches.forEach((match, idx) => {
+    const metadata = (match.metadata ?? {}) as Record<string, unknown>;
+    const question = typeof metadata.question === "string" ? metadata.question : "no question";
+    log(`[Search] Match ${idx + 1}: ID=${match.id}, score=${match.score?.toFixed(6) ?? "null"}, question="${question.substring(0, 50)}..."`);
+  });
+
+  const ids = Array.from(
+    new Set(
+      matches
+        .map((match) => match.id)
+        .filter((value): value is string => typeof value === "string" && value.length > 0)
+        .map(parentIdOf),
+    ),
+  );
+  const qaPairs = ids.length > 0 ? qaService.findByIds(ids) : [];
+  const qaById = new Map(qaPairs.map((qa) => [qa.id, qa]));
+  const hiddenIds = qaService.findHiddenIds(ids);
+
+  // Matches arrive best first, so the first vector seen for a pair is its best-matching phrasing or chunk.
+  const seenPairs = new Set<string>();
+  const vectorCandidates = matches
+    .map((match) => {
+      if (!match.id) return null;
+      const qaId = parentIdOf(match.id);
+      if (hiddenIds.has(qaId) || seenPairs.has(qaId)) return null;
+      const baseScore = match.score ?? 0;
+      const metadata = (match.metadata ?? {}) as Record<string, unknown>;
+      const fallback = qaById.get(qaId) ?? null;
+
+      const hasMetadata = typeof metadata.question === "string" && typeof metadata.answer === "string";
+      
+      if (!hasMetadata && !fallback) {
+        console.warn(`[Search] Skipping match ${match.id} - no metadata and not in SQLite`);
+        return null;
+      }
+
+      const question = typeof metadata.question === "string" ? metadata.question : fallback?.question;
+      const answer = typeof metadata.answer === "string" ? metadata.answer : fallback?.answer;
+      const language = typeof metadata.language === "string" ? metadata.language : fallback?.language ?? "ru";
+
+      if (!question || !answer) {
+        return null;
+      }
+
+      seenPairs.add(qaId);
+      return {
+        id: qaId,
+        baseScore,
+        hasMetadata,
+        qa: {
+          id: qaId,
+          question,
+          answer,
+          language,
+        },
+        matchedVariant: typeof metadata.variant === "string" ? metadata.variant : null,
+      };
+    })
+    .filter((candidate): candidate is VectorCandidate => Boolean(candidate))
+    .slice(0, topK);
+
+  const lexicalHits = qaService.searchLexical(query, topK, filters);
+  log(`[Search] Lexical (FTS5) returned ${lexicalHits.length} hits`);
+
+  const vectorIds = new Set(vectorCandidates.map((candidate) => candidate.id));
+  const lexicalOnly = lexicalHits.filter((hit) => !vectorIds.has(hit.qa.id)).map((hit) => hit.qa);
+  const lexicalSimilarities = await qaService.similarities(embedding, lexicalOnly);
+  const fused = fuseCandidates(vectorCandidates, lexicalHits, lexicalSimilarities);
+
+  // The threshold applies after fusion, so a keyword match has to be as close to the query as a vector match.
+  const vectorFilter = emptyFilterReport(similarityThreshold);
+  vectorFilter.considered = fused.length;
+  const candidates = fused.filter((candidate) => {
+    if (candidate.baseScore >= similarityThreshold) return true;
+    vectorFilter.dropped.push({ id: candidate.id, score: candidate.baseScore });
+    return false;
+  });
+  vectorFilter.kept = candidates.length;
+  if (vectorFilter.dropped.length > 0) {
+    log(`[Search] Similarity threshold ${similarityThreshold} dropped ${vectorFilter.dropped.length} of ${fused.length} fused candidates`);
+  }
+
+  return {
+    filter: vectorMetadataFilter ?? null,
+    matchCount: matches.length,
+    vectorFilter,
+    lexicalHits,
+    candidates,
+  };
+};
+
+export const searchService = {
+  /**
+   * Runs the whole pipeline for one query: embedding, vector and keyword retrieval, fusion,
+   * rerank and the feedback stage. It has no side effects, so callers decide whether the
+   * search is logged; `matches` is what a user would be shown.
+   */
+  async search(input: SearchInput) {
+    if (!pineconeService.isConfigured()) {
+      throw new HttpError(503, "Vector search is not available yet");
+    }
+
+    const log = input.log ?? console.log;
+    const settings = settingsService.get();
+    const query = input.query;
+    const topK = input.topK ?? settings.topResultsCount;
+    const filters: QaFilters = {
+      ...(input.category !== undefined ? { category: input.category } : {}),
+      tags: input.tags ?? [],
+    };
+    // `any` turns language filtering off; otherwise an explicit language wins over the detected one.
+    const requestedLanguage = input.language?.toLowerCase();
+    const detectedLanguage = detectLanguage(query);
+    const attemptedLanguage =
+      requestedLanguage === ANY_LANGUAGE ? null : requestedLanguage ?? detectedLanguage;
+
+    log(`[Search] Query: "${query}", topK: ${topK}, language: ${attemptedLanguage ?? "any"}`);
+    log(`[Search] Using ${pineconeService.backend} index: ${pineconeService.indexName}, namespace: ${env.PINECONE_NAMESPACE}`);
+    
+    const embeddingResult = await embeddingService.embed(query, "query");
+    log(`[Search] Embedding model: ${embeddingResult.model}, dimension: ${embeddingResult.dimension}, inputType: query`);
+
+    let retrieval = await retrieve(
+      query,
+      embeddingResult.embedding,
+      topK,
+      attemptedLanguage ? { ...filters, language: attemptedLanguage } : filters,
+      settings.similarityThreshold,
+      log,
+    );
+    let languageFallback = false;
+    if (attemptedLanguage && retrieval.candidates.length === 0) {
+      log(`[Search] Nothing matched in language "${attemptedLanguage}", retrying across all languages`);
+      retrieval = await retrieve(query, embeddingResult.embedding, topK, filters, settings.similarityThreshold, log);
+      languageFallback = true;
+    }
+    const { matchCount, vectorFilter, lexicalHits, candidates } = retrieval;
+
+    const candidatesWithoutMetadata = candidates.filter((c) => c.source !== "lexical" && !c.hasMetadata);
+    if (candidatesWithoutMetadata.length > 0) {
+      console.warn(`[Search] WARNING: ${candidatesWithoutMetadata.length} candidates without metadata found (using SQLite fallback). Consider running /api/qa/resync to fix this.`);
+    }
+
+    log(`[Search] Fused ${candidates.length} candidates from ${matchCount} vector matches and ${lexicalHits.length} lexical hits`);
+    candidates.forEach((candidate, idx) => {
+      log(`[Search] Candidate ${idx + 1}: ID=${candidate.id}, source=${candidate.source}, fused=${candidate.fusedScore.toFixed(6)}, question="${candidate.qa.question.substring(0, 50)}..."`);
+    });
+
+    const rerankRequested = input.rerank ?? settings.rerankEnabled;
+    const rerankEnabled = rerankRequested && rerankService.isConfigured();
+    const feedbackBoostEnabled = input.feedbackBoost ?? settings.feedbackBoostEnabled;
+
+    const pipeline = {
+      vector: {
+        backend: pineconeService.backend,
+        index: pineconeService.indexName,
+        namespace: env.PINECONE_NAMESPACE,
+        topK,
+        filter: retrieval.filter,
+      },
+      language: {
+        requested: requestedLanguage ?? null,
+        detected: detectedLanguage,
+        attempted: attemptedLanguage,
+        applied: languageFallback ? null : attemptedLanguage,
+        fallback: languageFallback,
+      },
+      rerank: {
+        model: null as string | null,
+        applied: false,
+        fallbackReason: rerankEnabled
+          ? null
+          : rerankRequested
+            ? "Rerank model is not configured"
+            : input.rerank === false
+              ? "Reranker is disabled for this search"
+              : "Reranker is disabled in settings",
+        attemptedModels: rerankService.isConfigured() ? rerankService.candidateModels() : [],
+        usage: toUsageDetails(rerankService.getUsageSummary()),
+      },
+      lexical: {
+        engine: "sqlite-fts5",
+        hits: lexicalHits.length,
+      },
+      fusion: {
+        method: "rrf",
+        k: RRF_K,
+        candidates: candidates.map((candidate) => ({
+          id: candidate.id,
+          source: candidate.source,
+          vectorRank: candidate.vectorRank,
+          lexicalRank: candidate.lexicalRank,
+          fusedScore: candidate.fusedScore,
+        })),
+      },
+      filters: {
+        vector: vectorFilter,
+        rerank: emptyFilterReport(settings.rerankThreshold),
+      },
+      feedback: {
+        enabled: feedbackBoostEnabled,
+        applied: false,
+        helpfulnessWeight: settings.feedbackHelpfulnessWeight,
+        popularityWeight: settings.feedbackPopularityWeight,
+      },
+      scores: [] as ScoreBreakdown[],
+    };
+
+    const candidateById = new Map(candidates.map((c) => [c.id, c]));
+    let rerankedResults: { id: string; score: number }[] = [];
+    let rerankerRejected = false;
+    let topRerankScore = 0;
+
+    const vectorResults: SearchResult[] = candidates.map((candidate) => toResult(candidate, candidate.baseScore, null));
+
+    if (rerankEnabled && candidates.length > 0) {
+      try {
+        const rerankCandidates = candidates.map((candidate) => ({ id: candidate.id, text: candidate.text }));
+        log(`[Search] Sending ${rerankCandidates.length} candidates to rerank in fused order, top fused score: ${candidates[0]?.fusedScore ?? 0}`);
+        
+        const rerankOutcome = await rerankService.rerank(query, rerankCandidates, topK, log);
+        log(`[Search] Rerank returned ${rerankOutcome.results.length} results, model: ${rerankOutcome.model}`);
+        
+        pipeline.rerank.model = rerankOutcome.model;
+        pipeline.rerank.attemptedModels = rerankOutcome.attemptedModels;
+        pipeline.rerank.usage = rerankOutcome.usage ?? pipeline.rerank.usage;
+        
+        if (rerankOutcome.results.length > 0) {
+          topRerankScore = rerankOutcome.results[0]?.score ?? 0;
+          
+          if (topRerankScore < settings.rerankThreshold) {
+            console.warn(`[Search] Rerank top score ${topRerankScore} too low (< ${settings.rerankThreshold}), reranker indicates no relevant answer found`);
+            pipeline.rerank.applied = false;
+            rerankerRejected = true;
+            rerankedResults = rerankOutcome.results;
+            pipeline.rerank.fallbackReason = `Reranker found no relevant answer (top score: ${topRerankScore.toFixed(6)})`;
+          } else {
+            rerankedResults = rerankOutcome.results;
+            pipeline.rerank.applied = true;
+            pipeline.rerank.fallbackReason = rerankOutcome.warning;
+          }
+        } else {
+          pipeline.rerank.applied = false;
+          pipeline.rerank.fallbackReason = rerankOutcome.warning ?? "Rerank returned no results";
+        }
+      } catch (error) {
+        console.warn("Rerank failed, falling back to Pinecone scores", error);
+        pipeline.rerank.applied = false;
+        pipeline.rerank.fallbackReason = error instanceof Error ? error.message : "Unknown rerank failure";
+        pipeline.rerank.attemptedModels = rerankService.candidateModels();
+        pipeline.rerank.usage = toUsageDetails(rerankService.getUsageSummary());
+      }
+    }
+
+    const results: SearchResult[] = [];
+    const rerankFilter = pipeline.filters.rerank;
+
+    if (pipeline.rerank.applied && rerankedResults.length > 0) {
+      rerankFilter.considered = rerankedResults.length;
+      for (const reranked of rerankedResults) {
+        const candidate = candidateById.get(reranked.id);
+        if (!candidate) {
+          console.warn(`[Search] Rerank returned ID ${reranked.id} which is not in candidates, skipping`);
+          continue;
+        }
+        const rerankScore = typeof reranked.score === "number" && Number.isFinite(reranked.score) ? reranked.score : 0;
+        if (rerankScore < settings.rerankThreshold) {
+          rerankFilter.dropped.push({ id: candidate.id, score: rerankScore });
+          continue;
+        }
+        results.push(toResult(candidate, rerankScore, rerankScore));
+      }
+      rerankFilter.kept = results.length;
+    } else if (rerankerRejected) {
+      rerankFilter.considered = rerankedResults.length;
+      rerankFilter.dropped = rerankedResults.map((reranked) => ({ id: reranked.id, score: reranked.score }));
+    } else {
+      results.push(...vectorResults);
+    }
+
+    // Only results that passed the thresholds are re-scored, so feedback cannot bring back a rejected answer.
+    let rankedResults = results;
+    let adjustments = new Map<string, number>();
+    if (feedbackBoostEnabled && results.length > 0) {
+      ({ results: rankedResults, adjustments } = applyFeedbackBoost(results, settings));
+      pipeline.feedback.applied = true;
+    }
+
+    const finalResults = rankedResults.slice(0, topK);
+    const finalVectorResults = vectorResults.slice(0, topK);
+    const shownResults = rerankerRejected ? [] : finalResults;
+    pipeline.scores = shownResults.map((result) => toBreakdown(result, adjustments.get(result.id) ?? 0));
+
+    return {
+      query,
+      topK,
+      filters,
+      detectedLanguage,
+      attemptedLanguage,
+      embedding: embeddingResult.embedding,
+      matches: shownResults,
+      vectorMatches: finalVectorResults,
+      rerankerRejected,
+      topRerankScore,
+      pipeline,
+    };
+  },
+};
+
+export type SearchOutcome = Awaited<ReturnType<typeof searchService.search>>;
@@ -1,75 +1,128 @@
-import { createHmac, timingSafeEqual } from "node:crypto";
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { db } from "../lib/db";
 import { env } from "../lib/env";
 
-const SESSION_VERSION = "v1";
+const SESSION_VERSION = "v3";
 
-const sign = (payload: string): string => {
-  return createHmac("sha256", env.SESSION_SECRET)
-    .update(`${SESSION_VERSION}:${env.PORTAL_PASSWORD}:${payload}`)
-    .digest("hex");
-};
+// How often `last_seen_at` is written for an otherwise unchanged session.
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
 
-const safeCompare = (a: string, b: string): boolean => {
-  if (!a || !b) return false;
-  const aBuffer = Buffer.from(a);
-  const bBuffer = Buffer.from(b);
-  if (aBuffer.length !== bBuffer.length) {
-    return false;
-  }
-  return timingSafeEqual(aBuffer, bBuffer);
-};
+export interface SessionRecord {
+  id: string;
+  user_id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+}
 
-const buildToken = (expiresAt: Date): string => {
-  const millis = expiresAt.getTime().toString(10);
-  const signature = sign(millis);
-  return `${SESSION_VERSION}.${millis}.${signature}`;
-};
+export interface ValidatedSession {
+  id: string;
+  userId: string;
+  expiresAt: Date;
+  /** True when the expiry was pushed forward and the cookie should be re-issued. */
+  refreshed: boolean;
+}
+
+interface SessionRow extends SessionRecord {
+  token_hash: string;
+  revoked_at: string | null;
+}
+
+const insertStmt = db.prepare(
+  `INSERT INTO sessions (id, token_hash, user_id, user_agent, ip, created_at, last_seen_at, expires_at)
+   VALUES (@id, @token_hash, @user_id, @user_agent, @ip, @created_at, @last_seen_at, @expires_at)`,
+);
+const getByTokenHashStmt = db.prepare("SELECT * FROM sessions WHERE token_hash = ?");
+const touchStmt = db.prepare("UPDATE sessions SET last_seen_at = ?, expires_at = ? WHERE id = ?");
+const listActiveForUserStmt = db.prepare(
+  `SELECT id, user_id, user_agent, ip, created_at, last_seen_at, expires_at
+   FROM sessions
+   WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+   ORDER BY last_seen_at DESC`,
+);
+const revokeStmt = db.prepare(
+  "UPDATE sessions SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL",
+);
+const revokeAllForUserStmt = db.prepare(
+  "UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL AND id != ?",
+);
+const purgeStmt = db.prepare("DELETE FROM sessions WHERE expires_at <= ? OR revoked_at IS NOT NULL");
 
-const parseToken = (token: string): { expiresAt: Date; signature: string } | null => {
-  const parts = token.split(".") as [string, string, string] | string[];
-  if (parts.length !== 3) {
-    return null;
-  }
-  const [version, millis, signature] = parts as [string, string, string];
-  if (version !== SESSION_VERSION) {
-    return null;
-  }
-  const timestamp = Number.parseInt(millis, 10);
-  if (!Number.isFinite(timestamp)) {
-    return null;
-  }
-  const expiresAt = new Date(timestamp);
-  if (Number.isNaN(expiresAt.getTime())) {
-    return null;
-  }
-  return { expiresAt, signature };
+// Only a keyed hash of the token is stored, so a copy of the database cannot be replayed as a cookie.
+const hashToken = (token: string): string =>
+  createHmac("sha256", env.SESSION_SECRET).update(token).digest("hex");
+
+// A session slides forward by SESSION_TTL_SECONDS on activity but never past SESSION_MAX_AGE_SECONDS.
+const nextExpiry = (createdAt: Date, now: number): Date => {
+  const idleLimit = now + env.SESSION_TTL_SECONDS * 1000;
+  const hardLimit = createdAt.getTime() + env.SESSION_MAX_AGE_SECONDS * 1000;
+  return new Date(Math.min(idleLimit, hardLimit));
 };
 
 export const sessionService = {
-  createSession(): { token: string; expiresAt: Date } {
-    const expiresAt = new Date(Date.now() + env.SESSION_TTL_SECONDS * 1000);
-    const token = buildToken(expiresAt);
-    return { token, expiresAt };
+  createSession(
+    userId: string,
+    context: { userAgent?: string | undefined; ip?: string | undefined } = {},
+  ): { id: string; token: string; expiresAt: Date } {
+    const id = randomUUID();
+    const token = `${SESSION_VERSION}.${randomBytes(32).toString("base64url")}`;
+    const now = new Date();
+    const expiresAt = nextExpiry(now, now.getTime());
+    insertStmt.run({
+      id,
+      token_hash: hashToken(token),
+      user_id: userId,
+      user_agent: context.userAgent?.slice(0, 256) ?? null,
+      ip: context.ip ?? null,
+      created_at: now.toISOString(),
+      last_seen_at: now.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    });
+    return { id, token, expiresAt };
   },
 
-  validateSession(token: string | undefined | null): { expiresAt: Date } | null {
-    if (!token) return null;
-    const parsed = parseToken(token);
-    if (!parsed) return null;
-    if (parsed.expiresAt.getTime() < Date.now()) {
+  validateSession(token: string | undefined | null): ValidatedSession | null {
+    if (!token || !token.startsWith(`${SESSION_VERSION}.`)) return null;
+    const row = getByTokenHashStmt.get(hashToken(token)) as SessionRow | undefined;
+    if (!row || row.revoked_at) return null;
+
+    const now = Date.now();
+    const expiresAt = new Date(row.expires_at);
+    if (expiresAt.getTime() <= now) {
       return null;
     }
-    const expected = sign(parsed.expiresAt.getTime().toString(10));
-    if (!safeCompare(parsed.signature, expected)) {
-      return null;
+
+    // Refresh once half of the idle window has been used up so active users are never cut off,
+    // while keeping writes to roughly one per half-TTL per session.
+    const remainingMs = expiresAt.getTime() - now;
+    const candidate = nextExpiry(new Date(row.created_at), now);
+    const refreshed =
+      remainingMs < (env.SESSION_TTL_SECONDS * 1000) / 2 && candidate.getTime() > expiresAt.getTime();
+    const effectiveExpiry = refreshed ? candidate : expiresAt;
+
+    if (refreshed || now - new Date(row.last_seen_at).getTime() >= LAST_SEEN_RESOLUTION_MS) {
+      touchStmt.run(new Date(now).toISOString(), effectiveExpiry.toISOString(), row.id);
     }
-    return { expiresAt: parsed.expiresAt };
+
+    return { id: row.id, userId: row.user_id, expiresAt: effectiveExpiry, refreshed };
   },
 
-  verifyPortalPassword(candidate: string): boolean {
-    if (typeof candidate !== "string") {
-      return false;
-    }
-    return safeCompare(candidate, env.PORTAL_PASSWORD);
+  listForUser(userId: string): SessionRecord[] {
+    return listActiveForUserStmt.all(userId, new Date().toISOString()) as SessionRecord[];
+  },
+
+  revoke(userId: string, sessionId: string): boolean {
+    return revokeStmt.run(new Date().toISOString(), sessionId, userId).changes > 0;
+  },
+
+  /** Revokes every session of the user, optionally keeping the one making the request. */
+  revokeAllForUser(userId: string, options: { exceptSessionId?: string } = {}): number {
+    return revokeAllForUserStmt.run(new Date().toISOString(), userId, options.exceptSessionId ?? "").changes;
+  },
+
+  purgeExpired(): number {
+    return purgeStmt.run(new Date().toISOString()).changes;
   },
 };
@@ -1,13 +1,25 @@
 import { db } from "../lib/db";
 import { env } from "../lib/env";
+import { LOCAL_EMBEDDING_MODEL } from "./localEmbedding";
+import { auditService, SYSTEM_ACTOR, type AuditActor } from "./auditService";
 
 export interface AppSettings {
   topResultsCount: number;
   similarityThreshold: number;
+  rerankThreshold: number;
   model: string;
   rerankModel: string | null;
   rerankEnabled: boolean;
   csvBatchSize: number;
+  trashRetentionDays: number;
+  /** Vector similarity from which two pairs are reported as near-duplicates. */
+  duplicateThreshold: number;
+  /** Blends operator feedback into result scores after rerank. */
+  feedbackBoostEnabled: boolean;
+  /** Largest score change a pair's helpfulness can cause, up or down. */
+  feedbackHelpfulnessWeight: number;
+  /** Largest score gain a frequently used pair can get. */
+  feedbackPopularityWeight: number;
 }
 
 const SETTINGS_KEY = "app_settings";
@@ -15,10 +27,19 @@ const SETTINGS_KEY = "app_settings";
 const DEFAULT_SETTINGS: AppSettings = {
   topResultsCount: 5,
   similarityThreshold: 0.3,
-  model: env.PINECONE_EMBED_MODEL ?? "mixedbread-ai/mxbai-embed-xsmall-v1",
+  rerankThreshold: 0.01,
+  model:
+    env.embeddingProvider === "local"
+      ? LOCAL_EMBEDDING_MODEL
+      : env.PINECONE_EMBED_MODEL ?? "mixedbread-ai/mxbai-embed-xsmall-v1",
   rerankModel: env.PINECONE_RERANK_MODEL ?? null,
   rerankEnabled: true,
   csvBatchSize: env.CSV_BATCH_SIZE,
+  trashRetentionDays: 30,
+  duplicateThreshold: 0.92,
+  feedbackBoostEnabled: false,
+  feedbackHelpfulnessWeight: 0.1,
+  feedbackPopularityWeight: 0.05,
 };
 
 const getRawSettings = (): string | null => {
@@ -49,7 +70,7 @@ const parseSettings = (raw: string | null): Partial<AppSettings> => {
   return {};
 };
 
-export type UpdateSettingsInput = Partial<Pick<AppSettings, "topResultsCount" | "similarityThreshold" | "model" | "rerankModel" | "rerankEnabled" | "csvBatchSize">>;
+export type UpdateSettingsInput = Partial<Pick<AppSettings, "topResultsCount" | "similarityThreshold" | "rerankThreshold" | "model" | "rerankModel" | "rerankEnabled" | "csvBatchSize" | "trashRetentionDays" | "duplicateThreshold" | "feedbackBoostEnabled" | "feedbackHelpfulnessWeight" | "feedbackPopularityWeight">>;
 
 const clampNumber = (value: number, min: number, max: number): number => {
   if (Number.isNaN(value)) return min;
@@ -60,10 +81,16 @@ const normalise = (settings: AppSettings): AppSettings => {
   return {
     topResultsCount: clampNumber(settings.topResultsCount, 1, 50),
     similarityThreshold: clampNumber(settings.similarityThreshold, 0, 1),
+    rerankThreshold: clampNumber(settings.rerankThreshold, 0, 1),
     model: settings.model.trim(),
     rerankModel: settings.rerankModel ? settings.rerankModel.trim() : null,
     rerankEnabled: Boolean(settings.rerankEnabled),
     csvBatchSize: clampNumber(settings.csvBatchSize, 1, 500),
+    trashRetentionDays: clampNumber(settings.trashRetentionDays, 1, 3650),
+    duplicateThreshold: clampNumber(settings.duplicateThreshold, 0.5, 1),
+    feedbackBoostEnabled: Boolean(settings.feedbackBoostEnabled),
+    feedbackHelpfulnessWeight: clampNumber(settings.feedbackHelpfulnessWeight, 0, 0.5),
+    feedbackPopularityWeight: clampNumber(settings.feedbackPopularityWeight, 0, 0.5),
   };
 };
 
@@ -77,16 +104,26 @@ export const settingsService = {
     return normalise(merged);
   },
 
-  update(input: UpdateSettingsInput): AppSettings {
-    const current = this.get();
-    const next: AppSettings = normalise({
-      ...current,
-      ...input,
-      model: input.model ?? current.model,
-      rerankModel: input.rerankModel ?? current.rerankModel,
-    });
-    saveRawSettings(next);
-    return next;
+  update(input: UpdateSettingsInput, actor: AuditActor = SYSTEM_ACTOR): AppSettings {
+    return db.transaction((): AppSettings => {
+      const current = this.get();
+      const next: AppSettings = normalise({
+        ...current,
+        ...input,
+        model: input.model ?? current.model,
+        rerankModel: input.rerankModel ?? current.rerankModel,
+      });
+      saveRawSettings(next);
+      auditService.record({
+        actor,
+        action: "settings.update",
+        entityType: "settings",
+        entityId: null,
+        before: current,
+        after: next,
+      });
+      return next;
+    })();
   },
 };
 
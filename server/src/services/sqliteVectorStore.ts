@@ -0,0 +1,163 @@
+import { db } from "../lib/db";
+import { env } from "../lib/env";
+import { dot, fromBlob, normaliseVector, toBlob } from "../lib/vectorMath";
+import type {
+  MetadataFilter,
+  QueryParams,
+  StoredVector,
+  UpsertParams,
+  VectorMatch,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from "./vectorStore";
+
+interface VectorRow {
+  id: string;
+  dimension: number;
+  embedding: Buffer;
+  metadata: string | null;
+}
+
+const upsertStmt = db.prepare(
+  `INSERT INTO vectors (namespace, id, dimension, embedding, metadata, updated_at)
+   VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+   ON CONFLICT(namespace, id) DO UPDATE SET
+     dimension = excluded.dimension,
+     embedding = excluded.embedding,
+     metadata = excluded.metadata,
+     updated_at = CURRENT_TIMESTAMP`,
+);
+const deleteStmt = db.prepare("DELETE FROM vectors WHERE namespace = ? AND id = ?");
+const deleteNamespaceStmt = db.prepare("DELETE FROM vectors WHERE namespace = ?");
+const selectNamespaceStmt = db.prepare("SELECT id, dimension, embedding, metadata FROM vectors WHERE namespace = ?");
+const selectByIdStmt = db.prepare("SELECT id, dimension, embedding, metadata FROM vectors WHERE namespace = ? AND id = ?");
+const listStmt = db.prepare("SELECT id, metadata FROM vectors WHERE namespace = ? ORDER BY id");
+const countStmt = db.prepare("SELECT COUNT(*) AS count FROM vectors WHERE namespace = ?");
+
+const parseMetadata = (raw: string | null): Record<string, unknown> | undefined => {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+};
+
+// Mirrors how Pinecone evaluates `$eq`/`$in` against scalar and list metadata values.
+const matchesFilter = (metadata: Record<string, unknown> | undefined, filter: MetadataFilter): boolean =>
+  Object.entries(filter).every(([field, condition]) => {
+    const value = metadata?.[field];
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    const wanted = "$eq" in condition ? [condition.$eq] : condition.$in;
+    return wanted.some((candidate) => values.includes(candidate));
+  });
+
+export const sqliteVectorStore: VectorStore = {
+  backend: "sqlite",
+  indexName: "sqlite",
+
+  isConfigured: () => true,
+
+  async upsertVector({ namespace, ...record }: UpsertParams): Promise<void> {
+    await this.upsertVectors([record], namespace);
+  },
+
+  async upsertVectors(records: VectorRecord[], namespace?: string): Promise<void> {
+    const targetNamespace = namespace ?? env.PINECONE_NAMESPACE;
+    db.transaction((batch: VectorRecord[]) => {
+      for (const { id, values, metadata } of batch) {
+        const vector = normaliseVector(values);
+        upsertStmt.run(
+          targetNamespace,
+          id,
+          vector.length,
+          toBlob(vector),
+          metadata ? JSON.stringify(metadata) : null,
+        );
+      }
+    })(records);
+  },
+
+  async deleteVector(id: string): Promise<void> {
+    deleteStmt.run(env.PINECONE_NAMESPACE, id);
+  },
+
+  async deleteVectors(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    db.transaction((batch: string[]) => {
+      for (const id of batch) {
+        deleteStmt.run(env.PINECONE_NAMESPACE, id);
+      }
+    })(ids);
+  },
+
+  async query({ vector, topK, namespace, filter }: QueryParams): Promise<VectorMatch[]> {
+    const target = normaliseVector(vector);
+    const top: Array<{ row: VectorRow; score: number }> = [];
+    let skipped = 0;
+
+    for (const row of selectNamespaceStmt.iterate(namespace ?? env.PINECONE_NAMESPACE) as IterableIterator<VectorRow>) {
+      if (row.dimension !== target.length) {
+        skipped += 1;
+        continue;
+      }
+      if (filter && !matchesFilter(parseMetadata(row.metadata), filter)) {
+        continue;
+      }
+      const score = dot(target, fromBlob(row.embedding));
+      if (top.length === topK && score <= top[top.length - 1]!.score) {
+        continue;
+      }
+      const insertAt = top.findIndex((entry) => score > entry.score);
+      top.splice(insertAt === -1 ? top.length : insertAt, 0, { row, score });
+      if (top.length > topK) {
+        top.pop();
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(`[SqliteVectorStore] Skipped ${skipped} vectors with a different dimension than the query (${target.length}). Run /api/qa/resync after changing embedding models.`);
+    }
+
+    return top.map(({ row, score }) => {
+      const metadata = parseMetadata(row.metadata);
+      return {
+        id: row.id,
+        score,
+        ...(metadata ? { metadata } : {}),
+      };
+    });
+  },
+
+  async fetchVectors(ids: string[], namespace?: string): Promise<VectorRecord[]> {
+    const targetNamespace = namespace ?? env.PINECONE_NAMESPACE;
+    const vectors: VectorRecord[] = [];
+    for (const id of ids) {
+      const row = selectByIdStmt.get(targetNamespace, id) as VectorRow | undefined;
+      if (!row) continue;
+      const metadata = parseMetadata(row.metadata);
+      vectors.push({ id: row.id, values: Array.from(fromBlob(row.embedding)), ...(metadata ? { metadata } : {}) });
+    }
+    return vectors;
+  },
+
+  async listVectors(namespace?: string): Promise<StoredVector[]> {
+    const rows = listStmt.all(namespace ?? env.PINECONE_NAMESPACE) as Array<{ id: string; metadata: string | null }>;
+    return rows.map((row) => {
+      const metadata = parseMetadata(row.metadata);
+      return { id: row.id, ...(metadata ? { metadata } : {}) };
+    });
+  },
+
+  async describeIndexStats(): Promise<VectorStoreStats | null> {
+    const row = countStmt.get(env.PINECONE_NAMESPACE) as { count: number } | undefined;
+    return { totalRecordCount: row?.count ?? 0 };
+  },
+
+  async deleteAllVectors(namespace?: string): Promise<void> {
+    const targetNamespace = namespace ?? env.PINECONE_NAMESPACE;
+    const info = deleteNamespaceStmt.run(targetNamespace);
+    console.log(`[SqliteVectorStore] Deleted ${info.changes} vectors from namespace: ${targetNamespace}`);
+  },
+};
@@ -0,0 +1,149 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "node:crypto";
+import { db } from "../lib/db";
+import { env } from "../lib/env";
+import { HttpError } from "../lib/httpError";
+
+/** Ordered from least to most privileged; each role includes everything below it. */
+export const USER_ROLES = ["viewer", "operator", "editor", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  created_at: string;
+  updated_at: string;
+}
+
+interface UserRow extends User {
+  password_hash: string;
+}
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEY_LENGTH = 64;
+
+const mapRow = (row: any): User => ({
+  id: row.id,
+  username: row.username,
+  role: row.role,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+const selectByIdStmt = db.prepare("SELECT * FROM users WHERE id = ?");
+const selectByUsernameStmt = db.prepare("SELECT * FROM users WHERE username = ? COLLATE NOCASE");
+const countAdminsStmt = db.prepare("SELECT COUNT(*) AS count FROM users WHERE role = 'admin'");
+
+const deriveKey = (password: string, salt: Buffer, n: number, r: number, p: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, { N: n, r, p, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+
+/** Encoded as `scrypt$N$r$p$salt$hash` so the cost can be raised later without breaking old hashes. */
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+};
+
+const verifyPassword = async (password: string, encoded: string): Promise<boolean> => {
+  const [scheme, n, r, p, salt, hash] = encoded.split("$");
+  if (scheme !== "scrypt" || !n || !r || !p || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), Number(n), Number(r), Number(p));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+};
+
+// Verified against when the username is unknown, so response time does not reveal which accounts exist.
+let dummyHash: Promise<string> | null = null;
+
+const assertNotLastAdmin = (user: UserRow) => {
+  if (user.role !== "admin") return;
+  const row = countAdminsStmt.get() as { count: number };
+  if (row.count <= 1) {
+    throw new HttpError(409, "At least one admin account must remain");
+  }
+};
+
+export const hasRole = (role: UserRole, required: UserRole): boolean =>
+  USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+export const userService = {
+  list(): User[] {
+    return db.prepare("SELECT * FROM users ORDER BY username COLLATE NOCASE").all().map(mapRow);
+  },
+
+  getById(id: string): User | null {
+    const row = selectByIdStmt.get(id);
+    if (!row) return null;
+    return mapRow(row);
+  },
+
+  count(): number {
+    const row = db.prepare("SELECT COUNT(*) AS count FROM users").get() as { count: number };
+    return row.count;
+  },
+
+  async authenticate(username: string, password: string): Promise<User | null> {
+    const row = selectByUsernameStmt.get(username.trim()) as UserRow | undefined;
+    if (!row) {
+      dummyHash ??= hashPassword(randomUUID());
+      await verifyPassword(password, await dummyHash);
+      return null;
+    }
+    const valid = await verifyPassword(password, row.password_hash);
+    return valid ? mapRow(row) : null;
+  },
+
+  async create(input: { username: string; password: string; role: UserRole }): Promise<User> {
+    const username = input.username.trim();
+    if (selectByUsernameStmt.get(username)) {
+      throw new HttpError(409, `User "${username}" already exists`);
+    }
+    const id = randomUUID();
+    const passwordHash = await hashPassword(input.password);
+    db.prepare(
+      `INSERT INTO users (id, username, password_hash, role)
+       VALUES (?, ?, ?, ?)`,
+    ).run(id, username, passwordHash, input.role);
+    return this.getById(id)!;
+  },
+
+  async update(id: string, input: { role?: UserRole; password?: string }): Promise<User | null> {
+    const existing = selectByIdStmt.get(id) as UserRow | undefined;
+    if (!existing) return null;
+    if (input.role !== undefined && input.role !== "admin") {
+      assertNotLastAdmin(existing);
+    }
+    const passwordHash = input.password !== undefined ? await hashPassword(input.password) : existing.password_hash;
+    db.prepare(
+      `UPDATE users
+       SET role = ?, password_hash = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+    ).run(input.role ?? existing.role, passwordHash, id);
+    return this.getById(id);
+  },
+
+  delete(id: string): boolean {
+    const existing = selectByIdStmt.get(id) as UserRow | undefined;
+    if (!existing) return false;
+    assertNotLastAdmin(existing);
+    return db.prepare("DELETE FROM users WHERE id = ?").run(id).changes > 0;
+  },
+
+  /**
+   * The portal used to have a single shared password. On first start with an empty
+   * `users` table, that password becomes the password of an initial admin account.
+   */
+  async ensureBootstrapAdmin(): Promise<void> {
+    if (this.count() > 0) return;
+    await this.create({ username: env.ADMIN_USERNAME, password: env.PORTAL_PASSWORD, role: "admin" });
+    console.log(`[Users] Created initial admin account "${env.ADMIN_USERNAME}" from PORTAL_PASSWORD`);
+  },
+};
@@ -0,0 +1,65 @@
+export type VectorStoreBackend = "pinecone" | "sqlite";
+
+export type VectorRecord = {
+  id: string;
+  values: number[];
+  metadata?: Record<string, unknown>;
+};
+
+export type UpsertParams = VectorRecord & {
+  namespace?: string;
+};
+
+/**
+ * The subset of Pinecone's metadata filter language the app uses: every field must match,
+ * `$eq` on a list field matches when the list contains the value, and `$in` when it
+ * shares at least one value with the list.
+ */
+export type MetadataCondition = { $eq: string } | { $in: string[] };
+
+export type MetadataFilter = Record<string, MetadataCondition>;
+
+export type QueryParams = {
+  vector: number[];
+  topK: number;
+  namespace?: string;
+  filter?: MetadataFilter;
+};
+
+export interface VectorMatch {
+  id: string;
+  score?: number;
+  metadata?: Record<string, unknown>;
+}
+
+/** A stored vector without its values, as returned by `listVectors`. */
+export interface StoredVector {
+  id: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface VectorStoreStats {
+  totalRecordCount: number | null;
+}
+
+/**
+ * Storage for QA embeddings. `pineconeService` delegates to whichever implementation
+ * `VECTOR_STORE` selects, so callers never need to know which backend is active.
+ */
+export interface VectorStore {
+  readonly backend: VectorStoreBackend;
+  /** Human-readable index name reported in search metadata. */
+  readonly indexName: string | null;
+  isConfigured(): boolean;
+  upsertVector(params: UpsertParams): Promise<void>;
+  upsertVectors(records: VectorRecord[], namespace?: string): Promise<void>;
+  deleteVector(id: string): Promise<void>;
+  deleteVectors(ids: string[]): Promise<void>;
+  query(params: QueryParams): Promise<VectorMatch[]>;
+  /** The stored vectors with the given ids, values included; unknown ids are left out. */
+  fetchVectors(ids: string[], namespace?: string): Promise<VectorRecord[]>;
+  /** Every vector id in the namespace along with its metadata; used to reconcile against SQLite. */
+  listVectors(namespace?: string): Promise<StoredVector[]>;
+  describeIndexStats(): Promise<VectorStoreStats | null>;
+  deleteAllVectors(namespace?: string): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import type { UserRole } from "../services/userService";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by `authMiddleware` for authenticated requests. */
+      user?: {
+        id: string;
+        username: string;
+        role: UserRole;
+        sessionId: string;
+        sessionExpiresAt: string;
+      };
+    }
+  }
+}
+
+export {};